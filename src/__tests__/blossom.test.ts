@@ -0,0 +1,202 @@
+import * as crypto from 'crypto';
+import axios, { AxiosError, AxiosResponse } from 'axios';
+import { Readable } from 'stream';
+import { BlossomManager } from '../utils/blossom';
+
+const mockConfig = {
+  nostr: { privateKey: '1'.repeat(64), publicKey: 'f'.repeat(64), relays: [] },
+  blossom: { servers: ['https://source.example', 'https://target.example'] },
+  retry: { attempts: 1, baseDelayMs: 1 },
+};
+
+jest.mock('../utils/config', () => ({
+  ConfigManager: { getInstance: jest.fn(async () => ({ getConfig: () => mockConfig })) },
+}));
+
+function httpError(status: number): AxiosError {
+  return new AxiosError(
+    `Request failed with status code ${status}`,
+    'ERR_BAD_REQUEST',
+    undefined,
+    undefined,
+    {
+      status,
+      statusText: String(status),
+      headers: {},
+      config: {},
+      data: '',
+    } as AxiosResponse
+  );
+}
+
+function decodeAuthorization(header: string) {
+  return JSON.parse(Buffer.from(header.replace('Nostr ', ''), 'base64').toString());
+}
+
+describe('BlossomManager', () => {
+  const sha256 = 'a'.repeat(64);
+  const sourceUrl = `https://source.example/${sha256}`;
+  let blossom: BlossomManager;
+  let put: jest.SpyInstance;
+  let get: jest.SpyInstance;
+  let del: jest.SpyInstance;
+
+  beforeEach(() => {
+    blossom = new BlossomManager();
+    put = jest.spyOn(axios, 'put');
+    get = jest.spyOn(axios, 'get');
+    del = jest.spyOn(axios, 'delete');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    mockConfig.retry.attempts = 1;
+  });
+
+  describe('mirrorBlob', () => {
+    it('should ask the target to fetch the blob with BUD-04 PUT /mirror', async () => {
+      put.mockResolvedValue({ status: 200, data: { sha256 } });
+
+      await expect(blossom.mirrorBlob(sha256, sourceUrl, 'https://target.example')).resolves.toBe(
+        'mirror'
+      );
+
+      const [url, body, options] = put.mock.calls[0];
+      expect(url).toBe('https://target.example/mirror');
+      expect(body).toEqual({ url: sourceUrl });
+      const authEvent = decodeAuthorization(options.headers.Authorization);
+      expect(authEvent.kind).toBe(24242);
+      expect(authEvent.tags).toEqual(
+        expect.arrayContaining([
+          ['t', 'upload'],
+          ['x', sha256],
+        ])
+      );
+      expect(get).not.toHaveBeenCalled();
+    });
+
+    it.each([404, 405, 501])(
+      'should re-upload the blob when the target answers %i to /mirror',
+      async (status) => {
+        put.mockRejectedValueOnce(httpError(status)).mockResolvedValueOnce({
+          status: 200,
+          data: { sha256 },
+        });
+        get.mockResolvedValue({
+          data: Readable.from([Buffer.from('blob')]),
+          headers: { 'content-type': 'text/html', 'content-length': '4' },
+        });
+
+        await expect(blossom.mirrorBlob(sha256, sourceUrl, 'https://target.example')).resolves.toBe(
+          'reupload'
+        );
+
+        expect(get).toHaveBeenCalledWith(
+          sourceUrl,
+          expect.objectContaining({ responseType: 'stream' })
+        );
+        const [url, , options] = put.mock.calls[1];
+        expect(url).toBe('https://target.example/upload');
+        expect(options.headers['Content-Type']).toBe('text/html');
+        expect(options.headers['Content-Length']).toBe('4');
+      }
+    );
+
+    it('should not fall back when the target refuses the blob', async () => {
+      put.mockRejectedValue(httpError(403));
+
+      await expect(blossom.mirrorBlob(sha256, sourceUrl, 'https://target.example')).rejects.toThrow(
+        'Mirror failed: 403'
+      );
+      expect(get).not.toHaveBeenCalled();
+      expect(put).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject a re-upload the target stored under another hash', async () => {
+      put.mockRejectedValueOnce(httpError(405)).mockResolvedValueOnce({
+        status: 200,
+        data: { sha256: 'b'.repeat(64) },
+      });
+      get.mockResolvedValue({ data: Readable.from([Buffer.from('blob')]), headers: {} });
+
+      await expect(blossom.mirrorBlob(sha256, sourceUrl, 'https://target.example')).rejects.toThrow(
+        'Hash mismatch'
+      );
+    });
+  });
+
+  describe('hashRemoteBlob', () => {
+    it('should hash the downloaded content', async () => {
+      get.mockResolvedValue({ data: Readable.from([Buffer.from('bl'), Buffer.from('ob')]) });
+
+      await expect(blossom.hashRemoteBlob(sha256, 'https://source.example')).resolves.toBe(
+        crypto.createHash('sha256').update('blob').digest('hex')
+      );
+      expect(get).toHaveBeenCalledWith(
+        sourceUrl,
+        expect.objectContaining({ responseType: 'stream' })
+      );
+    });
+
+    it('should return null when the server does not have the blob', async () => {
+      get.mockRejectedValue(httpError(404));
+
+      await expect(blossom.hashRemoteBlob(sha256, 'https://source.example')).resolves.toBeNull();
+    });
+
+    it('should rethrow other failures', async () => {
+      get.mockRejectedValue(httpError(500));
+
+      await expect(blossom.hashRemoteBlob(sha256, 'https://source.example')).rejects.toThrow(
+        'status code 500'
+      );
+    });
+  });
+
+  describe('deleteFile', () => {
+    it('should delete the blob with a kind 24242 t=delete authorization', async () => {
+      del.mockResolvedValue({ status: 200 });
+
+      await blossom.deleteFile(sha256, 'https://source.example');
+
+      const [url, options] = del.mock.calls[0];
+      expect(url).toBe(sourceUrl);
+      const authEvent = decodeAuthorization(options.headers.Authorization);
+      expect(authEvent.kind).toBe(24242);
+      expect(authEvent.tags).toEqual(
+        expect.arrayContaining([
+          ['t', 'delete'],
+          ['x', sha256],
+        ])
+      );
+    });
+
+    it('should retry transient failures', async () => {
+      mockConfig.retry.attempts = 3;
+      del
+        .mockRejectedValueOnce(httpError(503))
+        .mockRejectedValueOnce(httpError(429))
+        .mockResolvedValueOnce({ status: 200 });
+
+      await blossom.deleteFile(sha256, 'https://source.example');
+
+      expect(del).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry permanent failures', async () => {
+      mockConfig.retry.attempts = 3;
+      del.mockRejectedValue(httpError(403));
+
+      await expect(blossom.deleteFile(sha256, 'https://source.example')).rejects.toThrow(
+        'Failed to delete file: 403'
+      );
+      expect(del).toHaveBeenCalledTimes(1);
+    });
+
+    it('should treat blobs the server no longer has as deleted', async () => {
+      del.mockRejectedValue(httpError(404));
+
+      await expect(blossom.deleteFile(sha256, 'https://source.example')).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { ConcurrencyLimiter } from '../utils/concurrency';
+
+describe('ConcurrencyLimiter', () => {
+  const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  it('should never run more tasks than the limit', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    let active = 0;
+    let maxActive = 0;
+
+    await Promise.all(
+      Array.from({ length: 6 }, () =>
+        limiter.run(async () => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          await delay(5);
+          active--;
+        })
+      )
+    );
+
+    expect(maxActive).toBe(2);
+  });
+
+  it('should start waiting tasks in queue order', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const order: number[] = [];
+
+    await Promise.all(
+      [1, 2, 3].map((value) =>
+        limiter.run(async () => {
+          order.push(value);
+          await delay(1);
+        })
+      )
+    );
+
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it('should release the slot when a task fails', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+
+    await expect(limiter.run(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    await expect(limiter.run(() => Promise.resolve('ok'))).resolves.toBe('ok');
+  });
+
+  it('should reject invalid limits', () => {
+    expect(() => new ConcurrencyLimiter(0)).toThrow('Invalid concurrency limit');
+  });
+});
@@ -0,0 +1,58 @@
+import {
+  CONFIG_VERSION,
+  getBackupPath,
+  getConfigVersion,
+  migrateEnvContent,
+} from '../utils/config-migrations';
+
+describe('config migrations', () => {
+  it('should merge BLOSSOM_SERVER_URL into BLOSSOM_SERVERS and record the version', () => {
+    const { content, fromVersion, applied } = migrateEnvContent(
+      [
+        '# Nostr Deploy CLI Configuration',
+        'NOSTR_PUBLIC_KEY=abc',
+        'BLOSSOM_SERVERS=https://a.example',
+        'BLOSSOM_SERVER_URL=https://legacy.example',
+        '',
+      ].join('\n')
+    );
+
+    expect(fromVersion).toBe(1);
+    expect(applied).toEqual(['BLOSSOM_SERVER_URL is merged into BLOSSOM_SERVERS']);
+    expect(content).toBe(
+      [
+        '# Nostr Deploy CLI Configuration',
+        `CONFIG_VERSION=${CONFIG_VERSION}`,
+        'NOSTR_PUBLIC_KEY=abc',
+        'BLOSSOM_SERVERS=https://a.example,https://legacy.example',
+        '',
+      ].join('\n')
+    );
+    expect(getConfigVersion(content)).toBe(CONFIG_VERSION);
+  });
+
+  it('should only stamp the version when nothing needs to change', () => {
+    const { content, applied } = migrateEnvContent('BLOSSOM_SERVER_URL=https://only.example\n');
+    expect(content).toBe(
+      `CONFIG_VERSION=${CONFIG_VERSION}\nBLOSSOM_SERVERS=https://only.example\n`
+    );
+    expect(applied).toHaveLength(1);
+
+    expect(migrateEnvContent('NOSTR_PUBLIC_KEY=abc\n').applied).toEqual([]);
+  });
+
+  it('should refuse files written by a newer version', () => {
+    expect(() => migrateEnvContent(`CONFIG_VERSION=${CONFIG_VERSION + 1}\n`)).toThrow(
+      'newer nostr-deploy-cli'
+    );
+  });
+
+  it('should keep the .local suffix of backups', () => {
+    expect(getBackupPath('/p/.env.nostr-deploy.local', 1)).toBe(
+      '/p/.env.nostr-deploy.v1.bak.local'
+    );
+    expect(getBackupPath('/home/.config/nostr-deploy/config.env', 1)).toBe(
+      '/home/.config/nostr-deploy/config.env.v1.bak'
+    );
+  });
+});
@@ -0,0 +1,44 @@
+import { formatConfigValue, parseConfigValue, validateConfigValue } from '../utils/config-schema';
+
+describe('config schema', () => {
+  it('should parse values typed on the command line', () => {
+    expect(parseConfigValue('blossom.servers', 'https://a.example, https://b.example')).toEqual([
+      'https://a.example',
+      'https://b.example',
+    ]);
+    expect(parseConfigValue('nostr.useRelayList', 'false')).toBe(false);
+    expect(parseConfigValue('retry.attempts', '5')).toBe(5);
+    expect(parseConfigValue('blossom.serverLimits', 'https://a.example=2')).toEqual({
+      'https://a.example': 2,
+    });
+  });
+
+  it('should round-trip formatted values', () => {
+    const limits = { 'https://a.example': 2, 'https://b.example': 4 };
+    expect(parseConfigValue('blossom.serverLimits', formatConfigValue(limits))).toEqual(limits);
+  });
+
+  it('should validate relays, Blossom servers and the domain', () => {
+    expect(
+      validateConfigValue('nostr.relays', ['wss://relay.example', 'ws://localhost:7777'])
+    ).toBe(null);
+    expect(validateConfigValue('nostr.relays', ['https://relay.example'])).toContain('wss://');
+    expect(validateConfigValue('blossom.servers', ['http://blossom.example'])).toContain(
+      'https://'
+    );
+    expect(validateConfigValue('deployment.baseDomain', 'example.com')).toBe(null);
+    expect(validateConfigValue('deployment.baseDomain', 'https://example.com')).toContain(
+      'hostname'
+    );
+  });
+
+  it('should reject unknown keys, the identity and invalid input', () => {
+    expect(validateConfigValue('blossom.sever', [])).toBe(
+      'unknown key "blossom.sever", did you mean "blossom.servers"?'
+    );
+    expect(validateConfigValue('hosting.url', 'x')).toBe('unknown key "hosting.url"');
+    expect(validateConfigValue('nostr.privateKey', 'abc')).toContain('nostr-deploy-cli auth');
+    expect(() => parseConfigValue('retry.attempts', 'three')).toThrow('positive integer');
+    expect(() => parseConfigValue('nostr.relays', ' , ')).toThrow('config unset');
+  });
+});
@@ -1,3 +1,6 @@
+import * as fs from 'fs-extra';
+import { generateSecretKey, getPublicKey, nip19 } from 'nostr-tools';
+import * as path from 'path';
 import { ConfigManager } from '../utils/config';
 
 // Mock fs-extra to avoid file system operations during tests
@@ -7,6 +10,7 @@ jest.mock('fs-extra', () => ({
   writeJSON: jest.fn().mockResolvedValue(undefined),
   readJSON: jest.fn().mockResolvedValue({}),
   writeFile: jest.fn().mockResolvedValue(undefined),
+  copy: jest.fn().mockResolvedValue(undefined),
   readFile: jest.fn().mockResolvedValue(''),
 }));
 
@@ -52,6 +56,31 @@ describe('ConfigManager', () => {
     expect(updatedConfig.nostr?.relays).toContain('wss://test-relay.com');
   });
 
+  it('should merge updates without dropping other settings', async () => {
+    await configManager.updateConfig({
+      nostr: { publicKey: 'test-public-key', relays: ['wss://test-relay.com'] },
+    });
+    await configManager.updateConfig({ nostr: { authRelays: ['wss://auth-relay.com'] } });
+
+    const config = configManager.getConfig();
+    expect(config.nostr?.publicKey).toBe('test-public-key');
+    expect(config.nostr?.relays).toEqual(['wss://test-relay.com']);
+    expect(config.nostr?.authRelays).toEqual(['wss://auth-relay.com']);
+  });
+
+  it('should validate settings by key path', async () => {
+    await configManager.setConfigValue('blossom.servers', ['https://a.example']);
+    expect(configManager.getValue('blossom.servers')).toEqual(['https://a.example']);
+
+    await expect(
+      configManager.setConfigValue('blossom.servers', ['http://a.example'])
+    ).rejects.toThrow('https://');
+    await expect(configManager.setConfigValue('nostr.publicKey', 'abc')).rejects.toThrow('auth');
+
+    await configManager.unsetConfigValue('blossom.servers');
+    expect(configManager.getValue('blossom.servers')).toEqual([]);
+  });
+
   it('should set Nostr relays correctly', async () => {
     const testRelays = ['wss://relay1.com', 'wss://relay2.com'];
 
@@ -61,10 +90,381 @@ describe('ConfigManager', () => {
     expect(config.nostr?.relays).toEqual(testRelays);
   });
 
+  it('should set relays allowed to authenticate', async () => {
+    await configManager.setAuthRelays(['wss://team-relay.example']);
+    const config = configManager.getConfig();
+
+    expect(config.nostr?.authRelays).toEqual(['wss://team-relay.example']);
+  });
+
   it('should set Blossom servers correctly', async () => {
     const testServers = ['https://test-server.com', 'https://backup-server.com'];
     await configManager.setBlossomServers(testServers);
     const config = configManager.getConfig();
     expect(config.blossom?.servers).toEqual(testServers);
   });
+
+  describe('environment overrides', () => {
+    const secretKey = generateSecretKey();
+
+    beforeEach(async () => {
+      process.env.NOSTR_DEPLOY_NSEC = nip19.nsecEncode(secretKey);
+      process.env.NOSTR_DEPLOY_RELAYS = 'wss://ci-relay.example, wss://ci-backup.example';
+      process.env.NOSTR_DEPLOY_BLOSSOM_SERVERS = 'https://ci-blossom.example';
+      process.env.NOSTR_DEPLOY_BASE_DOMAIN = 'ci.example';
+      (ConfigManager as any).instance = undefined;
+      configManager = await ConfigManager.getInstance();
+    });
+
+    afterEach(() => {
+      delete process.env.NOSTR_DEPLOY_NSEC;
+      delete process.env.NOSTR_DEPLOY_RELAYS;
+      delete process.env.NOSTR_DEPLOY_BLOSSOM_SERVERS;
+      delete process.env.NOSTR_DEPLOY_BASE_DOMAIN;
+    });
+
+    it('should override the config file with environment variables', async () => {
+      await configManager.setNostrRelays(['wss://file-relay.example']);
+      const config = configManager.getConfig();
+
+      expect(config.nostr?.privateKey).toBe(Buffer.from(secretKey).toString('hex'));
+      expect(config.nostr?.publicKey).toBe(getPublicKey(secretKey));
+      expect(config.nostr?.relays).toEqual(['wss://ci-relay.example', 'wss://ci-backup.example']);
+      expect(config.blossom?.servers).toEqual(['https://ci-blossom.example']);
+      expect(config.deployment?.baseDomain).toBe('ci.example');
+      expect(configManager.isConfigured()).toBe(true);
+      expect(await configManager.hasLocalConfig()).toBe(true);
+    });
+
+    it('should never write environment values to the config file', async () => {
+      (fs.writeFile as unknown as jest.Mock).mockClear();
+
+      await configManager.setNostrRelays(['wss://file-relay.example']);
+
+      const written = (fs.writeFile as unknown as jest.Mock).mock.calls[0][1];
+      expect(written).toContain('NOSTR_RELAYS=wss://file-relay.example');
+      expect(written).not.toContain('NOSTR_PRIVATE_KEY');
+      expect(written).not.toContain('ci-relay.example');
+      expect(written).not.toContain('ci-blossom.example');
+    });
+
+    it('should reject an invalid key', async () => {
+      process.env.NOSTR_DEPLOY_NSEC = 'npub1notakey';
+      (ConfigManager as any).instance = undefined;
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(ConfigManager.getInstance()).rejects.toThrow('NOSTR_DEPLOY_NSEC');
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('layers and profiles', () => {
+    const files: { [filePath: string]: string } = {
+      '/xdg/nostr-deploy/config.env': [
+        'CONFIG_VERSION=2',
+        `NOSTR_PRIVATE_KEY=${'a'.repeat(64)}`,
+        'NOSTR_PUBLIC_KEY=user-pubkey',
+        'NOSTR_RELAYS=wss://user-relay.example',
+        'BLOSSOM_SERVERS=https://user-blossom.example',
+      ].join('\n'),
+      '/xdg/nostr-deploy/profiles/staging.env': 'CONFIG_VERSION=2\nBASE_DOMAIN=staging.example',
+      [path.join(process.cwd(), '.env.nostr-deploy.local')]: [
+        'CONFIG_VERSION=2',
+        'NOSTR_BUNKER_URL=bunker://project',
+        'NOSTR_PUBLIC_KEY=project-pubkey',
+        'NOSTR_RELAYS=wss://project-relay.example',
+      ].join('\n'),
+    };
+
+    beforeEach(() => {
+      process.env.XDG_CONFIG_HOME = '/xdg';
+      (fs.pathExists as unknown as jest.Mock).mockImplementation(
+        async (filePath: string) => filePath in files
+      );
+      (fs.readFile as unknown as jest.Mock).mockImplementation(
+        async (filePath: string) => files[filePath]
+      );
+      (ConfigManager as any).instance = undefined;
+    });
+
+    afterEach(() => {
+      delete process.env.XDG_CONFIG_HOME;
+      ConfigManager.useProfile(undefined);
+      (fs.pathExists as unknown as jest.Mock).mockResolvedValue(false);
+      (fs.readFile as unknown as jest.Mock).mockResolvedValue('');
+    });
+
+    it('should let the project override the user config, key by key', async () => {
+      configManager = await ConfigManager.getInstance();
+      const config = configManager.getConfig();
+
+      expect(config.nostr?.relays).toEqual(['wss://project-relay.example']);
+      expect(config.blossom?.servers).toEqual(['https://user-blossom.example']);
+      expect(config.deployment?.baseDomain).toBe('nostrdeploy.com');
+      expect(configManager.getSources()).toMatchObject({
+        'nostr.relays': 'project',
+        'blossom.servers': 'user',
+      });
+    });
+
+    it('should take the key and its public key from the same layer', async () => {
+      configManager = await ConfigManager.getInstance();
+      const config = configManager.getConfig();
+
+      expect(config.nostr?.bunker).toBe('bunker://project');
+      expect(config.nostr?.publicKey).toBe('project-pubkey');
+      expect(config.nostr?.privateKey).toBeUndefined();
+      expect(configManager.getSources()['nostr.privateKey']).toBeUndefined();
+    });
+
+    it('should add the files of the active profile', async () => {
+      ConfigManager.useProfile('Staging');
+      configManager = await ConfigManager.getInstance();
+
+      expect(configManager.getProfile()).toBe('staging');
+      expect(configManager.getConfig().deployment?.baseDomain).toBe('staging.example');
+      expect(configManager.getSources()['deployment.baseDomain']).toBe('user profile staging');
+      expect(configManager.getLayers().map((layer) => layer.name)).toEqual([
+        'user',
+        'user profile staging',
+        'project config',
+        'project',
+        'project profile staging',
+        'environment',
+        'flags',
+      ]);
+      expect(configManager.getConfigPath()).toBe(
+        path.join(process.cwd(), '.env.nostr-deploy.staging.local')
+      );
+    });
+
+    it('should save to the user config with the user scope', async () => {
+      configManager = await ConfigManager.getInstance();
+      (fs.writeFile as unknown as jest.Mock).mockClear();
+
+      configManager.setScope('user');
+      await configManager.setBaseDomain('shared.example');
+
+      const [writtenPath, written] = (fs.writeFile as unknown as jest.Mock).mock.calls[0];
+      expect(writtenPath).toBe('/xdg/nostr-deploy/config.env');
+      expect(written).toContain('BASE_DOMAIN=shared.example');
+      expect(written).toContain('NOSTR_RELAYS=wss://user-relay.example');
+      expect(written).not.toContain('project-relay.example');
+    });
+
+    it('should reject invalid profile names', () => {
+      expect(() => ConfigManager.useProfile('../prod')).toThrow('Invalid profile name');
+    });
+  });
+
+  describe('project config file', () => {
+    const projectConfigPath = path.join(process.cwd(), 'nostr-deploy.config.json');
+    const envPath = path.join(process.cwd(), '.env.nostr-deploy.local');
+    const files: { [filePath: string]: string } = {};
+
+    beforeEach(() => {
+      files[projectConfigPath] = JSON.stringify({
+        nostr: { relays: ['wss://committed-relay.example'] },
+        deploy: { dir: 'dist' },
+      });
+      files[envPath] = [
+        'CONFIG_VERSION=2',
+        `NOSTR_PRIVATE_KEY=${'a'.repeat(64)}`,
+        'NOSTR_PUBLIC_KEY=project-pubkey',
+        'BASE_DOMAIN=local.example',
+      ].join('\n');
+      (fs.pathExists as unknown as jest.Mock).mockImplementation(
+        async (filePath: string) => filePath in files
+      );
+      (fs.readFile as unknown as jest.Mock).mockImplementation(
+        async (filePath: string) => files[filePath]
+      );
+      (fs.writeFile as unknown as jest.Mock).mockClear();
+      (ConfigManager as any).instance = undefined;
+    });
+
+    afterEach(() => {
+      (fs.pathExists as unknown as jest.Mock).mockResolvedValue(false);
+      (fs.readFile as unknown as jest.Mock).mockResolvedValue('');
+    });
+
+    it('should merge the project config file with the env file', async () => {
+      configManager = await ConfigManager.getInstance();
+      const config = configManager.getConfig();
+
+      expect(config.nostr?.relays).toEqual(['wss://committed-relay.example']);
+      expect(config.nostr?.publicKey).toBe('project-pubkey');
+      expect(config.deployment?.baseDomain).toBe('local.example');
+      expect(config.deploy).toEqual({ dir: 'dist' });
+      expect(configManager.getSources()['nostr.relays']).toBe('project config');
+    });
+
+    it('should save settings to the project config file and the key to the env file', async () => {
+      configManager = await ConfigManager.getInstance();
+
+      await configManager.setNostrRelays(['wss://new-relay.example']);
+      await configManager.setNostrKey('b'.repeat(64), 'new-pubkey');
+
+      const writes = (fs.writeFile as unknown as jest.Mock).mock.calls;
+      expect(writes[0][0]).toBe(projectConfigPath);
+      expect(JSON.parse(writes[0][1]).nostr.relays).toEqual(['wss://new-relay.example']);
+      expect(writes[1][0]).toBe(envPath);
+      expect(writes[1][1]).toContain(`NOSTR_PRIVATE_KEY=${'b'.repeat(64)}`);
+    });
+
+    it('should move everything but the key out of the env file', async () => {
+      configManager = await ConfigManager.getInstance();
+
+      expect(await configManager.migrateToProjectConfig()).toEqual(['deployment.baseDomain']);
+
+      const writes = (fs.writeFile as unknown as jest.Mock).mock.calls;
+      const projectWrite = writes.find(([filePath]) => filePath === projectConfigPath);
+      const envWrite = writes.find(([filePath]) => filePath === envPath);
+      expect(JSON.parse(projectWrite[1]).deployment).toEqual({ baseDomain: 'local.example' });
+      expect(envWrite[1]).toContain('NOSTR_PRIVATE_KEY');
+      expect(envWrite[1]).not.toContain('BASE_DOMAIN');
+      expect(configManager.getConfig().deployment?.baseDomain).toBe('local.example');
+    });
+
+    it('should reject an invalid project config file', async () => {
+      files[projectConfigPath] = JSON.stringify({ nostr: { privateKey: 'abc' } });
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await expect(ConfigManager.getInstance()).rejects.toThrow('must not be committed');
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('versions and validation', () => {
+    const envPath = path.join(process.cwd(), '.env.nostr-deploy.local');
+    let content: string;
+    let consoleWarn: jest.SpyInstance;
+
+    beforeEach(() => {
+      (fs.pathExists as unknown as jest.Mock).mockImplementation(
+        async (filePath: string) => filePath === envPath
+      );
+      (fs.readFile as unknown as jest.Mock).mockImplementation(async () => content);
+      (fs.writeFile as unknown as jest.Mock).mockClear();
+      (fs.copy as unknown as jest.Mock).mockClear();
+      consoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      (ConfigManager as any).instance = undefined;
+    });
+
+    afterEach(() => {
+      consoleWarn.mockRestore();
+      (fs.pathExists as unknown as jest.Mock).mockResolvedValue(false);
+      (fs.readFile as unknown as jest.Mock).mockResolvedValue('');
+    });
+
+    it('should back up and upgrade an older config file', async () => {
+      content = `NOSTR_PRIVATE_KEY=${'1'.repeat(64)}\nBLOSSOM_SERVER_URL=https://legacy.example\n`;
+
+      configManager = await ConfigManager.getInstance();
+
+      expect((fs.writeFile as unknown as jest.Mock).mock.calls).toEqual([
+        [
+          path.join(process.cwd(), '.env.nostr-deploy.v1.bak.local'),
+          content,
+          { mode: 0o600, flag: 'wx' },
+        ],
+        [
+          envPath,
+          `CONFIG_VERSION=2\nNOSTR_PRIVATE_KEY=${'1'.repeat(64)}\nBLOSSOM_SERVERS=https://legacy.example\n`,
+          'utf-8',
+        ],
+      ]);
+      expect(configManager.getConfig().blossom?.servers).toEqual(['https://legacy.example']);
+      expect(consoleWarn).toHaveBeenCalledWith(
+        expect.stringContaining(`Upgraded ${envPath} to config version 2`)
+      );
+    });
+
+    it('should keep the copy left by an earlier upgrade', async () => {
+      content = 'BLOSSOM_SERVER_URL=https://legacy.example\n';
+      (fs.writeFile as unknown as jest.Mock).mockRejectedValueOnce(
+        Object.assign(new Error('file exists'), { code: 'EEXIST' })
+      );
+
+      configManager = await ConfigManager.getInstance();
+
+      expect((fs.writeFile as unknown as jest.Mock).mock.calls[1][0]).toBe(envPath);
+      expect(configManager.getConfig().blossom?.servers).toEqual(['https://legacy.example']);
+    });
+
+    it('should not upgrade a file that cannot be backed up', async () => {
+      content = 'BLOSSOM_SERVER_URL=https://legacy.example\n';
+      (fs.writeFile as unknown as jest.Mock).mockRejectedValueOnce(
+        Object.assign(new Error('permission denied'), { code: 'EACCES' })
+      );
+
+      await expect(ConfigManager.getInstance()).rejects.toThrow('Could not back up');
+      expect(fs.writeFile).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave current config files alone', async () => {
+      content = 'CONFIG_VERSION=2\nBLOSSOM_SERVERS=https://a.example\n';
+      configManager = await ConfigManager.getInstance();
+
+      expect(configManager.getWarnings()).toEqual([]);
+      expect(fs.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('should keep comments and unknown lines when saving', async () => {
+      content = [
+        '# my relays',
+        'CONFIG_VERSION=2',
+        'NOSTR_RELAYS=wss://a.example',
+        'MY_OWN_SETTING=1',
+        'BLOSSOM_SERVERS=https://a.example',
+        '',
+      ].join('\n');
+      configManager = await ConfigManager.getInstance();
+
+      await configManager.setConfigValue('nostr.relays', ['wss://b.example']);
+      await configManager.unsetConfigValue('blossom.servers');
+      await configManager.setConfigValue('retry.attempts', 5);
+
+      const calls = (fs.writeFile as unknown as jest.Mock).mock.calls;
+      expect(calls[calls.length - 1]).toEqual([
+        envPath,
+        [
+          '# my relays',
+          'CONFIG_VERSION=2',
+          'NOSTR_RELAYS=wss://b.example',
+          'MY_OWN_SETTING=1',
+          'RETRY_ATTEMPTS=5',
+          '',
+        ].join('\n'),
+        'utf-8',
+      ]);
+    });
+
+    it('should warn about unknown keys with a suggestion', async () => {
+      content = 'CONFIG_VERSION=2\nBLOSSOM_SERVRS=https://a.example\n';
+
+      configManager = await ConfigManager.getInstance();
+
+      expect(fs.writeFile).not.toHaveBeenCalled();
+      expect(configManager.getWarnings()).toEqual([
+        `${envPath}: unknown key "BLOSSOM_SERVRS", did you mean "BLOSSOM_SERVERS"?`,
+      ]);
+      expect(consoleWarn).toHaveBeenCalledWith(expect.stringContaining('BLOSSOM_SERVRS'));
+    });
+
+    it('should report invalid values and missing settings', async () => {
+      content = [
+        'CONFIG_VERSION=2',
+        `NOSTR_PUBLIC_KEY=${'a'.repeat(64)}`,
+        'NOSTR_RELAYS=https://not-a-relay.example',
+      ].join('\n');
+
+      configManager = await ConfigManager.getInstance();
+
+      expect(configManager.validate()).toEqual([
+        `${envPath}: nostr.relays must be a list of relay URLs (wss:// or ws://)`,
+        'No Blossom servers configured (blossom.servers)',
+      ]);
+    });
+  });
 });
@@ -0,0 +1,101 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { deployCommand } from '../commands/deploy';
+import { BlossomManager } from '../utils/blossom';
+import { NostrManager } from '../utils/nostr';
+import { getSigner, unlockSigner } from '../utils/signer';
+
+jest.mock('../utils/blossom');
+jest.mock('../utils/nostr');
+jest.mock('../utils/signer', () => ({
+  ...jest.requireActual('../utils/signer'),
+  getSigner: jest.fn(),
+  unlockSigner: jest.fn(),
+}));
+jest.mock('../utils/config', () => ({
+  ConfigManager: {
+    getInstance: jest.fn(async () => ({
+      getConfig: () => ({
+        nostr: {
+          publicKey: 'f'.repeat(64),
+          privateKey: '1'.repeat(64),
+          relays: ['wss://r.example'],
+        },
+        blossom: { servers: ['https://blossom.example'] },
+        deployment: { baseDomain: 'nostrdeploy.com' },
+      }),
+      hasLocalConfig: async () => true,
+      isConfigured: () => true,
+      setFlagOverrides: jest.fn(),
+    })),
+  },
+}));
+
+// Methods of a mocked manager class that were called, except the read-only ones a dry run may use
+function calledMethods(managerClass: { prototype: object }, readOnly: string[]): string[] {
+  const prototype = managerClass.prototype as { [name: string]: jest.Mock };
+  return Object.getOwnPropertyNames(prototype).filter(
+    (name) =>
+      name !== 'constructor' && !readOnly.includes(name) && prototype[name].mock.calls.length > 0
+  );
+}
+
+describe('deploy --dry-run', () => {
+  let buildDirectory: string;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(process, 'exit').mockImplementation((code) => {
+      throw new Error(`process.exit(${code})`);
+    });
+
+    buildDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'nostr-deploy-test-'));
+    await fs.outputFile(path.join(buildDirectory, 'index.html'), '<h1>home</h1>');
+    await fs.outputFile(path.join(buildDirectory, 'app.js'), 'console.log(1)');
+
+    jest.mocked(BlossomManager.prototype.getServers).mockResolvedValue(['https://blossom.example']);
+    jest.mocked(BlossomManager.prototype.hashFile).mockResolvedValue('a'.repeat(64));
+    jest.mocked(BlossomManager.prototype.hasBlob).mockResolvedValue(false);
+    jest
+      .mocked(BlossomManager.prototype.checkUploadRequirements)
+      .mockResolvedValue({ allowed: true, requiresAuth: true });
+    jest.mocked(BlossomManager.prototype.getMimeType).mockReturnValue('text/html');
+    jest.mocked(NostrManager.prototype.getNpubSubdomain).mockResolvedValue('npub1test');
+    jest
+      .mocked(NostrManager.prototype.getSiteState)
+      .mockResolvedValue(
+        new Map([
+          ['/old.html', { path: '/old.html', sha256: 'b'.repeat(64), eventId: 'e', createdAt: 1 }],
+        ])
+      );
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(buildDirectory);
+  });
+
+  it('should plan the deployment without uploading, signing or publishing', async () => {
+    await expect(deployCommand({ dir: buildDirectory, dryRun: true })).rejects.toThrow();
+
+    expect(process.exit).toHaveBeenNthCalledWith(1, 0);
+    expect(BlossomManager.prototype.checkUploadRequirements).toHaveBeenCalledTimes(2);
+    expect(NostrManager.prototype.getSiteState).toHaveBeenCalled();
+
+    expect(
+      calledMethods(BlossomManager, [
+        'getServers',
+        'hashFile',
+        'hasBlob',
+        'checkUploadRequirements',
+        'getMimeType',
+      ])
+    ).toEqual([]);
+    expect(calledMethods(NostrManager, ['getNpubSubdomain', 'getSiteState'])).toEqual([]);
+    expect(getSigner).not.toHaveBeenCalled();
+    expect(unlockSigner).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,819 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { DeploymentManager } from '../utils/deployment';
+import { DEPLOYMENT_MANIFEST_KIND } from '../utils/manifest';
+import { DeploymentHistoryEntry, SiteFileState } from '../utils/nostr';
+import { ALL_SITES } from '../utils/site';
+
+const mockBlossom = {
+  getServers: jest.fn(),
+  hashFile: jest.fn(),
+  hasBlob: jest.fn(),
+  checkUploadRequirements: jest.fn(),
+  getMimeType: jest.fn(),
+  uploadDirectory: jest.fn(),
+  mirrorBlob: jest.fn(),
+  hashRemoteBlob: jest.fn(),
+  listBlobs: jest.fn(),
+  deleteFile: jest.fn(),
+};
+
+const mockNostr = {
+  getSiteState: jest.fn(),
+  getNpubSubdomain: jest.fn(),
+  getOutboxRelays: jest.fn(),
+  publishDeploymentMetadata: jest.fn(),
+  publishStaticFileEvents: jest.fn(),
+  publishStaticFileDeletions: jest.fn(),
+  publishDeploymentManifest: jest.fn(),
+  getUserServersEvent: jest.fn(),
+  publishUserServersEvent: jest.fn(),
+  getDeploymentHistory: jest.fn(),
+};
+
+const mockConfig = {
+  nostr: { publicKey: 'f'.repeat(64), relays: ['wss://relay.example'] },
+  blossom: { servers: ['https://blossom.example'] },
+  deployment: { baseDomain: 'nostrdeploy.com' },
+};
+
+jest.mock('../utils/blossom', () => ({ BlossomManager: jest.fn(() => mockBlossom) }));
+jest.mock('../utils/nostr', () => ({ NostrManager: jest.fn(() => mockNostr) }));
+jest.mock('../utils/config', () => ({
+  ConfigManager: { getInstance: jest.fn(async () => ({ getConfig: () => mockConfig })) },
+}));
+
+function sha256(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+function siteState(files: { [sitePath: string]: string }): Map<string, SiteFileState> {
+  return new Map(
+    Object.entries(files).map(([sitePath, hash], index) => [
+      sitePath,
+      { path: sitePath, sha256: hash, eventId: `event-${index}`, createdAt: 1700000000 },
+    ])
+  );
+}
+
+// Every file reaches the one Blossom server
+async function uploadAll(directory: string, filePaths: string[]) {
+  return Object.fromEntries(
+    await Promise.all(
+      filePaths.map(async (filePath) => [
+        path.relative(directory, filePath),
+        {
+          filename: filePath,
+          sha256: sha256(await fs.readFile(filePath, 'utf-8')),
+          serverResults: [{ server: 'https://blossom.example', success: true }],
+          hasSuccess: true,
+        },
+      ])
+    )
+  );
+}
+
+describe('DeploymentManager', () => {
+  let buildDirectory: string;
+  let deployment: DeploymentManager;
+
+  const site = {
+    '/index.html': '<h1>home</h1>',
+    '/app.js': 'console.log(1)',
+    '/about/index.html': '<h1>about</h1>',
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    buildDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'nostr-deploy-test-'));
+    for (const [sitePath, content] of Object.entries(site)) {
+      await fs.outputFile(path.join(buildDirectory, sitePath), content);
+    }
+
+    mockBlossom.getServers.mockResolvedValue(['https://blossom.example']);
+    mockBlossom.hashFile.mockImplementation(async (filePath: string) =>
+      sha256(await fs.readFile(filePath, 'utf-8'))
+    );
+    mockBlossom.hasBlob.mockResolvedValue(false);
+    mockBlossom.checkUploadRequirements.mockResolvedValue({ allowed: true, requiresAuth: false });
+    mockBlossom.getMimeType.mockReturnValue('text/html');
+    mockNostr.getNpubSubdomain.mockResolvedValue('npub1test');
+    mockNostr.getOutboxRelays.mockResolvedValue([]);
+    mockNostr.publishDeploymentManifest.mockResolvedValue([
+      { eventId: 'manifest', relayResults: [] },
+    ]);
+
+    deployment = new DeploymentManager();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(buildDirectory);
+  });
+
+  describe('incremental deploys', () => {
+    it('should only plan uploads for new and changed paths', async () => {
+      mockNostr.getSiteState.mockResolvedValue(
+        siteState({
+          '/index.html': sha256(site['/index.html']),
+          '/app.js': sha256('console.log(0)'),
+        })
+      );
+
+      const plan = await deployment.planDeployment(buildDirectory, {
+        incremental: true,
+        keepStale: true,
+      });
+
+      expect(plan.files.map((file) => file.path).sort()).toEqual(['/about/index.html', '/app.js']);
+      expect(plan.unchangedPaths).toEqual(['/index.html']);
+      expect(plan.files.find((file) => file.path === '/app.js')?.sha256).toBe(
+        sha256(site['/app.js'])
+      );
+    });
+
+    it('should report added, changed and unchanged paths and upload only the first two', async () => {
+      mockNostr.getSiteState.mockResolvedValue(
+        siteState({
+          '/index.html': sha256(site['/index.html']),
+          '/app.js': sha256('console.log(0)'),
+        })
+      );
+      mockBlossom.uploadDirectory.mockImplementation(uploadAll);
+      mockNostr.publishDeploymentMetadata.mockResolvedValue({
+        staticFileEventResults: [],
+        userServersEventResult: { eventId: 'servers', relayResults: [] },
+      });
+
+      const result = await deployment.deployStaticSite(buildDirectory, {
+        incremental: true,
+        keepStale: true,
+      });
+
+      expect(result.changes).toEqual({
+        added: ['/about/index.html'],
+        changed: ['/app.js'],
+        unchanged: ['/index.html'],
+      });
+      const uploaded: string[] = mockBlossom.uploadDirectory.mock.calls[0][1];
+      expect(uploaded.map((filePath) => path.relative(buildDirectory, filePath)).sort()).toEqual([
+        'about/index.html',
+        'app.js',
+      ]);
+    });
+
+    it('should skip uploading when nothing changed', async () => {
+      mockNostr.getSiteState.mockResolvedValue(
+        siteState(
+          Object.fromEntries(
+            Object.entries(site).map(([sitePath, content]) => [sitePath, sha256(content)])
+          )
+        )
+      );
+
+      const result = await deployment.deployStaticSite(buildDirectory, {
+        incremental: true,
+        keepStale: true,
+      });
+
+      expect(result.changes?.unchanged).toHaveLength(3);
+      expect(result.fileCount).toBe(0);
+      expect(mockBlossom.uploadDirectory).not.toHaveBeenCalled();
+      expect(mockNostr.publishDeploymentMetadata).not.toHaveBeenCalled();
+    });
+
+    it('should treat every path as new when nothing is published yet', async () => {
+      mockNostr.getSiteState.mockResolvedValue(new Map());
+
+      const plan = await deployment.planDeployment(buildDirectory, {
+        incremental: true,
+        keepStale: true,
+      });
+
+      expect(plan.files).toHaveLength(3);
+      expect(plan.unchangedPaths).toEqual([]);
+    });
+
+    it('should fail when the published state cannot be fetched', async () => {
+      mockNostr.getSiteState.mockRejectedValue(new Error('No relays available'));
+
+      await expect(
+        deployment.planDeployment(buildDirectory, { incremental: true })
+      ).rejects.toThrow('No relays available');
+    });
+
+    it('should upload everything without --incremental', async () => {
+      mockNostr.getSiteState.mockResolvedValue(
+        siteState({ '/index.html': sha256(site['/index.html']) })
+      );
+
+      const plan = await deployment.planDeployment(buildDirectory, { keepStale: true });
+
+      expect(plan.files).toHaveLength(3);
+      expect(plan.unchangedPaths).toEqual([]);
+    });
+  });
+
+  describe('stale paths', () => {
+    beforeEach(() => {
+      mockBlossom.uploadDirectory.mockImplementation(uploadAll);
+      mockNostr.publishDeploymentMetadata.mockResolvedValue({
+        staticFileEventResults: [],
+        userServersEventResult: { eventId: 'servers', relayResults: [] },
+      });
+      mockNostr.publishStaticFileDeletions.mockResolvedValue([
+        { eventId: 'deletion', relayResults: [] },
+      ]);
+    });
+
+    it('should delete published paths that are no longer in the build', async () => {
+      mockNostr.getSiteState.mockResolvedValue(
+        siteState({ '/index.html': 'a', '/old.html': 'b', '/old/page.html': 'c' })
+      );
+
+      const result = await deployment.deployStaticSite(buildDirectory);
+
+      expect(result.prunedPaths).toEqual(['/old.html', '/old/page.html']);
+      expect(mockNostr.publishStaticFileDeletions).toHaveBeenCalledWith(
+        ['/old.html', '/old/page.html'],
+        undefined
+      );
+    });
+
+    it('should list stale paths in the plan as a kind 5 event', async () => {
+      mockNostr.getSiteState.mockResolvedValue(siteState({ '/old.html': 'b' }));
+
+      const plan = await deployment.planDeployment(buildDirectory, { site: 'docs' });
+
+      expect(plan.stalePaths).toEqual(['/old.html']);
+      expect(plan.events.find((event) => event.kind === 5)?.tags).toEqual([
+        ['k', '34128'],
+        ['a', `34128:${'f'.repeat(64)}:docs:/old.html`],
+      ]);
+    });
+
+    it('should keep stale paths with --keep-stale', async () => {
+      mockNostr.getSiteState.mockResolvedValue(siteState({ '/old.html': 'b' }));
+
+      const result = await deployment.deployStaticSite(buildDirectory, { keepStale: true });
+
+      expect(result.prunedPaths).toBeUndefined();
+      expect(mockNostr.publishStaticFileDeletions).not.toHaveBeenCalled();
+    });
+
+    it('should keep stale paths when the published state cannot be fetched', async () => {
+      mockNostr.getSiteState.mockRejectedValue(new Error('No relays available'));
+
+      const result = await deployment.deployStaticSite(buildDirectory);
+
+      expect(result.prunedPaths).toBeUndefined();
+      expect(mockNostr.publishStaticFileDeletions).not.toHaveBeenCalled();
+    });
+
+    it('should not prune the SPA fallback', async () => {
+      mockNostr.getSiteState.mockResolvedValue(
+        siteState({ '/index.html': sha256(site['/index.html']), '/404.html': 'old' })
+      );
+      mockNostr.publishStaticFileEvents.mockResolvedValue([]);
+
+      const result = await deployment.deployStaticSite(buildDirectory, { spa: true });
+
+      expect(result.prunedPaths).toEqual([]);
+      expect(mockNostr.publishStaticFileDeletions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deployment manifests', () => {
+    beforeEach(() => {
+      mockBlossom.uploadDirectory.mockImplementation(uploadAll);
+      mockNostr.publishDeploymentMetadata.mockResolvedValue({
+        staticFileEventResults: [],
+        userServersEventResult: { eventId: 'servers', relayResults: [] },
+      });
+      mockNostr.publishStaticFileDeletions.mockResolvedValue([]);
+    });
+
+    it('should record every path the site serves after a deploy', async () => {
+      mockNostr.getSiteState.mockResolvedValue(
+        siteState({ '/index.html': 'old', '/old.html': 'b'.repeat(64) })
+      );
+
+      const result = await deployment.deployStaticSite(buildDirectory, { site: 'docs' });
+
+      expect(result.manifestEventResults?.[0].eventId).toBe('manifest');
+      const [files, manifestSite] = mockNostr.publishDeploymentManifest.mock.calls[0];
+      expect(manifestSite).toBe('docs');
+      expect(files).toEqual(
+        expect.arrayContaining(
+          Object.entries(site).map(([sitePath, content]) => ({
+            path: sitePath,
+            sha256: sha256(content),
+          }))
+        )
+      );
+      expect(files).toHaveLength(3);
+    });
+
+    it('should keep unchanged and kept stale paths in the manifest', async () => {
+      mockNostr.getSiteState.mockResolvedValue(
+        siteState({ '/index.html': sha256(site['/index.html']), '/old.html': 'b'.repeat(64) })
+      );
+
+      await deployment.deployStaticSite(buildDirectory, { incremental: true, keepStale: true });
+
+      const files: { path: string; sha256: string }[] =
+        mockNostr.publishDeploymentManifest.mock.calls[0][0];
+      expect(files.map((file) => file.path).sort()).toEqual([
+        '/about/index.html',
+        '/app.js',
+        '/index.html',
+        '/old.html',
+      ]);
+      expect(files.find((file) => file.path === '/old.html')?.sha256).toBe('b'.repeat(64));
+    });
+
+    it('should not publish a manifest when nothing changed', async () => {
+      mockNostr.getSiteState.mockResolvedValue(
+        siteState(
+          Object.fromEntries(
+            Object.entries(site).map(([sitePath, content]) => [sitePath, sha256(content)])
+          )
+        )
+      );
+
+      const result = await deployment.deployStaticSite(buildDirectory, { incremental: true });
+
+      expect(result.manifestEventResults).toBeUndefined();
+      expect(mockNostr.publishDeploymentManifest).not.toHaveBeenCalled();
+    });
+
+    it('should fail the deploy when the manifest cannot be published', async () => {
+      mockNostr.getSiteState.mockResolvedValue(new Map());
+      mockNostr.publishDeploymentManifest.mockRejectedValue(
+        new Error('Failed to publish 2 event(s) to any relay')
+      );
+
+      await expect(deployment.deployStaticSite(buildDirectory)).rejects.toThrow(
+        "rollback can't restore this deployment: Failed to publish 2 event(s) to any relay"
+      );
+      expect(mockNostr.publishDeploymentMetadata).toHaveBeenCalled();
+    });
+
+    it('should plan the manifest event in a dry run', async () => {
+      mockNostr.getSiteState.mockResolvedValue(siteState({ '/old.html': 'b'.repeat(64) }));
+
+      const plan = await deployment.planDeployment(buildDirectory);
+
+      const manifest = plan.events.find((event) => event.kind === DEPLOYMENT_MANIFEST_KIND);
+      expect(manifest?.tags.map((tag) => tag[1])).toEqual([
+        '/about/index.html',
+        '/app.js',
+        '/index.html',
+      ]);
+    });
+  });
+
+  describe('deployment history', () => {
+    it('should pass relay errors through instead of reporting no deployments', async () => {
+      mockNostr.getDeploymentHistory.mockRejectedValue(
+        new Error('Failed to fetch events: no relay could be reached')
+      );
+
+      await expect(deployment.listUserDeployments()).rejects.toThrow('no relay could be reached');
+    });
+  });
+
+  describe('rollback', () => {
+    const hash = (character: string) => character.repeat(64);
+    const target: DeploymentHistoryEntry = {
+      files: [
+        { path: '/index.html', hash: hash('1') },
+        { path: '/about.html', hash: hash('2') },
+        { path: '/style.css', hash: hash('3') },
+      ],
+      createdAt: new Date(1700000000 * 1000),
+      eventId: 'target',
+    };
+
+    beforeEach(() => {
+      mockNostr.getUserServersEvent.mockResolvedValue({
+        tags: [['server', 'https://blossom.example/']],
+      });
+      mockBlossom.hasBlob.mockResolvedValue(true);
+      mockNostr.publishStaticFileEvents.mockResolvedValue([]);
+      mockNostr.publishStaticFileDeletions.mockResolvedValue([]);
+    });
+
+    it('should restore changed paths and only delete paths the manifest does not list', async () => {
+      // /about.html was edited after the target deployment, /new.html was added
+      mockNostr.getSiteState.mockResolvedValue(
+        siteState({
+          '/index.html': hash('1'),
+          '/about.html': hash('4'),
+          '/new.html': hash('5'),
+        })
+      );
+
+      const result = await deployment.rollbackToDeployment(target);
+
+      expect(result.restoredFiles).toEqual([
+        { path: '/about.html', sha256: hash('2') },
+        { path: '/style.css', sha256: hash('3') },
+      ]);
+      expect(result.unchangedPaths).toEqual(['/index.html']);
+      expect(result.deletedPaths).toEqual(['/new.html']);
+      expect(mockNostr.publishStaticFileEvents).toHaveBeenCalledWith(
+        result.restoredFiles,
+        undefined
+      );
+      expect(mockNostr.publishStaticFileDeletions).toHaveBeenCalledWith(['/new.html'], undefined);
+      expect(mockNostr.publishDeploymentManifest).toHaveBeenCalledWith(
+        [
+          { path: '/index.html', sha256: hash('1') },
+          { path: '/about.html', sha256: hash('2') },
+          { path: '/style.css', sha256: hash('3') },
+        ],
+        undefined
+      );
+    });
+
+    it('should not delete anything when every live path is in the manifest', async () => {
+      mockNostr.getSiteState.mockResolvedValue(siteState({ '/index.html': hash('4') }));
+
+      const result = await deployment.rollbackToDeployment(target, 'docs');
+
+      expect(result.deletedPaths).toEqual([]);
+      expect(mockNostr.publishStaticFileDeletions).not.toHaveBeenCalled();
+      expect(mockNostr.getSiteState).toHaveBeenCalledWith(undefined, 'docs');
+    });
+
+    it('should refuse to roll back when a blob is gone from every server', async () => {
+      mockBlossom.hasBlob.mockImplementation(async (sha: string) => sha !== hash('3'));
+      mockNostr.getSiteState.mockResolvedValue(new Map());
+
+      await expect(deployment.rollbackToDeployment(target)).rejects.toThrow('/style.css');
+      expect(mockNostr.publishStaticFileEvents).not.toHaveBeenCalled();
+      expect(mockNostr.publishStaticFileDeletions).not.toHaveBeenCalled();
+    });
+
+    it('should fail the rollback when the manifest cannot be published', async () => {
+      mockNostr.getSiteState.mockResolvedValue(new Map());
+      mockNostr.publishDeploymentManifest.mockRejectedValue(new Error('timeout'));
+
+      await expect(deployment.rollbackToDeployment(target)).rejects.toThrow(
+        "rollback can't restore this deployment: timeout"
+      );
+    });
+  });
+
+  describe('mirror', () => {
+    const hash = (character: string) => character.repeat(64);
+    // Which server stores which blob
+    let stored: { [server: string]: string[] };
+
+    beforeEach(() => {
+      mockNostr.getSiteState.mockResolvedValue(
+        siteState({
+          '/index.html': hash('1'),
+          'docs:/index.html': hash('2'),
+          '/copy.html': hash('1'),
+        })
+      );
+      mockNostr.getUserServersEvent.mockResolvedValue({
+        tags: [['server', 'https://published.example/']],
+      });
+      mockNostr.publishUserServersEvent.mockResolvedValue({ eventId: 'servers', relayResults: [] });
+      mockBlossom.hasBlob.mockImplementation(async (sha: string, server: string) =>
+        (stored[server] || []).includes(sha)
+      );
+      mockBlossom.mirrorBlob.mockResolvedValue('mirror');
+    });
+
+    it('should copy the blobs of every site to targets that miss them', async () => {
+      stored = {
+        'https://published.example': [hash('1'), hash('2')],
+        'https://partial.example': [hash('1')],
+      };
+
+      const result = await deployment.mirrorSite([
+        'https://partial.example/',
+        'https://empty.example',
+      ]);
+
+      expect(mockNostr.getSiteState).toHaveBeenCalledWith(undefined, ALL_SITES);
+      expect(result.blobCount).toBe(2);
+      expect(result.servers).toEqual([
+        {
+          server: 'https://partial.example',
+          alreadyStored: 1,
+          mirrored: [{ sha256: hash('2'), method: 'mirror', source: 'https://published.example' }],
+          failed: [],
+        },
+        {
+          server: 'https://empty.example',
+          alreadyStored: 0,
+          mirrored: [
+            { sha256: hash('1'), method: 'mirror', source: 'https://published.example' },
+            { sha256: hash('2'), method: 'mirror', source: 'https://published.example' },
+          ],
+          failed: [],
+        },
+      ]);
+      expect(mockBlossom.mirrorBlob).toHaveBeenCalledWith(
+        hash('2'),
+        `https://published.example/${hash('2')}`,
+        'https://partial.example'
+      );
+      expect(result.addedServers).toEqual(['https://partial.example', 'https://empty.example']);
+      expect(mockNostr.publishUserServersEvent).toHaveBeenCalledWith([
+        'https://published.example',
+        'https://partial.example',
+        'https://empty.example',
+      ]);
+    });
+
+    it('should report the method used, including re-uploads', async () => {
+      stored = { 'https://published.example': [hash('1'), hash('2')] };
+      mockBlossom.mirrorBlob.mockResolvedValue('reupload');
+
+      const result = await deployment.mirrorSite(['https://target.example']);
+
+      expect(result.servers[0].mirrored.map((mirrored) => mirrored.method)).toEqual([
+        'reupload',
+        'reupload',
+      ]);
+    });
+
+    it('should not advertise targets that are missing a blob', async () => {
+      stored = { 'https://published.example': [hash('1')] };
+      mockBlossom.mirrorBlob.mockImplementation(
+        async (sha: string, source: string, server: string) => {
+          if (server === 'https://refusing.example') {
+            throw new Error('Mirror failed: 403 Forbidden');
+          }
+          return 'mirror';
+        }
+      );
+
+      const result = await deployment.mirrorSite([
+        'https://target.example',
+        'https://refusing.example',
+      ]);
+
+      expect(result.unavailableBlobs).toEqual([hash('2')]);
+      expect(result.servers[0].failed).toEqual([
+        { sha256: hash('2'), error: 'Not available on any known server' },
+      ]);
+      expect(result.servers[1].failed.map((failure) => failure.error)).toEqual([
+        'Mirror failed: 403 Forbidden',
+        'Not available on any known server',
+      ]);
+      expect(result.addedServers).toEqual([]);
+      expect(mockNostr.publishUserServersEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verify', () => {
+    beforeEach(() => {
+      mockNostr.getSiteState.mockResolvedValue(
+        siteState({
+          '/index.html': sha256(site['/index.html']),
+          '/app.js': sha256(site['/app.js']),
+        })
+      );
+      mockNostr.getUserServersEvent.mockResolvedValue({
+        tags: [
+          ['server', 'https://one.example'],
+          ['server', 'https://two.example'],
+        ],
+      });
+      mockBlossom.hashRemoteBlob.mockImplementation(async (sha: string) => sha);
+    });
+
+    it('should pass when every server returns the published blobs', async () => {
+      const result = await deployment.verifySite();
+
+      expect(result.hasDiscrepancies).toBe(false);
+      expect(result.servers).toEqual(['https://one.example', 'https://two.example']);
+      expect(result.files.map((file) => file.servers.map((check) => check.status))).toEqual([
+        ['ok', 'ok'],
+        ['ok', 'ok'],
+      ]);
+      expect(mockBlossom.hashRemoteBlob).toHaveBeenCalledTimes(4);
+    });
+
+    it('should report blobs whose content hashes to something else', async () => {
+      mockBlossom.hashRemoteBlob.mockImplementation(async (sha: string, server: string) =>
+        server === 'https://two.example' && sha === sha256(site['/app.js']) ? 'b'.repeat(64) : sha
+      );
+
+      const result = await deployment.verifySite();
+
+      expect(result.hasDiscrepancies).toBe(true);
+      expect(result.files.find((file) => file.path === '/app.js')?.servers).toEqual([
+        { server: 'https://one.example', status: 'ok' },
+        { server: 'https://two.example', status: 'mismatch', actualHash: 'b'.repeat(64) },
+      ]);
+    });
+
+    it('should report missing blobs and servers that fail', async () => {
+      mockBlossom.hashRemoteBlob.mockImplementation(async (sha: string, server: string) => {
+        if (server === 'https://two.example') {
+          throw new Error('connect ECONNREFUSED');
+        }
+        return sha === sha256(site['/index.html']) ? null : sha;
+      });
+
+      const result = await deployment.verifySite();
+
+      expect(result.hasDiscrepancies).toBe(true);
+      expect(result.files.find((file) => file.path === '/index.html')?.servers).toEqual([
+        { server: 'https://one.example', status: 'missing' },
+        { server: 'https://two.example', status: 'error', error: 'connect ECONNREFUSED' },
+      ]);
+    });
+
+    it('should download blobs shared by several paths once per server', async () => {
+      mockNostr.getSiteState.mockResolvedValue(
+        siteState({ '/index.html': 'c'.repeat(64), '/copy.html': 'c'.repeat(64) })
+      );
+
+      await deployment.verifySite();
+
+      expect(mockBlossom.hashRemoteBlob).toHaveBeenCalledTimes(2);
+    });
+
+    it('should compare the published site with a local build', async () => {
+      await fs.outputFile(path.join(buildDirectory, 'app.js'), 'console.log(2)');
+
+      const result = await deployment.verifySite({ localDirectory: buildDirectory });
+
+      expect(result.hasDiscrepancies).toBe(true);
+      expect(Object.fromEntries(result.files.map((file) => [file.path, file.local]))).toEqual({
+        '/app.js': 'mismatch',
+        '/index.html': 'ok',
+      });
+      expect(result.unpublishedLocalPaths).toEqual(['/about/index.html']);
+    });
+
+    it('should report published paths the local build lacks', async () => {
+      await fs.remove(path.join(buildDirectory, 'app.js'));
+      await fs.remove(path.join(buildDirectory, 'about'));
+
+      const result = await deployment.verifySite({ localDirectory: buildDirectory });
+
+      expect(result.files.find((file) => file.path === '/app.js')?.local).toBe('missing');
+      expect(result.files.find((file) => file.path === '/index.html')?.local).toBe('ok');
+      expect(result.unpublishedLocalPaths).toEqual([]);
+      expect(result.hasDiscrepancies).toBe(true);
+    });
+
+    it('should fail without a published site or server list', async () => {
+      mockNostr.getUserServersEvent.mockResolvedValue(null);
+      await expect(deployment.verifySite()).rejects.toThrow('No Blossom server list');
+
+      mockNostr.getSiteState.mockResolvedValue(new Map());
+      await expect(deployment.verifySite()).rejects.toThrow('No published files found');
+    });
+  });
+
+  describe('blob garbage collection', () => {
+    const hash = (character: string) => character.repeat(64);
+    const blob = (sha: string) => ({ url: `https://blossom.example/${sha}`, sha256: sha, size: 1 });
+    const manifest = (
+      createdAt: number,
+      hashes: string[],
+      site?: string
+    ): DeploymentHistoryEntry => ({
+      site,
+      files: hashes.map((sha, index) => ({ path: `/${index}.html`, hash: sha })),
+      createdAt: new Date(createdAt * 1000),
+      eventId: `manifest-${createdAt}`,
+    });
+
+    beforeEach(() => {
+      mockNostr.getSiteState.mockResolvedValue(
+        siteState({ '/index.html': hash('1'), 'docs:/index.html': hash('2') })
+      );
+      mockBlossom.listBlobs.mockResolvedValue(
+        ['1', '2', '3', '4', '5', '6'].map((character) => blob(hash(character)))
+      );
+    });
+
+    it('should collect deployed blobs the published sites no longer reference', async () => {
+      mockNostr.getDeploymentHistory.mockResolvedValue([
+        manifest(2, [hash('1'), hash('3')]),
+        manifest(1, [hash('1'), hash('4'), hash('5'), hash('6')]),
+      ]);
+
+      const plan = await deployment.planBlobGarbageCollection();
+
+      expect(mockNostr.getSiteState).toHaveBeenCalledWith(undefined, ALL_SITES);
+      expect(mockNostr.getDeploymentHistory).toHaveBeenCalledWith(undefined, ALL_SITES);
+      expect(plan.referencedCount).toBe(2);
+      expect(plan.unknownCount).toBe(0);
+      expect(plan.orphans.map((orphan) => orphan.blob.sha256)).toEqual([
+        hash('3'),
+        hash('4'),
+        hash('5'),
+        hash('6'),
+      ]);
+    });
+
+    it('should keep blobs no deployment manifest lists', async () => {
+      mockNostr.getDeploymentHistory.mockResolvedValue([manifest(1, [hash('1'), hash('3')])]);
+
+      const plan = await deployment.planBlobGarbageCollection();
+
+      expect(plan.orphans.map((orphan) => orphan.blob.sha256)).toEqual([hash('3')]);
+      expect(plan.unknownCount).toBe(3);
+    });
+
+    it('should delete nothing without deployment manifests', async () => {
+      mockNostr.getDeploymentHistory.mockResolvedValue([]);
+
+      const plan = await deployment.planBlobGarbageCollection(1);
+
+      expect(plan.orphans).toEqual([]);
+      expect(plan.unknownCount).toBe(4);
+    });
+
+    it('should protect the blobs of the last N manifests of each site', async () => {
+      // Newest first, like getDeploymentHistory returns them
+      mockNostr.getDeploymentHistory.mockResolvedValue([
+        manifest(5, [hash('1')]),
+        manifest(4, [hash('2'), hash('3')], 'docs'),
+        manifest(3, [hash('1'), hash('4')]),
+        manifest(2, [hash('5')], 'docs'),
+        manifest(1, [hash('6')]),
+      ]);
+
+      const plan = await deployment.planBlobGarbageCollection(2);
+
+      expect(mockNostr.getDeploymentHistory).toHaveBeenCalledWith(undefined, ALL_SITES);
+      expect(plan.protectedCount).toBe(3);
+      expect(plan.orphans.map((orphan) => orphan.blob.sha256)).toEqual([hash('6')]);
+    });
+
+    it('should refuse to collect anything when no published file is found', async () => {
+      mockNostr.getSiteState.mockResolvedValue(new Map());
+
+      await expect(deployment.planBlobGarbageCollection()).rejects.toThrow(
+        'refusing to collect blobs'
+      );
+      expect(mockBlossom.listBlobs).not.toHaveBeenCalled();
+    });
+
+    it('should report every deletion and keep going after failures', async () => {
+      mockBlossom.deleteFile.mockImplementation(async (sha: string) => {
+        if (sha === hash('4')) {
+          throw new Error('Failed to delete file: 403 Forbidden');
+        }
+      });
+
+      const results = await deployment.deleteBlobs(
+        [hash('3'), hash('4'), hash('5')].map((sha) => ({
+          server: 'https://blossom.example',
+          blob: blob(sha),
+        }))
+      );
+
+      expect(results).toEqual([
+        { server: 'https://blossom.example', sha256: hash('3'), success: true },
+        {
+          server: 'https://blossom.example',
+          sha256: hash('4'),
+          success: false,
+          error: 'Failed to delete file: 403 Forbidden',
+        },
+        { server: 'https://blossom.example', sha256: hash('5'), success: true },
+      ]);
+    });
+
+    it('should delete blobs concurrently up to the configured limit', async () => {
+      let active = 0;
+      let maxActive = 0;
+      mockBlossom.deleteFile.mockImplementation(async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+      });
+
+      const orphans = Array.from({ length: 20 }, (_, index) => ({
+        server: 'https://blossom.example',
+        blob: blob(index.toString(16).padStart(64, '0')),
+      }));
+      const results = await deployment.deleteBlobs(orphans);
+
+      expect(results.every((result) => result.success)).toBe(true);
+      expect(mockBlossom.deleteFile).toHaveBeenCalledTimes(20);
+      expect(maxActive).toBe(8);
+    });
+  });
+});
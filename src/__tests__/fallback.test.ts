@@ -0,0 +1,49 @@
+import { getNotFoundMode, resolveSitePath } from '../utils/fallback';
+
+describe('fallback', () => {
+  const paths = new Set(['/index.html', '/about.html', '/docs/index.html', '/404.html']);
+
+  it('should resolve exact paths and directory index files', () => {
+    expect(resolveSitePath('/about.html', paths)).toEqual({ path: '/about.html', fallback: false });
+    expect(resolveSitePath('/', paths)).toEqual({ path: '/index.html', fallback: false });
+    expect(resolveSitePath('/docs', paths)).toEqual({
+      path: '/docs/index.html',
+      fallback: false,
+    });
+    expect(resolveSitePath('/docs/?tab=1', paths)).toEqual({
+      path: '/docs/index.html',
+      fallback: false,
+    });
+  });
+
+  it('should fall back to /404.html for unknown paths', () => {
+    expect(resolveSitePath('/dashboard/settings', paths)).toEqual({
+      path: '/404.html',
+      fallback: true,
+    });
+  });
+
+  it('should not resolve unknown paths without a 404 page', () => {
+    expect(resolveSitePath('/missing', new Set(['/index.html']))).toBeNull();
+  });
+
+  it('should detect SPA, custom and missing 404 pages', () => {
+    expect(
+      getNotFoundMode(
+        new Map([
+          ['/index.html', 'aaa'],
+          ['/404.html', 'aaa'],
+        ])
+      )
+    ).toBe('spa');
+    expect(
+      getNotFoundMode(
+        new Map([
+          ['/index.html', 'aaa'],
+          ['/404.html', 'bbb'],
+        ])
+      )
+    ).toBe('custom');
+    expect(getNotFoundMode(new Map([['/index.html', 'aaa']]))).toBe('none');
+  });
+});
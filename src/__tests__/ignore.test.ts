@@ -0,0 +1,69 @@
+import { DEFAULT_IGNORE_PATTERNS, IgnoreMatcher } from '../utils/ignore';
+
+describe('IgnoreMatcher', () => {
+  it('should ignore dotfiles and OS metadata by default', () => {
+    const matcher = new IgnoreMatcher(DEFAULT_IGNORE_PATTERNS);
+
+    expect(matcher.ignores('.DS_Store')).toBe(true);
+    expect(matcher.ignores('assets/.DS_Store')).toBe(true);
+    expect(matcher.ignores('.env')).toBe(true);
+    expect(matcher.ignores('.git/config')).toBe(true);
+    expect(matcher.ignores('Thumbs.db')).toBe(true);
+    expect(matcher.ignores('index.html')).toBe(false);
+  });
+
+  it('should keep .well-known files by default', () => {
+    const matcher = new IgnoreMatcher(DEFAULT_IGNORE_PATTERNS);
+
+    expect(matcher.ignores('.well-known', true)).toBe(false);
+    expect(matcher.ignores('.well-known/nostr.json')).toBe(false);
+  });
+
+  it('should match unanchored patterns at any depth', () => {
+    const matcher = new IgnoreMatcher(['*.map']);
+
+    expect(matcher.ignores('app.js.map')).toBe(true);
+    expect(matcher.ignores('static/js/main.js.map')).toBe(true);
+    expect(matcher.ignores('static/js/main.js')).toBe(false);
+  });
+
+  it('should anchor patterns containing a slash to the build directory', () => {
+    const matcher = new IgnoreMatcher(['/drafts', 'docs/*.md']);
+
+    expect(matcher.ignores('drafts/post.html')).toBe(true);
+    expect(matcher.ignores('blog/drafts/post.html')).toBe(false);
+    expect(matcher.ignores('docs/readme.md')).toBe(true);
+    expect(matcher.ignores('docs/api/readme.md')).toBe(false);
+  });
+
+  it('should support globstar patterns', () => {
+    const matcher = new IgnoreMatcher(['assets/**/*.psd']);
+
+    expect(matcher.ignores('assets/logo.psd')).toBe(true);
+    expect(matcher.ignores('assets/images/raw/logo.psd')).toBe(true);
+    expect(matcher.ignores('logo.psd')).toBe(false);
+  });
+
+  it('should only match directories for patterns ending with a slash', () => {
+    const matcher = new IgnoreMatcher(['tmp/']);
+
+    expect(matcher.ignores('tmp')).toBe(false);
+    expect(matcher.ignores('tmp', true)).toBe(true);
+    expect(matcher.ignores('tmp/cache.json')).toBe(true);
+  });
+
+  it('should let the last matching rule win', () => {
+    const matcher = new IgnoreMatcher(['*.txt', '!robots.txt']);
+
+    expect(matcher.ignores('notes.txt')).toBe(true);
+    expect(matcher.ignores('robots.txt')).toBe(false);
+  });
+
+  it('should always keep files matching an include pattern', () => {
+    const matcher = new IgnoreMatcher(DEFAULT_IGNORE_PATTERNS, ['.htaccess', '.config/site.json']);
+
+    expect(matcher.ignores('.htaccess')).toBe(false);
+    expect(matcher.ignores('.config/site.json')).toBe(false);
+    expect(matcher.ignores('.config/other.json')).toBe(true);
+  });
+});
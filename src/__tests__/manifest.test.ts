@@ -0,0 +1,82 @@
+import { parseManifest, toManifestParts } from '../utils/manifest';
+import { ALL_SITES } from '../utils/site';
+
+describe('deployment manifests', () => {
+  const hashA = 'a'.repeat(64);
+  const hashB = 'b'.repeat(64);
+
+  it('should list every path with its hash, sorted by path', () => {
+    expect(
+      toManifestParts([
+        { path: '/style.css', sha256: hashB },
+        { path: '/index.html', sha256: hashA },
+      ])
+    ).toEqual([
+      [
+        ['path', '/index.html', hashA],
+        ['path', '/style.css', hashB],
+      ],
+    ]);
+  });
+
+  it('should tag the manifests of named sites', () => {
+    const [tags] = toManifestParts([{ path: '/index.html', sha256: hashA }], 'docs');
+
+    expect(tags[0]).toEqual(['site', 'docs']);
+    expect(parseManifest({ tags }, 'docs')).toEqual({
+      site: 'docs',
+      files: [{ path: '/index.html', hash: hashA }],
+    });
+    expect(parseManifest({ tags })).toBeNull();
+    expect(parseManifest({ tags }, ALL_SITES)?.site).toBe('docs');
+  });
+
+  it('should only read the default site without a site name', () => {
+    const [tags] = toManifestParts([{ path: '/index.html', sha256: hashA }]);
+
+    expect(parseManifest({ tags })?.files).toEqual([{ path: '/index.html', hash: hashA }]);
+    expect(parseManifest({ tags }, 'docs')).toBeNull();
+  });
+
+  it('should split large manifests into parts that stay far below relay size limits', () => {
+    const files = Array.from({ length: 2000 }, (_, index) => ({
+      path: `/assets/${'nested/'.repeat(4)}page-${String(index).padStart(4, '0')}.html`,
+      sha256: hashA,
+    }));
+
+    const parts = toManifestParts(files, 'docs');
+
+    expect(parts.length).toBeGreaterThan(1);
+    const [, id, , total] = parts[0][1];
+    parts.forEach((tags, index) => {
+      expect(Buffer.byteLength(JSON.stringify(tags))).toBeLessThan(40 * 1024);
+      expect(tags[0]).toEqual(['site', 'docs']);
+      expect(tags[1]).toEqual(['part', id, String(index + 1), total]);
+      expect(parseManifest({ tags }, 'docs')?.part).toEqual({
+        id,
+        index: index + 1,
+        total: parts.length,
+      });
+    });
+    expect(parts.flatMap((tags) => parseManifest({ tags }, 'docs')!.files)).toHaveLength(2000);
+  });
+
+  it('should ignore malformed part tags', () => {
+    expect(parseManifest({ tags: [['part', 'abc', '3', '2']] })?.part).toBeUndefined();
+    expect(parseManifest({ tags: [['part', 'abc', 'one', '2']] })?.part).toBeUndefined();
+  });
+
+  it('should skip malformed path tags', () => {
+    const manifest = parseManifest({
+      tags: [
+        ['path', '/index.html', hashA],
+        ['path', 'relative.html', hashA],
+        ['path', '/short.html', 'abc'],
+        ['path', '/missing.html'],
+        ['x', hashB],
+      ],
+    });
+
+    expect(manifest?.files).toEqual([{ path: '/index.html', hash: hashA }]);
+  });
+});
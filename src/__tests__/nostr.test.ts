@@ -0,0 +1,152 @@
+import { SimplePool } from 'nostr-tools';
+import { DEPLOYMENT_MANIFEST_KIND, toManifestParts } from '../utils/manifest';
+import { NostrManager } from '../utils/nostr';
+
+const mockConfig = {
+  nostr: { publicKey: 'f'.repeat(64), relays: ['wss://relay.example'] },
+};
+
+jest.mock('../utils/config', () => ({
+  ConfigManager: { getInstance: jest.fn(async () => ({ getConfig: () => mockConfig })) },
+}));
+
+describe('NostrManager', () => {
+  let nostr: NostrManager;
+  let publishEvents: jest.SpyInstance;
+
+  beforeEach(() => {
+    nostr = new NostrManager();
+    publishEvents = jest.spyOn(nostr, 'publishEvents').mockResolvedValue([]);
+  });
+
+  afterEach(async () => {
+    await nostr.close();
+    jest.restoreAllMocks();
+  });
+
+  it('should reference deleted paths with a tags in batches of 100', async () => {
+    const paths = Array.from({ length: 250 }, (_, index) => `/page-${index}.html`);
+
+    await nostr.publishStaticFileDeletions(paths, 'docs');
+
+    const templates = publishEvents.mock.calls[0][0];
+    expect(templates.map((template: { tags: string[][] }) => template.tags.length)).toEqual([
+      101, 101, 51,
+    ]);
+    templates.forEach((template: { kind: number; tags: string[][] }) => {
+      expect(template.kind).toBe(5);
+      expect(template.tags[0]).toEqual(['k', '34128']);
+    });
+    expect(templates[0].tags[1]).toEqual(['a', `34128:${'f'.repeat(64)}:docs:/page-0.html`]);
+    expect(templates[2].tags[50]).toEqual(['a', `34128:${'f'.repeat(64)}:docs:/page-249.html`]);
+  });
+
+  it('should read the deployment history from manifests, newest first', async () => {
+    const manifest = (id: string, createdAt: number, hash: string, site?: string) => ({
+      id,
+      kind: DEPLOYMENT_MANIFEST_KIND,
+      created_at: createdAt,
+      tags: toManifestParts([{ path: '/index.html', sha256: hash.repeat(64) }], site)[0],
+    });
+    const fetchEvents = jest
+      .spyOn(nostr, 'fetchEvents')
+      .mockResolvedValue([
+        manifest('first', 1700000000, 'a'),
+        manifest('docs', 1700000100, 'c', 'docs'),
+        manifest('second', 1700000200, 'b'),
+        manifest('second', 1700000200, 'b'),
+      ] as never);
+
+    const history = await nostr.getDeploymentHistory();
+
+    expect(fetchEvents.mock.calls[0][0]).toEqual({
+      authors: ['f'.repeat(64)],
+      kinds: [DEPLOYMENT_MANIFEST_KIND],
+    });
+    // Deployments made within the same hour stay separate
+    expect(history.map((entry) => entry.eventId)).toEqual(['second', 'first']);
+    expect(history[1]).toEqual({
+      site: undefined,
+      files: [{ path: '/index.html', hash: 'a'.repeat(64) }],
+      createdAt: new Date(1700000000 * 1000),
+      eventId: 'first',
+    });
+    expect((await nostr.getDeploymentHistory(undefined, 'docs')).map((e) => e.eventId)).toEqual([
+      'docs',
+    ]);
+  });
+
+  it('should fail to fetch events when no relay can be reached', async () => {
+    jest
+      .spyOn(SimplePool.prototype, 'ensureRelay')
+      .mockRejectedValue(new Error('connection refused'));
+    const querySync = jest.spyOn(SimplePool.prototype, 'querySync');
+
+    await expect(nostr.fetchEvents({ kinds: [1] }, ['wss://down.example'])).rejects.toThrow(
+      'no relay could be reached (Error: connection refused)'
+    );
+    expect(querySync).not.toHaveBeenCalled();
+  });
+
+  it('should only query the relays that can be reached', async () => {
+    jest.spyOn(SimplePool.prototype, 'ensureRelay').mockImplementation(async (relay: string) => {
+      if (relay === 'wss://down.example') throw new Error('connection refused');
+      return {} as never;
+    });
+    const querySync = jest.spyOn(SimplePool.prototype, 'querySync').mockResolvedValue([]);
+
+    await nostr.fetchEvents({ kinds: [1] }, ['wss://down.example', 'wss://up.example']);
+
+    expect(querySync).toHaveBeenCalledWith(['wss://up.example'], { kinds: [1] });
+  });
+
+  it('should join manifests split over several events and skip incomplete ones', async () => {
+    const part = (id: string, manifest: string, index: number, total: number, hash: string) => ({
+      id,
+      kind: DEPLOYMENT_MANIFEST_KIND,
+      created_at: 1700000000 + index,
+      tags: [
+        ['part', manifest, String(index), String(total)],
+        ['path', `/page-${index}.html`, hash.repeat(64)],
+      ],
+    });
+    jest
+      .spyOn(nostr, 'fetchEvents')
+      .mockResolvedValue([
+        part('split-2', 'split', 2, 2, 'b'),
+        part('split-1', 'split', 1, 2, 'a'),
+        part('split-1', 'split', 1, 2, 'a'),
+        part('partial-1', 'partial', 1, 3, 'c'),
+        part('partial-3', 'partial', 3, 3, 'c'),
+      ] as never);
+
+    const history = await nostr.getDeploymentHistory();
+
+    expect(history).toEqual([
+      {
+        site: undefined,
+        files: [
+          { path: '/page-1.html', hash: 'a'.repeat(64) },
+          { path: '/page-2.html', hash: 'b'.repeat(64) },
+        ],
+        createdAt: new Date(1700000001 * 1000),
+        eventId: 'split-1',
+      },
+    ]);
+  });
+
+  it('should publish a single deletion event for a few paths', async () => {
+    await nostr.publishStaticFileDeletions(['/old.html']);
+
+    expect(publishEvents.mock.calls[0][0]).toEqual([
+      {
+        kind: 5,
+        content: 'Removed from static site',
+        tags: [
+          ['k', '34128'],
+          ['a', `34128:${'f'.repeat(64)}:/old.html`],
+        ],
+      },
+    ]);
+  });
+});
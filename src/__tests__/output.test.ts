@@ -0,0 +1,118 @@
+import * as output from '../utils/output';
+import { redactConfig } from '../utils/output';
+
+describe('redactConfig', () => {
+  it('should hide private keys and bunker secrets', () => {
+    const config = {
+      nostr: {
+        publicKey: 'a'.repeat(64),
+        privateKey: 'b'.repeat(64),
+        bunker: `bunker://${'c'.repeat(64)}?relay=wss://relay.example&secret=hunter2`,
+        relays: ['wss://relay.example'],
+      },
+      deployment: { baseDomain: 'nostrdeploy.com' },
+    };
+
+    const redacted = redactConfig(config);
+
+    expect(redacted.nostr?.privateKey).toBe('[redacted]');
+    expect(redacted.nostr?.bunker).toBe(
+      `bunker://${'c'.repeat(64)}?relay=wss://relay.example&secret=[redacted]`
+    );
+    expect(redacted.nostr?.publicKey).toBe(config.nostr.publicKey);
+    expect(redacted.deployment).toEqual(config.deployment);
+    expect(config.nostr.privateKey).toBe('b'.repeat(64));
+  });
+
+  it('should leave configurations without keys alone', () => {
+    const config = { nostr: { publicKey: 'a'.repeat(64), relays: [] } };
+
+    expect(redactConfig(config)).toEqual(config);
+  });
+});
+
+describe('JSON output', () => {
+  // The output mode is module state, every test gets a fresh copy
+  let json: typeof output;
+  let stdout: jest.SpyInstance;
+  let consoleLog: jest.SpyInstance;
+  let consoleError: jest.SpyInstance;
+
+  const documents = () =>
+    stdout.mock.calls.map(([chunk]) => JSON.parse(String(chunk)) as output.JsonDocument);
+
+  beforeEach(() => {
+    jest.isolateModules(() => {
+      json = require('../utils/output');
+    });
+    stdout = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    consoleLog = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should log to stdout without --json and to stderr with it', () => {
+    json.log('before');
+    json.enableJsonOutput('deploy');
+    json.log('after');
+
+    expect(consoleLog).toHaveBeenCalledWith('before');
+    expect(consoleError).toHaveBeenCalledWith('after');
+    expect(consoleLog).not.toHaveBeenCalledWith('after');
+    expect(json.finishJsonOutput(0)).toBe(1);
+  });
+
+  it('should write the result document once', () => {
+    json.enableJsonOutput('status');
+    json.emitJsonResult({ url: 'https://example.com' });
+
+    expect(json.finishJsonOutput(0)).toBe(0);
+    expect(documents()).toEqual([
+      {
+        schemaVersion: output.JSON_SCHEMA_VERSION,
+        command: 'status',
+        success: true,
+        result: { url: 'https://example.com' },
+      },
+    ]);
+  });
+
+  it('should report success for commands without a result when they end', () => {
+    json.enableJsonOutput('relays add');
+
+    expect(json.finishJsonOutput(0)).toBe(0);
+    expect(documents()).toEqual([
+      { schemaVersion: output.JSON_SCHEMA_VERSION, command: 'relays add', success: true },
+    ]);
+  });
+
+  it('should report failures and commands that ended without their result', () => {
+    json.enableJsonOutput('info');
+
+    expect(json.finishJsonOutput(0)).toBe(1);
+    expect(documents()[0]).toMatchObject({ success: false, error: expect.any(String) });
+  });
+
+  it('should exit non-zero after an error document', () => {
+    json.enableJsonOutput('status');
+    json.emitJsonError(new Error('no relay could be reached'));
+
+    expect(json.finishJsonOutput(0)).toBe(1);
+    expect(documents()).toEqual([
+      {
+        schemaVersion: output.JSON_SCHEMA_VERSION,
+        command: 'status',
+        success: false,
+        error: 'no relay could be reached',
+      },
+    ]);
+  });
+
+  it('should write nothing without --json', () => {
+    expect(json.finishJsonOutput(2)).toBe(2);
+    expect(stdout).not.toHaveBeenCalled();
+  });
+});
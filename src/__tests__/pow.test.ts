@@ -0,0 +1,36 @@
+import { nip13 } from 'nostr-tools';
+import { parsePowDifficulty, PowMiner } from '../utils/pow';
+
+describe('proof of work', () => {
+  it('should read the required difficulty from pow: rejections', () => {
+    expect(parsePowDifficulty('pow: difficulty 12 is less than 20')).toBe(20);
+    expect(parsePowDifficulty('pow: 28 bits required')).toBe(28);
+    expect(parsePowDifficulty('pow: not enough work')).toBeNull();
+    expect(parsePowDifficulty('blocked: 20')).toBeNull();
+  });
+
+  it('should mine events on worker threads', async () => {
+    const miner = new PowMiner(2);
+    const event = {
+      kind: 34128,
+      created_at: 0,
+      content: '',
+      tags: [
+        ['d', '/index.html'],
+        ['nonce', '1', '4'],
+      ],
+      pubkey: 'a'.repeat(64),
+    };
+
+    try {
+      const [first, second] = await Promise.all([miner.mine(event, 8), miner.mine(event, 8)]);
+
+      expect(nip13.getPow(first.event.id)).toBeGreaterThanOrEqual(8);
+      expect(nip13.getPow(second.event.id)).toBeGreaterThanOrEqual(8);
+      expect(first.event.tags.filter(([name]) => name === 'nonce')).toHaveLength(1);
+      expect(first.miningTimeMs).toBeGreaterThanOrEqual(0);
+    } finally {
+      await miner.close();
+    }
+  });
+});
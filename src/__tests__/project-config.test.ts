@@ -0,0 +1,96 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { isSecretKey } from '../utils/config-schema';
+import {
+  findProjectConfigFile,
+  loadProjectConfig,
+  validateProjectConfig,
+} from '../utils/project-config';
+
+describe('validateProjectConfig', () => {
+  it('should accept the settings that can be committed', () => {
+    const config = {
+      $schema: './node_modules/nostr-deploy-cli/schema.json',
+      nostr: { relays: ['wss://relay.example'], useRelayList: false },
+      blossom: { servers: ['https://blossom.example'], serverLimits: { 'https://a': 2 } },
+      deployment: { baseDomain: 'example.com' },
+      deploy: { dir: 'dist', spa: true, exclude: ['*.map'] },
+    };
+
+    const { $schema, ...expected } = config;
+    expect($schema).toBeDefined();
+    expect(validateProjectConfig(config, 'nostr-deploy.config.json')).toEqual(expected);
+  });
+
+  it('should report every problem at once', () => {
+    expect(() =>
+      validateProjectConfig(
+        {
+          nostr: { relays: 'wss://relay.example', privateKey: 'abc' },
+          blossom: { concurrency: 0, sever: [] },
+          hosting: {},
+        },
+        'nostr-deploy.config.json'
+      )
+    ).toThrow(
+      [
+        'Invalid nostr-deploy.config.json:',
+        '  - nostr.relays must be a list of relay URLs (wss:// or ws://)',
+        '  - nostr.privateKey must not be committed, keep it in .env.nostr-deploy.local',
+        '  - blossom.concurrency must be a positive integer',
+        '  - unknown key "blossom.sever", did you mean "blossom.servers"?',
+        '  - unknown section "hosting"',
+      ].join('\n')
+    );
+  });
+
+  it('should keep the identity out of the project config', () => {
+    expect(isSecretKey('nostr.privateKey')).toBe(true);
+    expect(isSecretKey('nostr.bunker')).toBe(true);
+    expect(isSecretKey('nostr.relays')).toBe(false);
+  });
+});
+
+describe('project config files', () => {
+  let projectPath: string;
+
+  beforeEach(async () => {
+    projectPath = await fs.mkdtemp(path.join(os.tmpdir(), 'nostr-deploy-project-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectPath);
+  });
+
+  it('should prefer the JSON file when a project has more than one', async () => {
+    await fs.writeFile(path.join(projectPath, 'nostr-deploy.config.ts'), 'export default {};');
+    expect(await findProjectConfigFile(projectPath)).toBe(
+      path.join(projectPath, 'nostr-deploy.config.ts')
+    );
+
+    await fs.writeFile(path.join(projectPath, 'nostr-deploy.config.json'), '{}');
+    expect(await findProjectConfigFile(projectPath)).toBe(
+      path.join(projectPath, 'nostr-deploy.config.json')
+    );
+  });
+
+  it('should load and validate the default export of a TypeScript config file', async () => {
+    const filePath = path.join(projectPath, 'nostr-deploy.config.ts');
+    await fs.writeFile(
+      filePath,
+      "const relays: string[] = ['wss://relay.example'];\nexport default { nostr: { relays } };\n"
+    );
+
+    expect(await loadProjectConfig(filePath)).toEqual({
+      nostr: { relays: ['wss://relay.example'] },
+    });
+  });
+
+  it('should report a project config file that is not valid JSON', async () => {
+    const filePath = path.join(projectPath, 'nostr-deploy.config.json');
+    await fs.writeFile(filePath, '{ nostr: }');
+
+    await expect(loadProjectConfig(filePath)).rejects.toThrow('Invalid nostr-deploy.config.json');
+  });
+});
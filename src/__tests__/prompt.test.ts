@@ -0,0 +1,25 @@
+import { prompt, setInteractive } from '../utils/prompt';
+
+describe('prompt', () => {
+  afterEach(() => {
+    setInteractive(true);
+  });
+
+  it('should answer with the fallback in non-interactive mode', async () => {
+    setInteractive(false);
+
+    const answers = await prompt([{ type: 'confirm', name: 'delete', message: 'Delete?' }], {
+      fallback: { delete: true },
+    });
+
+    expect(answers).toEqual({ delete: true });
+  });
+
+  it('should fail with a hint when input is required in non-interactive mode', async () => {
+    setInteractive(false);
+
+    await expect(
+      prompt([{ type: 'input', name: 'relays', message: 'Relays?' }], { hint: 'pass --relays' })
+    ).rejects.toThrow('prompts are disabled (--non-interactive): pass --relays');
+  });
+});
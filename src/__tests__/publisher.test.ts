@@ -0,0 +1,275 @@
+import { EventTemplate, Event as NostrEvent, VerifiedEvent } from 'nostr-tools';
+import { RelayConnection, RelayPublisher } from '../utils/publisher';
+
+function makeEvents(count: number, tagCount = 2): NostrEvent[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: index.toString(16).padStart(64, 'f'),
+    kind: 34128,
+    pubkey: 'pubkey',
+    created_at: 0,
+    content: '',
+    tags: Array.from({ length: tagCount }, (_, tag) => ['t', String(tag)]),
+    sig: 'sig',
+  })) as NostrEvent[];
+}
+
+describe('RelayPublisher', () => {
+  const retryPolicy = { attempts: 3, baseDelayMs: 1, maxDelayMs: 5 };
+  const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+  const info = async () => ({ limitation: {} });
+
+  it('should publish every event while keeping the window bounded', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const connection: RelayConnection = {
+      publish: async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await delay(1);
+        active--;
+        return '';
+      },
+    };
+
+    const publisher = new RelayPublisher(['wss://relay.example'], {
+      retryPolicy,
+      connect: async () => connection,
+      getRelayInformation: info,
+      initialWindow: 2,
+      maxWindow: 4,
+    });
+    const outcomes = await publisher.publishAll(makeEvents(30));
+
+    expect(outcomes.get('wss://relay.example')!.every((outcome) => outcome.success)).toBe(true);
+    expect(maxActive).toBeGreaterThan(2);
+    expect(maxActive).toBeLessThanOrEqual(4);
+  });
+
+  it('should never keep more events in flight than the relay max_subscriptions', async () => {
+    const publishWith = async (limitation: { max_subscriptions?: number }) => {
+      let active = 0;
+      let maxActive = 0;
+      const publisher = new RelayPublisher(['wss://relay.example'], {
+        retryPolicy,
+        connect: async () => ({
+          publish: async () => {
+            active++;
+            maxActive = Math.max(maxActive, active);
+            await delay(1);
+            active--;
+            return '';
+          },
+        }),
+        getRelayInformation: async () => ({ limitation }),
+        initialWindow: 8,
+      });
+      await publisher.publishAll(makeEvents(30));
+      return maxActive;
+    };
+
+    expect(await publishWith({})).toBeGreaterThan(2);
+    expect(await publishWith({ max_subscriptions: 2 })).toBe(2);
+  });
+
+  it('should halve the window and retry when a relay is rate limiting', async () => {
+    let calls = 0;
+    const windows: number[] = [];
+    const connection: RelayConnection = {
+      publish: async () => {
+        calls++;
+        if (calls === 3) {
+          throw new Error('rate-limited: slow down');
+        }
+        return '';
+      },
+    };
+
+    const publisher = new RelayPublisher(['wss://relay.example'], {
+      retryPolicy,
+      connect: async () => connection,
+      getRelayInformation: info,
+      initialWindow: 8,
+      onProgress: (progress) => windows.push(progress.window),
+    });
+    const [outcomes] = Array.from((await publisher.publishAll(makeEvents(8))).values());
+
+    expect(outcomes.every((outcome) => outcome.success)).toBe(true);
+    expect(outcomes.reduce((sum, outcome) => sum + outcome.retries, 0)).toBe(1);
+    expect(Math.min(...windows)).toBeLessThan(8);
+  });
+
+  it('should not retry permanent rejections', async () => {
+    const publish = jest.fn().mockRejectedValue(new Error('blocked: not on whitelist'));
+    const publisher = new RelayPublisher(['wss://relay.example'], {
+      retryPolicy,
+      connect: async () => ({ publish }),
+    });
+
+    const [outcome] = (await publisher.publishAll(makeEvents(1))).get('wss://relay.example')!;
+
+    expect(outcome).toEqual({ success: false, error: 'blocked: not on whitelist', retries: 0 });
+    expect(publish).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip events that exceed the relay NIP-11 limits', async () => {
+    const publish = jest.fn().mockResolvedValue('');
+    const publisher = new RelayPublisher(['wss://relay.example'], {
+      retryPolicy,
+      connect: async () => ({ publish }),
+      getRelayInformation: async () => ({ limitation: { max_event_tags: 5 } }),
+    });
+
+    const [outcome] = (await publisher.publishAll(makeEvents(1, 10))).get('wss://relay.example')!;
+
+    expect(outcome.success).toBe(false);
+    expect(outcome.error).toContain('relay allows 5');
+    expect(publish).not.toHaveBeenCalled();
+  });
+
+  it('should fail every event when the relay cannot be reached', async () => {
+    const publisher = new RelayPublisher(['wss://down.example', 'wss://up.example'], {
+      retryPolicy,
+      connect: async (relay) => {
+        if (relay === 'wss://down.example') throw new Error('connection timed out');
+        return { publish: async () => '' };
+      },
+    });
+
+    const outcomes = await publisher.publishAll(makeEvents(3));
+
+    expect(outcomes.get('wss://down.example')!.every((outcome) => !outcome.success)).toBe(true);
+    expect(outcomes.get('wss://up.example')!.every((outcome) => outcome.success)).toBe(true);
+  });
+
+  describe('NIP-42 authentication', () => {
+    const signAuthEvent = jest.fn(
+      async (template: EventTemplate) => ({ ...template, id: 'auth' }) as VerifiedEvent
+    );
+
+    function authRequiredRelay() {
+      let authenticated = false;
+      return {
+        publish: jest.fn(async () => {
+          if (!authenticated) throw new Error('auth-required: please authenticate');
+          return '';
+        }),
+        auth: jest.fn(async (sign: typeof signAuthEvent) => {
+          await sign({ kind: 22242, created_at: 0, tags: [], content: '' });
+          authenticated = true;
+          return '';
+        }),
+      };
+    }
+
+    it('should authenticate to allowed relays and publish again', async () => {
+      const connection = authRequiredRelay();
+      const publisher = new RelayPublisher(['wss://team.example'], {
+        retryPolicy,
+        connect: async () => connection,
+        canAuthenticate: (relay) => relay === 'wss://team.example',
+        signAuthEvent,
+      });
+
+      const [outcome] = (await publisher.publishAll(makeEvents(1))).get('wss://team.example')!;
+
+      expect(outcome).toEqual({ success: true, retries: 0, authenticated: true });
+      expect(connection.auth).toHaveBeenCalledTimes(1);
+      expect(connection.publish).toHaveBeenCalledTimes(2);
+    });
+
+    it('should never authenticate to relays that are not allowed', async () => {
+      const connection = authRequiredRelay();
+      const publisher = new RelayPublisher(['wss://public.example'], {
+        retryPolicy,
+        connect: async () => connection,
+        canAuthenticate: () => false,
+        signAuthEvent,
+      });
+
+      const [outcome] = (await publisher.publishAll(makeEvents(1))).get('wss://public.example')!;
+
+      expect(outcome.success).toBe(false);
+      expect(outcome.error).toContain('authentication not allowed');
+      expect(connection.auth).not.toHaveBeenCalled();
+    });
+
+    it('should report relays that reject the AUTH event', async () => {
+      const connection = {
+        publish: jest.fn().mockRejectedValue(new Error('auth-required: please authenticate')),
+        auth: jest.fn().mockRejectedValue(new Error('restricted: pubkey not allowed')),
+      };
+      const publisher = new RelayPublisher(['wss://team.example'], {
+        retryPolicy,
+        connect: async () => connection,
+        canAuthenticate: () => true,
+        signAuthEvent,
+      });
+
+      const [outcome] = (await publisher.publishAll(makeEvents(1))).get('wss://team.example')!;
+
+      expect(outcome.success).toBe(false);
+      expect(outcome.error).toContain('authentication failed: restricted: pubkey not allowed');
+      expect(connection.publish).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('NIP-13 proof of work', () => {
+    const minedId = '0'.repeat(4) + 'f'.repeat(60);
+    const mineEvent = jest.fn(async (event: NostrEvent) => ({ ...event, id: minedId }));
+
+    beforeEach(() => mineEvent.mockClear());
+
+    it('should mine events for relays that advertise a minimum difficulty', async () => {
+      const publish = jest.fn().mockResolvedValue('');
+      const publisher = new RelayPublisher(['wss://pow.example'], {
+        retryPolicy,
+        connect: async () => ({ publish }),
+        getRelayInformation: async () => ({ limitation: { min_pow_difficulty: 16 } }),
+        mineEvent,
+      });
+
+      const [outcome] = (await publisher.publishAll(makeEvents(1))).get('wss://pow.example')!;
+
+      expect(outcome).toEqual({ success: true, retries: 0, powDifficulty: 16, eventId: minedId });
+      expect(mineEvent).toHaveBeenCalledWith(expect.anything(), 16);
+      expect(publish).toHaveBeenCalledWith(expect.objectContaining({ id: minedId }));
+    });
+
+    it('should mine and publish again when a relay rejects an event for missing work', async () => {
+      const publish = jest.fn(async (event: NostrEvent) => {
+        if (event.id !== minedId) throw new Error('pow: difficulty 0 is less than 12');
+        return '';
+      });
+      const publisher = new RelayPublisher(['wss://pow.example'], {
+        retryPolicy,
+        connect: async () => ({ publish }),
+        mineEvent,
+      });
+
+      const [outcome] = (await publisher.publishAll(makeEvents(1))).get('wss://pow.example')!;
+
+      expect(outcome.success).toBe(true);
+      expect(outcome.retries).toBe(0);
+      expect(outcome.eventId).toBe(minedId);
+      expect(mineEvent).toHaveBeenCalledWith(expect.anything(), 12);
+    });
+
+    it('should not mine above the configured maximum difficulty', async () => {
+      const publish = jest.fn().mockResolvedValue('');
+      const publisher = new RelayPublisher(['wss://pow.example'], {
+        retryPolicy,
+        connect: async () => ({ publish }),
+        getRelayInformation: async () => ({ limitation: { min_pow_difficulty: 30 } }),
+        mineEvent,
+        maxPowDifficulty: 20,
+      });
+
+      const [outcome] = (await publisher.publishAll(makeEvents(1))).get('wss://pow.example')!;
+
+      expect(outcome.success).toBe(false);
+      expect(outcome.error).toContain('above the configured maximum of 20');
+      expect(mineEvent).not.toHaveBeenCalled();
+      expect(publish).not.toHaveBeenCalled();
+    });
+  });
+});
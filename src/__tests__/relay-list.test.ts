@@ -0,0 +1,60 @@
+import {
+  getWriteRelays,
+  mergeRelayUrls,
+  parseRelayList,
+  toRelayListTags,
+} from '../utils/relay-list';
+
+describe('NIP-65 relay lists', () => {
+  it('should read read and write markers from r tags', () => {
+    const entries = parseRelayList({
+      tags: [
+        ['r', 'wss://both.example'],
+        ['r', 'wss://inbox.example', 'read'],
+        ['r', 'wss://outbox.example/', 'write'],
+        ['r', 'https://not-a-relay.example'],
+        ['p', 'pubkey'],
+      ],
+    });
+
+    expect(entries).toEqual([
+      { url: 'wss://both.example', read: true, write: true },
+      { url: 'wss://inbox.example', read: true, write: false },
+      { url: 'wss://outbox.example', read: false, write: true },
+    ]);
+    expect(getWriteRelays(entries)).toEqual(['wss://both.example', 'wss://outbox.example']);
+  });
+
+  it('should merge duplicate entries of the same relay', () => {
+    const entries = parseRelayList({
+      tags: [
+        ['r', 'wss://relay.example', 'read'],
+        ['r', 'wss://Relay.example/', 'write'],
+      ],
+    });
+
+    expect(entries).toEqual([{ url: 'wss://relay.example', read: true, write: true }]);
+  });
+
+  it('should only mark relays that are not used for both', () => {
+    expect(
+      toRelayListTags([
+        { url: 'wss://both.example', read: true, write: true },
+        { url: 'wss://outbox.example', read: false, write: true },
+        { url: 'wss://unused.example', read: false, write: false },
+      ])
+    ).toEqual([
+      ['r', 'wss://both.example'],
+      ['r', 'wss://outbox.example', 'write'],
+    ]);
+  });
+
+  it('should merge relay urls without duplicates', () => {
+    expect(
+      mergeRelayUrls(
+        ['wss://a.example', 'wss://b.example'],
+        ['wss://B.example/', 'wss://c.example']
+      )
+    ).toEqual(['wss://a.example', 'wss://b.example', 'wss://c.example']);
+  });
+});
@@ -0,0 +1,249 @@
+import { relaysAddCommand, relaysCheckCommand, relaysPublishCommand } from '../commands/relays';
+import { NostrManager, RelayCheckResult, SiteFileState } from '../utils/nostr';
+import { setInteractive } from '../utils/prompt';
+
+jest.mock('../utils/nostr');
+
+const mockConfig = {
+  nostr: {
+    publicKey: 'f'.repeat(64),
+    privateKey: '1'.repeat(64),
+    relays: ['wss://one.example', 'wss://two.example'],
+  },
+};
+
+const mockConfigManager = {
+  getConfig: () => mockConfig,
+  hasLocalConfig: async () => true,
+  setNostrRelays: jest.fn(),
+};
+
+jest.mock('../utils/config', () => ({
+  ConfigManager: { getInstance: jest.fn(async () => mockConfigManager) },
+}));
+
+function reachable(
+  relay: string,
+  deploymentEvents?: { found: number; total: number }
+): RelayCheckResult {
+  return {
+    relay,
+    reachable: true,
+    connectMs: 10,
+    roundTripMs: 20,
+    information: null,
+    deploymentEvents,
+  };
+}
+
+function unreachable(relay: string): RelayCheckResult {
+  return { relay, reachable: false, information: null, error: 'connection refused' };
+}
+
+describe('relays commands', () => {
+  let logs: string[];
+  const checkRelay = () => jest.mocked(NostrManager.prototype.checkRelay);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    logs = [];
+    jest.spyOn(console, 'log').mockImplementation((...args) => {
+      logs.push(args.join(' '));
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    jest.spyOn(process, 'exit').mockImplementation((code) => {
+      throw new Error(`process.exit(${code})`);
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('relays check', () => {
+    const published = new Map<string, SiteFileState>([
+      ['/index.html', { path: '/index.html', sha256: 'a'.repeat(64), eventId: 'e1', createdAt: 1 }],
+      ['/app.js', { path: '/app.js', sha256: 'b'.repeat(64), eventId: 'e2', createdAt: 1 }],
+    ]);
+
+    it('should look for the events of the published site on every relay', async () => {
+      jest.mocked(NostrManager.prototype.getSiteState).mockResolvedValue(published);
+      checkRelay().mockImplementation(async (relay) =>
+        relay === 'wss://one.example'
+          ? reachable(relay, { found: 2, total: 2 })
+          : reachable(relay, { found: 1, total: 2 })
+      );
+
+      await expect(relaysCheckCommand({ site: 'docs' })).rejects.toThrow();
+
+      expect(process.exit).toHaveBeenNthCalledWith(1, 0);
+
+      expect(NostrManager.prototype.getSiteState).toHaveBeenCalledWith(undefined, 'docs');
+      expect(checkRelay()).toHaveBeenCalledWith('wss://one.example', ['e1', 'e2']);
+      expect(checkRelay()).toHaveBeenCalledWith('wss://two.example', ['e1', 'e2']);
+      expect(logs).toEqual(
+        expect.arrayContaining([
+          expect.stringContaining('📦 Published site: 2/2 event(s) present'),
+          expect.stringContaining('📦 Published site: 1/2 event(s) present'),
+        ])
+      );
+    });
+
+    it('should skip the presence check when no published site is found', async () => {
+      jest.mocked(NostrManager.prototype.getSiteState).mockRejectedValue(new Error('timeout'));
+      checkRelay().mockImplementation(async (relay) => reachable(relay));
+
+      await expect(relaysCheckCommand({})).rejects.toThrow();
+
+      expect(process.exit).toHaveBeenNthCalledWith(1, 0);
+
+      expect(checkRelay()).toHaveBeenCalledWith('wss://one.example', []);
+      expect(logs).toEqual(
+        expect.arrayContaining([
+          expect.stringContaining('No published site found, event presence is not checked.'),
+        ])
+      );
+      expect(logs.some((line) => line.includes('📦'))).toBe(false);
+    });
+
+    it('should exit non-zero when a relay is unreachable', async () => {
+      jest.mocked(NostrManager.prototype.getSiteState).mockResolvedValue(new Map());
+      checkRelay().mockImplementation(async (relay) =>
+        relay === 'wss://two.example' ? unreachable(relay) : reachable(relay)
+      );
+
+      await expect(relaysCheckCommand({})).rejects.toThrow();
+
+      expect(process.exit).toHaveBeenNthCalledWith(1, 1);
+
+      expect(logs).toEqual(
+        expect.arrayContaining([expect.stringContaining('1/2 relay(s) unreachable')])
+      );
+    });
+  });
+
+  describe('relays add', () => {
+    it('should add reachable relays and skip configured ones', async () => {
+      checkRelay().mockImplementation(async (relay) => reachable(relay));
+
+      await expect(
+        relaysAddCommand(['wss://new.example/', 'WSS://ONE.example'], {})
+      ).rejects.toThrow();
+
+      expect(process.exit).toHaveBeenNthCalledWith(1, 0);
+
+      expect(checkRelay()).toHaveBeenCalledTimes(1);
+      expect(checkRelay()).toHaveBeenCalledWith('wss://new.example');
+      expect(mockConfigManager.setNostrRelays).toHaveBeenCalledWith([
+        'wss://one.example',
+        'wss://two.example',
+        'wss://new.example',
+      ]);
+    });
+
+    it('should not add unreachable relays without --force', async () => {
+      checkRelay().mockImplementation(async (relay) =>
+        relay === 'wss://down.example' ? unreachable(relay) : reachable(relay)
+      );
+
+      await expect(
+        relaysAddCommand(['wss://down.example', 'wss://up.example'], {})
+      ).rejects.toThrow();
+
+      expect(process.exit).toHaveBeenNthCalledWith(1, 1);
+
+      expect(mockConfigManager.setNostrRelays).toHaveBeenCalledWith([
+        'wss://one.example',
+        'wss://two.example',
+        'wss://up.example',
+      ]);
+    });
+
+    it('should add unreachable relays with --force', async () => {
+      checkRelay().mockImplementation(async (relay) => unreachable(relay));
+
+      await expect(relaysAddCommand(['wss://down.example'], { force: true })).rejects.toThrow();
+
+      expect(process.exit).toHaveBeenNthCalledWith(1, 0);
+
+      expect(mockConfigManager.setNostrRelays).toHaveBeenCalledWith([
+        'wss://one.example',
+        'wss://two.example',
+        'wss://down.example',
+      ]);
+    });
+
+    it('should reject URLs that are not WebSocket URLs', async () => {
+      await expect(relaysAddCommand(['https://relay.example'], {})).rejects.toThrow();
+
+      expect(process.exit).toHaveBeenNthCalledWith(1, 1);
+
+      expect(checkRelay()).not.toHaveBeenCalled();
+      expect(mockConfigManager.setNostrRelays).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('relays publish', () => {
+    const publishRelayList = () => jest.mocked(NostrManager.prototype.publishRelayList);
+
+    beforeEach(() => {
+      publishRelayList().mockResolvedValue({ eventId: 'list', relayResults: [] });
+      setInteractive(false);
+    });
+
+    afterEach(() => {
+      setInteractive(true);
+    });
+
+    it('should add the configured relays to the published list', async () => {
+      jest
+        .mocked(NostrManager.prototype.getRelayList)
+        .mockResolvedValue([{ url: 'wss://other.example', read: true, write: false }]);
+
+      await expect(relaysPublishCommand({})).rejects.toThrow();
+
+      expect(process.exit).toHaveBeenNthCalledWith(1, 0);
+      expect(publishRelayList()).toHaveBeenCalledWith([
+        { url: 'wss://other.example', read: true, write: false },
+        { url: 'wss://one.example', read: true, write: true },
+        { url: 'wss://two.example', read: true, write: true },
+      ]);
+    });
+
+    it('should not overwrite the list when it cannot be looked up', async () => {
+      jest
+        .mocked(NostrManager.prototype.getRelayList)
+        .mockRejectedValue(new Error('Failed to fetch events: no relay could be reached'));
+
+      await expect(relaysPublishCommand({})).rejects.toThrow();
+
+      expect(process.exit).toHaveBeenNthCalledWith(1, 1);
+      expect(publishRelayList()).not.toHaveBeenCalled();
+    });
+
+    it('should publish the configured relays when no list is found, once confirmed', async () => {
+      jest.mocked(NostrManager.prototype.getRelayList).mockResolvedValue(null);
+
+      await expect(relaysPublishCommand({})).rejects.toThrow();
+
+      expect(logs).toEqual(
+        expect.arrayContaining([expect.stringContaining('No relay list found')])
+      );
+      expect(publishRelayList()).toHaveBeenCalledWith([
+        { url: 'wss://one.example', read: true, write: true },
+        { url: 'wss://two.example', read: true, write: true },
+      ]);
+    });
+
+    it('should replace the list without looking it up with --replace', async () => {
+      await expect(relaysPublishCommand({ replace: true })).rejects.toThrow();
+
+      expect(NostrManager.prototype.getRelayList).not.toHaveBeenCalled();
+      expect(publishRelayList()).toHaveBeenCalledWith([
+        { url: 'wss://one.example', read: true, write: true },
+        { url: 'wss://two.example', read: true, write: true },
+      ]);
+    });
+  });
+});
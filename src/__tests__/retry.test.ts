@@ -0,0 +1,86 @@
+import { AxiosError, AxiosHeaders } from 'axios';
+import {
+  classifyHttpError,
+  classifyRelayError,
+  getBackoffDelay,
+  parseRetryAfter,
+  resolveRetryPolicy,
+  withRetry,
+} from '../utils/retry';
+
+function httpError(status: number, headers: Record<string, string> = {}): AxiosError {
+  const config = { headers: new AxiosHeaders() };
+  return new AxiosError('Request failed', 'ERR_BAD_RESPONSE', config, null, {
+    status,
+    statusText: '',
+    headers,
+    config,
+    data: null,
+  });
+}
+
+describe('retry', () => {
+  const policy = { attempts: 3, baseDelayMs: 1, maxDelayMs: 10 };
+
+  it('should retry transient failures until the task succeeds', async () => {
+    const task = jest
+      .fn()
+      .mockRejectedValueOnce(httpError(502))
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValue('ok');
+    const onRetry = jest.fn();
+
+    await expect(withRetry(task, policy, classifyHttpError, onRetry)).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up after the configured number of attempts', async () => {
+    const task = jest.fn().mockRejectedValue(httpError(500));
+
+    await expect(withRetry(task, policy, classifyHttpError)).rejects.toThrow('Request failed');
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it.each([403, 413, 415])('should never retry a %i response', async (status) => {
+    const task = jest.fn().mockRejectedValue(httpError(status));
+
+    await expect(withRetry(task, policy, classifyHttpError)).rejects.toThrow();
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('should honour Retry-After headers', () => {
+    expect(classifyHttpError(httpError(429, { 'retry-after': '2' }))).toEqual({
+      retry: true,
+      delayMs: 2000,
+    });
+    expect(parseRetryAfter(new Date(Date.now() + 60000).toUTCString())).toBeGreaterThan(50000);
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+  });
+
+  it('should classify relay OK messages', () => {
+    expect(classifyRelayError(new Error('rate-limited: slow down'))).toEqual({ retry: true });
+    expect(classifyRelayError(new Error('publish timed out'))).toEqual({ retry: true });
+    expect(classifyRelayError(new Error('blocked: not allowed'))).toEqual({ retry: false });
+    expect(classifyRelayError(new Error('invalid: bad signature'))).toEqual({ retry: false });
+  });
+
+  it('should keep backoff delays within the exponential window', () => {
+    const backoff = { attempts: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+
+    for (let retry = 1; retry <= 5; retry++) {
+      const expected = Math.min(1000, 100 * 2 ** (retry - 1));
+      const delay = getBackoffDelay(retry, backoff);
+      expect(delay).toBeGreaterThanOrEqual(expected / 2);
+      expect(delay).toBeLessThanOrEqual(expected);
+    }
+  });
+
+  it('should apply configured attempts and base delay', () => {
+    expect(resolveRetryPolicy({ attempts: 5, baseDelayMs: 250 })).toEqual({
+      attempts: 5,
+      baseDelayMs: 250,
+      maxDelayMs: 30000,
+    });
+  });
+});
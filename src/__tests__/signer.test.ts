@@ -0,0 +1,215 @@
+import {
+  Filter,
+  generateSecretKey,
+  getPublicKey,
+  matchFilter,
+  nip44,
+  Event as NostrEvent,
+  verifyEvent,
+} from 'nostr-tools';
+import { BunkerSigner, BunkerTransport, NOSTR_CONNECT_KIND, parseBunkerUrl } from '../utils/bunker';
+import {
+  decryptPrivateKey,
+  encryptPrivateKey,
+  isEncryptedKey,
+  PASSPHRASE_ENV,
+} from '../utils/ncryptsec';
+import { EncryptedKeySigner, LocalKeySigner, NostrSigner } from '../utils/signer';
+
+/**
+ * In-memory relay shared by the client and the stand-in bunker
+ */
+function createTestRelay() {
+  const subscriptions = new Set<{ filter: Filter; onEvent: (event: NostrEvent) => void }>();
+
+  const transport: BunkerTransport = {
+    publish: async (event) => {
+      subscriptions.forEach((subscription) => {
+        if (matchFilter(subscription.filter, event)) {
+          setImmediate(() => subscription.onEvent(event));
+        }
+      });
+    },
+    subscribe: (filter, onEvent) => {
+      const subscription = { filter, onEvent };
+      subscriptions.add(subscription);
+      return { close: () => subscriptions.delete(subscription) };
+    },
+    close: () => undefined,
+  };
+  return transport;
+}
+
+/**
+ * Stand-in NIP-46 bunker that signs with a LocalKeySigner
+ */
+function startStandInBunker(transport: BunkerTransport, secret: string) {
+  const bunkerKey = generateSecretKey();
+  const bunkerPubkey = getPublicKey(bunkerKey);
+  const identity = new LocalKeySigner(generateSecretKey());
+  const requests: string[] = [];
+
+  transport.subscribe({ kinds: [NOSTR_CONNECT_KIND], '#p': [bunkerPubkey] }, async (event) => {
+    const conversationKey = nip44.getConversationKey(bunkerKey, event.pubkey);
+    const request = JSON.parse(nip44.decrypt(event.content, conversationKey));
+    requests.push(request.method);
+
+    let response: { id: string; result?: string; error?: string };
+    if (request.method === 'connect') {
+      response =
+        request.params[1] === secret
+          ? { id: request.id, result: 'ack' }
+          : { id: request.id, error: 'invalid secret' };
+    } else if (request.method === 'get_public_key') {
+      response = { id: request.id, result: await identity.getPublicKey() };
+    } else if (request.method === 'sign_event') {
+      const signed = await identity.signEvent(JSON.parse(request.params[0]));
+      response = { id: request.id, result: JSON.stringify(signed) };
+    } else {
+      response = { id: request.id, error: `unsupported method ${request.method}` };
+    }
+
+    const reply = await new LocalKeySigner(bunkerKey).signEvent({
+      kind: NOSTR_CONNECT_KIND,
+      created_at: Math.floor(Date.now() / 1000),
+      tags: [['p', event.pubkey]],
+      content: nip44.encrypt(JSON.stringify(response), conversationKey),
+    });
+    await transport.publish(reply);
+  });
+
+  return { bunkerPubkey, identity, requests };
+}
+
+function createBunkerSigner(secret = 'secret') {
+  const transport = createTestRelay();
+  const bunker = startStandInBunker(transport, 'secret');
+  const signer = new BunkerSigner(
+    { remotePubkey: bunker.bunkerPubkey, relays: ['wss://relay.example'], secret },
+    generateSecretKey(),
+    transport,
+    1000
+  );
+  return { signer, bunker };
+}
+
+describe('signers', () => {
+  const template = {
+    kind: 24242,
+    created_at: 1700000000,
+    content: 'Upload index.html',
+    tags: [
+      ['t', 'upload'],
+      ['expiration', '1700003600'],
+    ],
+  };
+
+  const signers: [string, () => { signer: NostrSigner; pubkey: () => Promise<string> }][] = [
+    [
+      'LocalKeySigner',
+      () => {
+        const signer = new LocalKeySigner(generateSecretKey());
+        return { signer, pubkey: () => signer.getPublicKey() };
+      },
+    ],
+    [
+      'BunkerSigner',
+      () => {
+        const { signer, bunker } = createBunkerSigner();
+        return { signer, pubkey: () => bunker.identity.getPublicKey() };
+      },
+    ],
+  ];
+
+  describe.each(signers)('%s', (_name, create) => {
+    it('should sign events with the identity key', async () => {
+      const { signer, pubkey } = create();
+
+      const event = await signer.signEvent(template);
+
+      expect(verifyEvent(event)).toBe(true);
+      expect(event.pubkey).toBe(await pubkey());
+      expect(event.tags).toEqual(template.tags);
+      expect(await signer.getPublicKey()).toBe(await pubkey());
+      await signer.close();
+    });
+  });
+
+  describe('BunkerSigner', () => {
+    it('should connect once before asking for signatures', async () => {
+      const { signer, bunker } = createBunkerSigner();
+
+      await Promise.all([signer.signEvent(template), signer.signEvent(template)]);
+
+      expect(bunker.requests.filter((method) => method === 'connect')).toHaveLength(1);
+      expect(bunker.requests.filter((method) => method === 'sign_event')).toHaveLength(2);
+      await signer.close();
+    });
+
+    it('should report errors from the remote signer', async () => {
+      const { signer } = createBunkerSigner('wrong');
+
+      await expect(signer.signEvent(template)).rejects.toThrow(
+        'Remote signer error: invalid secret'
+      );
+      await signer.close();
+    });
+  });
+
+  describe('EncryptedKeySigner', () => {
+    const privateKey = Buffer.from(generateSecretKey()).toString('hex');
+    const ncryptsec = encryptPrivateKey(privateKey, 'correct horse');
+
+    afterEach(() => {
+      delete process.env[PASSPHRASE_ENV];
+    });
+
+    it('should store the key as a NIP-49 ncryptsec', () => {
+      expect(isEncryptedKey(ncryptsec)).toBe(true);
+      expect(isEncryptedKey(privateKey)).toBe(false);
+      expect(decryptPrivateKey(ncryptsec, 'correct horse')).toBe(privateKey);
+      expect(() => decryptPrivateKey(ncryptsec, 'wrong')).toThrow('wrong passphrase');
+    });
+
+    it('should sign with the key unlocked by the passphrase from the environment', async () => {
+      process.env[PASSPHRASE_ENV] = 'correct horse';
+      const signer = new EncryptedKeySigner(ncryptsec);
+
+      const event = await signer.signEvent(template);
+
+      expect(verifyEvent(event)).toBe(true);
+      expect(event.pubkey).toBe(await new LocalKeySigner(privateKey).getPublicKey());
+    });
+
+    it('should fail to sign with a wrong passphrase', async () => {
+      process.env[PASSPHRASE_ENV] = 'wrong';
+      const signer = new EncryptedKeySigner(ncryptsec);
+
+      await expect(signer.signEvent(template)).rejects.toThrow('Could not decrypt');
+    });
+  });
+
+  describe('parseBunkerUrl', () => {
+    const pubkey = 'a'.repeat(64);
+
+    it('should read the remote signer pubkey, relays and secret', () => {
+      expect(
+        parseBunkerUrl(
+          `bunker://${pubkey}?relay=wss://one.example&relay=wss://two.example&secret=abc`
+        )
+      ).toEqual({
+        remotePubkey: pubkey,
+        relays: ['wss://one.example', 'wss://two.example'],
+        secret: 'abc',
+      });
+    });
+
+    it('should reject connection strings without a pubkey or relays', () => {
+      expect(() => parseBunkerUrl('bunker://npub1abc?relay=wss://one.example')).toThrow(
+        'Invalid bunker URL'
+      );
+      expect(() => parseBunkerUrl(`bunker://${pubkey}`)).toThrow('relay=wss://');
+      expect(() => parseBunkerUrl('nostrconnect://whatever')).toThrow('Invalid bunker URL');
+    });
+  });
+});
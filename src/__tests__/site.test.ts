@@ -0,0 +1,44 @@
+import {
+  ALL_SITES,
+  getSiteSubdomain,
+  matchSitePath,
+  normalizeSiteName,
+  parseEventPath,
+  toEventPath,
+} from '../utils/site';
+
+describe('named sites', () => {
+  it('should keep plain paths for the default site', () => {
+    expect(toEventPath('/index.html')).toBe('/index.html');
+    expect(parseEventPath('/index.html')).toEqual({ path: '/index.html' });
+  });
+
+  it('should scope paths of named sites by their name', () => {
+    expect(toEventPath('/index.html', 'docs')).toBe('docs:/index.html');
+    expect(parseEventPath('docs:/guide/intro.html')).toEqual({
+      site: 'docs',
+      path: '/guide/intro.html',
+    });
+  });
+
+  it('should only match paths of the requested site', () => {
+    expect(matchSitePath('/index.html')).toBe('/index.html');
+    expect(matchSitePath('docs:/index.html')).toBeNull();
+    expect(matchSitePath('docs:/index.html', 'docs')).toBe('/index.html');
+    expect(matchSitePath('/index.html', 'docs')).toBeNull();
+    expect(matchSitePath('docs:/index.html', ALL_SITES)).toBe('docs:/index.html');
+  });
+
+  it('should put the site name in front of the npub subdomain', () => {
+    expect(getSiteSubdomain('npub1abc')).toBe('npub1abc');
+    expect(getSiteSubdomain('npub1abc', 'blog')).toBe('blog.npub1abc');
+  });
+
+  it('should only accept site names that are valid DNS labels', () => {
+    expect(normalizeSiteName(' Docs ')).toBe('docs');
+    expect(normalizeSiteName('status-page')).toBe('status-page');
+    expect(() => normalizeSiteName('my site')).toThrow('Invalid site name');
+    expect(() => normalizeSiteName('-docs')).toThrow('Invalid site name');
+    expect(() => normalizeSiteName('a'.repeat(64))).toThrow('Invalid site name');
+  });
+});
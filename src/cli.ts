@@ -1,46 +1,201 @@
 #!/usr/bin/env node
 
 import chalk from 'chalk';
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import { readFileSync } from 'fs';
 import { join } from 'path';
-import { authCommand } from './commands/auth';
-import { configCommand } from './commands/config';
+import { authCommand, authDecryptCommand, authEncryptCommand } from './commands/auth';
+import { blobsGcCommand, blobsListCommand } from './commands/blobs';
+import {
+  configCommand,
+  configGetCommand,
+  configInitCommand,
+  configListCommand,
+  configMigrateCommand,
+  configSetCommand,
+  configUnsetCommand,
+  configValidateCommand,
+} from './commands/config';
 import { deployCommand } from './commands/deploy';
 import { infoCommand } from './commands/info';
+import { mirrorCommand } from './commands/mirror';
+import {
+  relaysAddCommand,
+  relaysCheckCommand,
+  relaysPublishCommand,
+  relaysRemoveCommand,
+  relaysSyncCommand,
+} from './commands/relays';
+import { rollbackCommand } from './commands/rollback';
 import { statusCommand } from './commands/status';
+import { verifyCommand } from './commands/verify';
+import { ConfigManager, normalizeProfileName } from './utils/config';
+import {
+  emitJsonError,
+  enableJsonOutput,
+  exitCommand,
+  finishJsonOutput,
+  log,
+} from './utils/output';
+import { setInteractive } from './utils/prompt';
+import { normalizeSiteName } from './utils/site';
 
 // Read version from package.json
 const packageJson = JSON.parse(readFileSync(join(__dirname, '../package.json'), 'utf8'));
 
 const program = new Command();
 
+function parsePositiveInt(value: string): number {
+  const parsed = parseInt(value, 10);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new InvalidArgumentError('Expected a positive integer.');
+  }
+  return parsed;
+}
+
+function parseSiteName(value: string): string {
+  try {
+    return normalizeSiteName(value);
+  } catch (error) {
+    throw new InvalidArgumentError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+function parseProfileName(value: string): string {
+  try {
+    return normalizeProfileName(value);
+  } catch (error) {
+    throw new InvalidArgumentError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+function parseNpub(value: string): string {
+  if (!/^npub1[02-9ac-hj-np-z]{58}$/.test(value)) {
+    throw new InvalidArgumentError('Expected an npub (npub1...)');
+  }
+  return value;
+}
+
+// Full name of a subcommand, e.g. `relays check`
+function getCommandPath(command: Command): string {
+  const names: string[] = [];
+  for (let current: Command | null = command; current?.parent; current = current.parent) {
+    names.unshift(current.name());
+  }
+  return names.join(' ');
+}
+
+// Collect repeatable option values into an array
+function collect(value: string, previous: string[]): string[] {
+  return previous.concat([value]);
+}
+
 program
   .name('nostr-deploy-cli')
   .description('Deploy static sites using Nostr protocol and Blossom servers')
-  .version(packageJson.version);
+  .version(packageJson.version)
+  .option('-y, --yes', 'Never prompt: confirm with yes and fail where input is required')
+  .option('--non-interactive', 'Same as --yes')
+  .option('--json', 'Print a single JSON document to stdout, logs go to stderr')
+  .option(
+    '--profile <name>',
+    'Use a named configuration profile (or set NOSTR_DEPLOY_PROFILE)',
+    parseProfileName
+  )
+  .hook('preAction', (_program, actionCommand) => {
+    const options = program.opts();
+    setInteractive(!options.yes && !options.nonInteractive);
+    ConfigManager.useProfile(options.profile);
+    if (options.json) {
+      enableJsonOutput(getCommandPath(actionCommand));
+    }
+  });
 
 // Authentication command
-program
+const auth = program
   .command('auth')
   .description('Authenticate with Nostr')
-  .option('-k, --key <key>', 'Nostr private key (nsec format)')
+  .option('-k, --key <key>', 'Nostr private key (nsec or ncryptsec format)')
   .option('-p, --pubkey <pubkey>', 'Nostr public key (npub format)')
+  .option('--bunker <url>', 'Sign with a NIP-46 remote signer (bunker://...)')
+  .option('--no-encrypt', 'Store the private key unencrypted instead of as a NIP-49 ncryptsec')
+  .option('-g, --global', 'Save to the user config, shared by all projects')
   .action(authCommand);
 
+auth
+  .command('encrypt')
+  .description('Encrypt the stored private key with a passphrase (NIP-49)')
+  .action(authEncryptCommand);
+
+auth
+  .command('decrypt')
+  .description('Store the private key unencrypted again')
+  .action(authDecryptCommand);
+
 // Configuration command
-program
+const config = program
   .command('config')
   .description('Configure deployment settings')
   .option('-r, --relays <relays...>', 'Nostr relay URLs (comma-separated or multiple values)')
+  .option(
+    '--auth-relays <relays...>',
+    'Relays allowed to receive NIP-42 AUTH events signed with your key'
+  )
   .option('-b, --blossom <url>', 'Blossom server URL')
   .option('-d, --domain <domain>', 'Base domain for subdomains')
+  .option('-g, --global', 'Save to the user config, shared by all projects')
   .action(configCommand);
 
+config
+  .command('get <key>')
+  .description('Print the value of a setting, e.g. blossom.servers')
+  .action(configGetCommand);
+
+config
+  .command('set <key> <value...>')
+  .description('Validate and save a setting, lists comma-separated')
+  .option('-g, --global', 'Save to the user config, shared by all projects')
+  // `config` has --global too and sees it first
+  .action((key: string, values: string[], _options, command: Command) =>
+    configSetCommand(key, values, command.optsWithGlobals())
+  );
+
+config
+  .command('unset <key>')
+  .description('Remove a setting')
+  .option('-g, --global', 'Remove from the user config')
+  // `config` has --global too and sees it first
+  .action((key: string, _options, command: Command) =>
+    configUnsetCommand(key, command.optsWithGlobals())
+  );
+
+config
+  .command('list')
+  .description('Show every setting in effect and where it comes from')
+  .action(configListCommand);
+
+config
+  .command('validate')
+  .description('Check the configuration and exit non-zero when it is broken')
+  .action(configValidateCommand);
+
+config
+  .command('init')
+  .description('Create nostr-deploy.config.json, a project config file without secrets to commit')
+  .action(configInitCommand);
+
+config
+  .command('migrate')
+  .description(
+    'Move everything but the key from .env.nostr-deploy.local to nostr-deploy.config.json'
+  )
+  .action(configMigrateCommand);
+
 // Info command
 program
   .command('info')
   .description('Show local project configuration and authentication status')
+  .option('--site <name>', 'Show the URL of a named site', parseSiteName)
   .action(infoCommand);
 
 // Deploy command
@@ -52,6 +207,20 @@ program
     '--skip-setup',
     'Skip auth and config steps, reuse existing config or auto-generate keypair and deploy'
   )
+  .option('-i, --incremental', 'Only upload and publish files that are new or changed')
+  .option('--keep-stale', 'Keep published paths that no longer exist in the build directory')
+  .option('--dry-run', 'Print the deployment plan without uploading, signing or publishing')
+  .option(
+    '--exclude <glob>',
+    'Exclude files matching a gitignore-style pattern (repeatable)',
+    collect,
+    []
+  )
+  .option('--include <glob>', 'Always deploy files matching a pattern (repeatable)', collect, [])
+  .option('-v, --verbose', 'Show detailed output, including ignored files')
+  .option('-c, --concurrency <n>', 'Maximum number of uploads in flight at once', parsePositiveInt)
+  .option('--spa', 'Single-page app: serve index.html for unknown paths via a 404.html fallback')
+  .option('--site <name>', 'Deploy as a named site at <name>.<npub>', parseSiteName)
   .action(deployCommand);
 
 // Status command
@@ -59,48 +228,128 @@ program
   .command('status')
   .description('Check deployment status')
   .option('-s, --subdomain <subdomain>', 'Check specific subdomain')
+  .option(
+    '--npub <npub>',
+    "Check another user's site, using relays from their NIP-65 list",
+    parseNpub
+  )
+  .option('--site <name>', 'Only show deployments of a named site', parseSiteName)
   .action(statusCommand);
 
+// Rollback command
+program
+  .command('rollback [deployment]')
+  .description('Restore a previous deployment (number from the status list, or pick interactively)')
+  .option(
+    '-t, --to <timestamp|event-id>',
+    'Deployment to restore, by unix timestamp, date or event ID'
+  )
+  .option('--site <name>', 'Roll back a named site', parseSiteName)
+  .action(rollbackCommand);
+
+// Mirror command
+program
+  .command('mirror')
+  .description('Copy published blobs to Blossom servers that are missing them')
+  .option(
+    '-s, --server <url>',
+    'Target server (repeatable, default: all configured servers)',
+    collect,
+    []
+  )
+  .action(mirrorCommand);
+
+// Verify command
+program
+  .command('verify')
+  .description('Download every deployed blob from every server and check its hash')
+  .option('-l, --local <directory>', 'Also compare the published site with a local build')
+  .option('--site <name>', 'Verify a named site', parseSiteName)
+  .action(verifyCommand);
+
+// Blob inventory commands
+const blobs = program.command('blobs').description('Inspect and clean up blobs on Blossom servers');
+
+blobs
+  .command('list')
+  .description('List the blobs stored for this pubkey on each configured server')
+  .action(blobsListCommand);
+
+blobs
+  .command('gc')
+  .description('Delete blobs of earlier deployments that no current static file event references')
+  .option('--dry-run', 'Show orphaned blobs without deleting them')
+  .option(
+    '--keep-last <n>',
+    'Keep blobs listed in the last N deployments of each site',
+    parsePositiveInt
+  )
+  .action(blobsGcCommand);
+
+// Relay commands
+const relays = program
+  .command('relays')
+  .description('Check and manage the configured Nostr relays');
+
+relays
+  .command('check')
+  .description('Report latency, NIP-11 capabilities and deployed events for each relay')
+  .option('--site <name>', "Check the events of a named site's last deployment", parseSiteName)
+  .action(relaysCheckCommand);
+
+relays
+  .command('add <urls...>')
+  .description('Check relays and add the reachable ones to the configuration')
+  .option('--force', 'Add relays even if they cannot be reached')
+  .action(relaysAddCommand);
+
+relays
+  .command('remove <urls...>')
+  .description('Remove relays from the configuration')
+  .action(relaysRemoveCommand);
+
+relays
+  .command('publish')
+  .description('Publish the configured relays as your NIP-65 relay list (kind 10002)')
+  .option('--replace', 'Drop relays that are on the current list but not configured')
+  .action(relaysPublishCommand);
+
+relays
+  .command('sync')
+  .description('Add the write relays from your NIP-65 relay list to the configuration')
+  .action(relaysSyncCommand);
+
 // Help command
 program
   .command('help')
   .description('Show help information')
   .action(() => {
-    console.log(chalk.cyan('\n🌟 Nostr Deploy CLI\n'));
-    console.log(
+    log(chalk.cyan('\n🌟 Nostr Deploy CLI\n'));
+    log(
       chalk.white('A decentralized static site deployment tool using Nostr and Blossom servers.\n')
     );
-    console.log(chalk.yellow('Each project has its own local configuration and Nostr identity.\n'));
+    log(chalk.yellow('Each project has its own local configuration and Nostr identity.\n'));
 
-    console.log(chalk.yellow('Quick Start:'));
-    console.log(
-      chalk.white('1. Set up project authentication: ') + chalk.green('nostr-deploy-cli auth')
-    );
-    console.log(
-      chalk.white('2. Configure project settings: ') + chalk.green('nostr-deploy-cli config')
-    );
-    console.log(
-      chalk.white('3. View project configuration: ') + chalk.green('nostr-deploy-cli info')
-    );
-    console.log(chalk.white('4. Deploy your site: ') + chalk.green('nostr-deploy-cli deploy'));
-    console.log('');
-    console.log(chalk.yellow('Configuration Options:'));
-    console.log(
-      chalk.white('Configure relays: ') + chalk.green('nostr-deploy-cli config --relays <urls>')
-    );
-    console.log('');
-    console.log(chalk.yellow('Fast Deploy:'));
-    console.log(
+    log(chalk.yellow('Quick Start:'));
+    log(chalk.white('1. Set up project authentication: ') + chalk.green('nostr-deploy-cli auth'));
+    log(chalk.white('2. Configure project settings: ') + chalk.green('nostr-deploy-cli config'));
+    log(chalk.white('3. View project configuration: ') + chalk.green('nostr-deploy-cli info'));
+    log(chalk.white('4. Deploy your site: ') + chalk.green('nostr-deploy-cli deploy'));
+    log('');
+    log(chalk.yellow('Configuration Options:'));
+    log(chalk.white('Configure relays: ') + chalk.green('nostr-deploy-cli config --relays <urls>'));
+    log('');
+    log(chalk.yellow('Fast Deploy:'));
+    log(
       chalk.white('Skip setup and deploy directly: ') +
         chalk.green('nostr-deploy-cli deploy --skip-setup')
     );
-    console.log('');
+    log('');
 
-    console.log(
-      chalk.gray('💡 Note: Configuration is stored locally in .env.nostr-deploy.local file')
-    );
-    console.log(chalk.gray('   Each project can have its own Nostr identity and settings'));
-    console.log('');
+    log(chalk.gray('💡 Note: Configuration is stored locally in .env.nostr-deploy.local file'));
+    log(chalk.gray('   Each project can have its own Nostr identity and settings'));
+    log(chalk.gray('   Shared defaults go in ~/.config/nostr-deploy/config.env (--global)'));
+    log('');
 
     program.help();
   });
@@ -108,7 +357,7 @@ program
 // Error handling
 program.on('command:*', () => {
   console.error(chalk.red(`Invalid command: ${program.args.join(' ')}`));
-  console.log(
+  log(
     chalk.yellow('Run ') +
       chalk.green('nostr-deploy-cli help') +
       chalk.yellow(' for available commands.')
@@ -117,7 +366,21 @@ program.on('command:*', () => {
 });
 
 // Parse command line arguments
-program.parse(process.argv);
+program
+  .parseAsync(process.argv)
+  .then(() => {
+    // Commands that return instead of exiting write their JSON document here
+    const code = finishJsonOutput(Number(process.exitCode || 0));
+    if (code !== 0) {
+      process.exitCode = code;
+    }
+  })
+  .catch((error) => {
+    // Errors the commands don't handle themselves, such as a configuration that fails to load
+    emitJsonError(error);
+    console.error(chalk.red(`\n❌ ${error instanceof Error ? error.message : String(error)}`));
+    exitCommand(1);
+  });
 
 // Show help if no command provided
 if (!process.argv.slice(2).length) {
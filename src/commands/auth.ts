@@ -1,38 +1,54 @@
 import chalk from 'chalk';
-import inquirer from 'inquirer';
 import * as path from 'path';
 import { AuthOptions } from '../types';
+import { BunkerSigner, parseBunkerUrl } from '../utils/bunker';
 import { ConfigManager } from '../utils/config';
+import {
+  decryptPrivateKey,
+  encryptPrivateKey,
+  isEncryptedKey,
+  PASSPHRASE_ENV,
+  readPassphrase,
+  unlockPrivateKey,
+} from '../utils/ncryptsec';
 import { NostrManager } from '../utils/nostr';
+import { exitCommand, log } from '../utils/output';
+import { prompt } from '../utils/prompt';
 
 export async function authCommand(options: AuthOptions): Promise<void> {
   const config = await ConfigManager.getInstance();
   const nostr = new NostrManager();
 
   try {
+    if (options.global) {
+      config.setScope('user');
+    }
     const projectName = path.basename(process.cwd());
     const hasLocalConfig = await config.hasLocalConfig();
 
-    console.log(chalk.cyan('\n🔐 Nostr Authentication Setup\n'));
-    console.log(chalk.white('Project: ') + chalk.yellow(projectName));
-    console.log(chalk.white('Config: ') + chalk.gray(config.getConfigPath()));
+    log(chalk.cyan('\n🔐 Nostr Authentication Setup\n'));
+    log(chalk.white('Project: ') + chalk.yellow(projectName));
+    log(chalk.white('Config: ') + chalk.gray(config.getConfigPath()));
 
     if (hasLocalConfig) {
       const userConfig = config.getConfig();
       if (userConfig.nostr?.publicKey) {
-        console.log(chalk.yellow('\n⚠️  This project already has authentication configured.'));
+        log(chalk.yellow('\n⚠️  This project already has authentication configured.'));
 
-        const overwrite = await inquirer.prompt([
-          {
-            type: 'confirm',
-            name: 'continue',
-            message: 'Do you want to reconfigure authentication for this project?',
-            default: false,
-          },
-        ]);
+        const overwrite = await prompt(
+          [
+            {
+              type: 'confirm',
+              name: 'continue',
+              message: 'Do you want to reconfigure authentication for this project?',
+              default: false,
+            },
+          ],
+          { fallback: { continue: true } }
+        );
 
         if (!overwrite.continue) {
-          console.log(
+          log(
             chalk.blue('\n📋 To view current configuration, run: ') +
               chalk.green('nostr-deploy-cli info')
           );
@@ -41,37 +57,45 @@ export async function authCommand(options: AuthOptions): Promise<void> {
       }
     }
 
-    console.log(chalk.cyan('\n🚀 Setting up local authentication for this project...\n'));
+    log(chalk.cyan('\n🚀 Setting up local authentication for this project...\n'));
 
     let privateKey = options.key;
     let publicKey = options.pubkey;
+    let bunkerUrl = options.bunker;
 
-    if (!privateKey && !publicKey) {
-      const authChoice = await inquirer.prompt([
-        {
-          type: 'list',
-          name: 'method',
-          message: 'Choose authentication method:',
-          choices: [
-            { name: '🆕 Generate new key pair', value: 'generate' },
-            { name: '🔑 Import existing private key (nsec)', value: 'import-private' },
-            { name: '🔓 Import public key only (npub)', value: 'import-public' },
-          ],
-        },
-      ]);
+    if (!privateKey && !publicKey && !bunkerUrl) {
+      const authChoice = await prompt(
+        [
+          {
+            type: 'list',
+            name: 'method',
+            message: 'Choose authentication method:',
+            choices: [
+              { name: '🆕 Generate new key pair', value: 'generate' },
+              {
+                name: '🔑 Import existing private key (nsec or ncryptsec)',
+                value: 'import-private',
+              },
+              { name: '🛰️  Use a remote signer (NIP-46 bunker)', value: 'bunker' },
+              { name: '🔓 Import public key only (npub)', value: 'import-public' },
+            ],
+          },
+        ],
+        { hint: 'pass --key, --pubkey or --bunker' }
+      );
 
       if (authChoice.method === 'generate') {
-        console.log(chalk.yellow('\n⚡ Generating new Nostr key pair...'));
+        log(chalk.yellow('\n⚡ Generating new Nostr key pair...'));
         const keyPair = nostr.generateKeyPair();
 
-        console.log(chalk.green('\n✅ Key pair generated successfully!'));
-        console.log(chalk.white('Private Key (nsec): ') + chalk.red(keyPair.nsec));
-        console.log(chalk.white('Public Key (npub): ') + chalk.blue(keyPair.npub));
-        console.log(chalk.yellow('\n⚠️  IMPORTANT: Save your private key (nsec) securely!'));
-        console.log(chalk.yellow('⚠️  You will need it to authenticate and deploy sites.'));
-        console.log(chalk.yellow('⚠️  This key pair is specific to this project.'));
+        log(chalk.green('\n✅ Key pair generated successfully!'));
+        log(chalk.white('Private Key (nsec): ') + chalk.red(keyPair.nsec));
+        log(chalk.white('Public Key (npub): ') + chalk.blue(keyPair.npub));
+        log(chalk.yellow('\n⚠️  IMPORTANT: Save your private key (nsec) securely!'));
+        log(chalk.yellow('⚠️  You will need it to authenticate and deploy sites.'));
+        log(chalk.yellow('⚠️  This key pair is specific to this project.'));
 
-        const confirmSave = await inquirer.prompt([
+        const confirmSave = await prompt([
           {
             type: 'confirm',
             name: 'save',
@@ -81,32 +105,52 @@ export async function authCommand(options: AuthOptions): Promise<void> {
         ]);
 
         if (!confirmSave.save) {
-          console.log(chalk.yellow('\n⏸️  Setup cancelled. Please save your private key first.'));
+          log(chalk.yellow('\n⏸️  Setup cancelled. Please save your private key first.'));
           return;
         }
 
         privateKey = keyPair.nsec;
         publicKey = keyPair.npub;
       } else if (authChoice.method === 'import-private') {
-        const keyInput = await inquirer.prompt([
+        const keyInput = await prompt([
           {
             type: 'password',
             name: 'privateKey',
-            message: 'Enter your private key (nsec format):',
+            message: 'Enter your private key (nsec or ncryptsec format):',
             mask: '*',
             validate: (input: string) => {
+              if (isEncryptedKey(input)) {
+                return true;
+              }
               try {
                 const parsed = nostr.parseNostrKey(input);
                 return parsed.type === 'nsec' ? true : 'Please enter a valid nsec private key';
               } catch {
-                return 'Invalid key format. Please enter a valid nsec key.';
+                return 'Invalid key format. Please enter a valid nsec or ncryptsec key.';
               }
             },
           },
         ]);
         privateKey = keyInput.privateKey;
+      } else if (authChoice.method === 'bunker') {
+        const bunkerInput = await prompt([
+          {
+            type: 'input',
+            name: 'bunkerUrl',
+            message: 'Enter your bunker connection string (bunker://...):',
+            validate: (input: string) => {
+              try {
+                parseBunkerUrl(input);
+                return true;
+              } catch (error) {
+                return error instanceof Error ? error.message : String(error);
+              }
+            },
+          },
+        ]);
+        bunkerUrl = bunkerInput.bunkerUrl.trim();
       } else {
-        const keyInput = await inquirer.prompt([
+        const keyInput = await prompt([
           {
             type: 'input',
             name: 'publicKey',
@@ -126,25 +170,65 @@ export async function authCommand(options: AuthOptions): Promise<void> {
     }
 
     // Process keys and save configuration
-    if (privateKey) {
+    if (bunkerUrl) {
       try {
-        const parsed = nostr.parseNostrKey(privateKey);
-        if (parsed.type !== 'nsec') {
-          throw new Error('Invalid private key format');
+        log(chalk.yellow('\n⚡ Connecting to your remote signer...'));
+        log(chalk.gray('   Approve the connection in your signer app if it asks.'));
+
+        // Only the connection string is stored, the key stays with the signer
+        const signer = BunkerSigner.fromUrl(bunkerUrl);
+        const publicKeyHex = await signer.getPublicKey().finally(() => signer.close());
+        await config.setBunker(bunkerUrl, publicKeyHex);
+
+        log(chalk.green('\n✅ Remote signer configured successfully for this project!'));
+        log(chalk.blue('🔑 Events and Blossom authorizations will be signed remotely.'));
+
+        const npub = await nostr.getNpubSubdomain();
+        const baseDomain = config.getConfig().deployment?.baseDomain || 'nostrdeploy.com';
+        log(
+          chalk.white('📍 Sites from this project will be deployed to: ') +
+            chalk.cyan(`${npub}.${baseDomain}`)
+        );
+      } catch (error) {
+        console.error(chalk.red(`\n❌ Error configuring remote signer: ${error}`));
+        return;
+      }
+    } else if (privateKey) {
+      try {
+        let storedKey: string;
+        let privateKeyHex: string;
+
+        if (isEncryptedKey(privateKey)) {
+          // Already encrypted: check the passphrase and store the ncryptsec as given
+          storedKey = privateKey.trim();
+          privateKeyHex = await unlockPrivateKey(storedKey);
+        } else {
+          const parsed = nostr.parseNostrKey(privateKey);
+          if (parsed.type !== 'nsec') {
+            throw new Error('Invalid private key format');
+          }
+
+          privateKeyHex = Buffer.from(parsed.data).toString('hex');
+          storedKey =
+            options.encrypt === false
+              ? privateKeyHex
+              : encryptPrivateKey(
+                  privateKeyHex,
+                  await readPassphrase('Choose a passphrase to encrypt the private key:', true)
+                );
         }
 
-        const privateKeyHex = Buffer.from(parsed.data).toString('hex');
         const publicKeyHex = nostr.getPublicKeyFromPrivate(privateKeyHex);
+        await config.setNostrKey(storedKey, publicKeyHex);
 
-        await config.setNostrKey(privateKeyHex, publicKeyHex);
-
-        console.log(chalk.green('\n✅ Private key configured successfully for this project!'));
-        console.log(chalk.blue('🔑 You can now deploy and manage sites from this project.'));
+        log(chalk.green('\n✅ Private key configured successfully for this project!'));
+        log(chalk.blue('🔑 You can now deploy and manage sites from this project.'));
+        printKeyStorage(isEncryptedKey(storedKey));
 
         // Show the npub for reference
         const npub = await nostr.getNpubSubdomain();
         const baseDomain = config.getConfig().deployment?.baseDomain || 'nostrdeploy.com';
-        console.log(
+        log(
           chalk.white('📍 Sites from this project will be deployed to: ') +
             chalk.cyan(`${npub}.${baseDomain}`)
         );
@@ -162,8 +246,8 @@ export async function authCommand(options: AuthOptions): Promise<void> {
         const publicKeyHex = Buffer.from(parsed.data).toString('hex');
         await config.setNostrKey('', publicKeyHex);
 
-        console.log(chalk.green('\n✅ Public key configured successfully for this project!'));
-        console.log(
+        log(chalk.green('\n✅ Public key configured successfully for this project!'));
+        log(
           chalk.yellow(
             '⚠️  Note: With public key only, you can view deployments but cannot deploy new sites.'
           )
@@ -175,17 +259,20 @@ export async function authCommand(options: AuthOptions): Promise<void> {
     }
 
     // Configure relays
-    const relaysChoice = await inquirer.prompt([
-      {
-        type: 'confirm',
-        name: 'configureRelays',
-        message: 'Would you like to configure Nostr relays for this project?',
-        default: false,
-      },
-    ]);
+    const relaysChoice = await prompt(
+      [
+        {
+          type: 'confirm',
+          name: 'configureRelays',
+          message: 'Would you like to configure Nostr relays for this project?',
+          default: false,
+        },
+      ],
+      { fallback: { configureRelays: false } }
+    );
 
     if (relaysChoice.configureRelays) {
-      const relaysInput = await inquirer.prompt([
+      const relaysInput = await prompt([
         {
           type: 'input',
           name: 'relays',
@@ -197,25 +284,121 @@ export async function authCommand(options: AuthOptions): Promise<void> {
       ]);
 
       await config.setNostrRelays(relaysInput.relays);
-      console.log(chalk.green(`\n✅ Configured ${relaysInput.relays.length} relays`));
+      log(chalk.green(`\n✅ Configured ${relaysInput.relays.length} relays`));
     }
 
-    console.log(chalk.cyan('\n🎉 Local authentication setup complete!'));
-    console.log(chalk.white('Next steps:'));
-    console.log(
+    log(chalk.cyan('\n🎉 Local authentication setup complete!'));
+    log(chalk.white('Next steps:'));
+    log(
       chalk.white('  1. Configure deployment settings: ') + chalk.green('nostr-deploy-cli config')
     );
-    console.log(
-      chalk.white('  2. View project configuration: ') + chalk.green('nostr-deploy-cli info')
+    log(chalk.white('  2. View project configuration: ') + chalk.green('nostr-deploy-cli info'));
+    log(chalk.white('  3. Deploy your first site: ') + chalk.green('nostr-deploy-cli deploy'));
+
+    if (options.global) {
+      log(chalk.gray('\n💡 Note: This identity is used by every project without its own.'));
+    } else {
+      log(chalk.gray('\n💡 Note: This configuration is local to this project directory.'));
+      log(chalk.gray('   Other projects will need their own authentication setup.'));
+    }
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Authentication failed: ${error}`));
+    exitCommand(1);
+  }
+}
+
+/**
+ * Encrypt the stored private key with a passphrase (NIP-49)
+ */
+export async function authEncryptCommand(): Promise<void> {
+  const config = await ConfigManager.getInstance();
+
+  try {
+    log(chalk.cyan('\n🔒 Encrypt Private Key\n'));
+    const privateKey = await getStoredPrivateKey(config);
+    if (!privateKey) {
+      return;
+    }
+    if (isEncryptedKey(privateKey)) {
+      log(chalk.green('✅ The private key is already encrypted.'));
+      return;
+    }
+
+    const passphrase = await readPassphrase(
+      'Choose a passphrase to encrypt the private key:',
+      true
     );
-    console.log(
-      chalk.white('  3. Deploy your first site: ') + chalk.green('nostr-deploy-cli deploy')
+    await config.setNostrKey(
+      encryptPrivateKey(privateKey, passphrase),
+      config.getConfig().nostr!.publicKey
     );
 
-    console.log(chalk.gray('\n💡 Note: This configuration is local to this project directory.'));
-    console.log(chalk.gray('   Other projects will need their own authentication setup.'));
+    log(chalk.green('✅ Private key encrypted.'));
+    printKeyStorage(true);
   } catch (error) {
-    console.error(chalk.red(`\n❌ Authentication failed: ${error}`));
-    process.exit(1);
+    console.error(chalk.red(`\n❌ Encrypting the private key failed: ${error}`));
+    exitCommand(1);
+  }
+}
+
+/**
+ * Store the private key as plain hex again
+ */
+export async function authDecryptCommand(): Promise<void> {
+  const config = await ConfigManager.getInstance();
+
+  try {
+    log(chalk.cyan('\n🔓 Decrypt Private Key\n'));
+    const privateKey = await getStoredPrivateKey(config);
+    if (!privateKey) {
+      return;
+    }
+    if (!isEncryptedKey(privateKey)) {
+      log(chalk.green('✅ The private key is not encrypted.'));
+      return;
+    }
+
+    const passphrase = await readPassphrase('Passphrase for the encrypted private key:');
+    await config.setNostrKey(
+      decryptPrivateKey(privateKey, passphrase),
+      config.getConfig().nostr!.publicKey
+    );
+
+    log(chalk.green('✅ Private key decrypted.'));
+    printKeyStorage(false);
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Decrypting the private key failed: ${error}`));
+    exitCommand(1);
+  }
+}
+
+async function getStoredPrivateKey(config: ConfigManager): Promise<string | null> {
+  const nostrConfig = (await config.hasLocalConfig()) ? config.getConfig().nostr : undefined;
+
+  if (!nostrConfig?.privateKey) {
+    log(
+      chalk.yellow(
+        nostrConfig?.bunker
+          ? '⚠️  This project signs with a remote signer, no private key is stored.'
+          : '⚠️  No private key is stored for this project.'
+      )
+    );
+    log(chalk.white('Please run: ') + chalk.green('nostr-deploy-cli auth'));
+    return null;
+  }
+  return nostrConfig.privateKey;
+}
+
+function printKeyStorage(encrypted: boolean): void {
+  if (encrypted) {
+    log(chalk.blue('🔒 The key is stored encrypted (NIP-49 ncryptsec).'));
+    log(
+      chalk.gray(`   Commands that sign ask for the passphrase, or read it from ${PASSPHRASE_ENV}.`)
+    );
+  } else {
+    log(chalk.yellow('⚠️  The key is stored unencrypted.'));
+    log(
+      chalk.gray('   Encrypt it with a passphrase: ') + chalk.green('nostr-deploy-cli auth encrypt')
+    );
   }
 }
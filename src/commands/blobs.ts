@@ -0,0 +1,186 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import * as path from 'path';
+import { BlobsGcOptions } from '../types';
+import { ConfigManager } from '../utils/config';
+import { DeploymentManager } from '../utils/deployment';
+import { exitCommand, log } from '../utils/output';
+import { prompt } from '../utils/prompt';
+import { canSign, unlockSigner } from '../utils/signer';
+import { formatBytes } from './deploy';
+
+export async function blobsListCommand(): Promise<void> {
+  const deployment = new DeploymentManager();
+
+  try {
+    log(chalk.cyan('\n📦 Stored Blobs\n'));
+    if (!(await ensureProjectConfig(false))) {
+      return;
+    }
+
+    const spinner = ora('Listing blobs on your Blossom servers...').start();
+    const servers = await deployment.listStoredBlobs();
+    spinner.stop();
+
+    servers.forEach((serverList) => {
+      log('\n' + chalk.cyan(serverList.server));
+      if (serverList.error) {
+        log(chalk.red(`  ❌ ${serverList.error}`));
+        return;
+      }
+      if (serverList.blobs.length === 0) {
+        log(chalk.gray('  No blobs stored'));
+        return;
+      }
+
+      const totalSize = serverList.blobs.reduce((sum, blob) => sum + (blob.size || 0), 0);
+      log(
+        chalk.white(`  ${serverList.blobs.length} blob(s), `) + chalk.yellow(formatBytes(totalSize))
+      );
+
+      [...serverList.blobs]
+        .sort((a, b) => (b.uploaded || 0) - (a.uploaded || 0))
+        .forEach((blob) => {
+          const uploaded = blob.uploaded
+            ? new Date(blob.uploaded * 1000).toLocaleString()
+            : 'unknown date';
+          log(
+            chalk.gray(`  ${blob.sha256}  `) +
+              chalk.white(formatBytes(blob.size || 0).padStart(9)) +
+              chalk.gray(`  ${uploaded}  ${blob.type || ''}`)
+          );
+        });
+    });
+
+    exitCommand(servers.some((serverList) => serverList.error) ? 1 : 0);
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Failed to list blobs: ${error}`));
+    exitCommand(1);
+  }
+}
+
+export async function blobsGcCommand(options: BlobsGcOptions): Promise<void> {
+  const deployment = new DeploymentManager();
+
+  try {
+    log(chalk.cyan('\n🧹 Blob Garbage Collection\n'));
+    if (!(await ensureProjectConfig(!options.dryRun))) {
+      return;
+    }
+
+    const spinner = ora('Comparing stored blobs with the published site...').start();
+    let plan;
+    try {
+      plan = await deployment.planBlobGarbageCollection(options.keepLast);
+      spinner.stop();
+    } catch (error) {
+      spinner.fail('Could not determine orphaned blobs');
+      throw error;
+    }
+
+    log(
+      chalk.white('🔗 Blobs referenced by the current site: ') +
+        chalk.yellow(plan.referencedCount.toString())
+    );
+    if (options.keepLast) {
+      log(
+        chalk.white(`🛡️  Protected by the last ${options.keepLast} deployment(s): `) +
+          chalk.yellow(plan.protectedCount.toString())
+      );
+    }
+    if (plan.unknownCount > 0) {
+      log(
+        chalk.white('🔒 Kept, not from a recorded deployment: ') +
+          chalk.yellow(plan.unknownCount.toString())
+      );
+    }
+    plan.servers
+      .filter((serverList) => serverList.error)
+      .forEach((serverList) => {
+        log(chalk.yellow(`⚠️  Skipping ${serverList.server}: ${serverList.error}`));
+      });
+
+    if (plan.orphans.length === 0) {
+      log(chalk.green('\n✅ No orphaned blobs found.'));
+      exitCommand(0);
+    }
+
+    const totalSize = plan.orphans.reduce((sum, orphan) => sum + (orphan.blob.size || 0), 0);
+    log(
+      chalk.white(`\n🗑️  Orphaned blobs: `) +
+        chalk.yellow(plan.orphans.length.toString()) +
+        chalk.gray(` (${formatBytes(totalSize)})`)
+    );
+    plan.orphans.forEach(({ server, blob }) => {
+      log(
+        chalk.gray(`  ${blob.sha256}  `) +
+          chalk.white(formatBytes(blob.size || 0).padStart(9)) +
+          chalk.gray(`  ${server}`)
+      );
+    });
+
+    if (options.dryRun) {
+      log(chalk.yellow('\n🧪 Dry run: no blobs were deleted.'));
+      exitCommand(0);
+    }
+
+    const confirm = await prompt(
+      [
+        {
+          type: 'confirm',
+          name: 'delete',
+          message: `Delete ${plan.orphans.length} orphaned blob(s)? This cannot be undone.`,
+          default: false,
+        },
+      ],
+      { fallback: { delete: true } }
+    );
+
+    if (!confirm.delete) {
+      log(chalk.yellow('\n⏸️  Garbage collection cancelled.'));
+      return;
+    }
+
+    const deleteSpinner = ora('Deleting orphaned blobs...').start();
+    const results = await deployment.deleteBlobs(plan.orphans);
+    deleteSpinner.stop();
+
+    const failed = results.filter((result) => !result.success);
+    log(chalk.green('\n✅ Deleted: ') + chalk.yellow((results.length - failed.length).toString()));
+    failed.forEach((result) => {
+      log(chalk.red(`  ❌ ${result.sha256} on ${result.server}: ${result.error}`));
+    });
+
+    exitCommand(failed.length > 0 ? 1 : 0);
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Garbage collection failed: ${error}`));
+    exitCommand(1);
+  }
+}
+
+async function ensureProjectConfig(requireSigner: boolean): Promise<boolean> {
+  const config = await ConfigManager.getInstance();
+
+  log(chalk.white('Project: ') + chalk.yellow(path.basename(process.cwd())));
+
+  if (!(await config.hasLocalConfig())) {
+    log(chalk.red('❌ No local configuration found for this project!'));
+    log(
+      chalk.white('Please run: ') +
+        chalk.green('nostr-deploy-cli auth') +
+        chalk.white(' to set up authentication')
+    );
+    return false;
+  }
+
+  if (requireSigner && !canSign(config.getConfig().nostr)) {
+    log(chalk.red('❌ A private key or bunker is required to authorize blob deletion.'));
+    log(chalk.white('Please run: ') + chalk.green('nostr-deploy-cli auth'));
+    return false;
+  }
+  if (requireSigner) {
+    await unlockSigner(config.getConfig().nostr);
+  }
+
+  return true;
+}
@@ -1,25 +1,48 @@
 import chalk from 'chalk';
-import inquirer from 'inquirer';
 import * as path from 'path';
-import { ConfigOptions } from '../types';
+import { ConfigOptions, ConfigScopeOptions } from '../types';
 import { ConfigManager } from '../utils/config';
+import {
+  CONFIG_KEY_PATHS,
+  formatConfigValue,
+  isConfigKey,
+  isSecretKey,
+  parseConfigValue,
+  SECRET_KEY_PATHS,
+  validateConfigValue,
+} from '../utils/config-schema';
+import {
+  ConfigGetJsonResult,
+  ConfigListJsonResult,
+  ConfigValueJsonResult,
+  emitJsonError,
+  emitJsonResult,
+  exitCommand,
+  log,
+  redactConfig,
+} from '../utils/output';
+import { prompt } from '../utils/prompt';
 
 export async function configCommand(options: ConfigOptions): Promise<void> {
   const config = await ConfigManager.getInstance();
 
   try {
+    if (options.global) {
+      config.setScope('user');
+    }
     const projectName = path.basename(process.cwd());
     const hasLocalConfig = await config.hasLocalConfig();
 
-    console.log(chalk.cyan('\n⚙️  Deployment Configuration\n'));
-    console.log(chalk.white('Project: ') + chalk.yellow(projectName));
-    console.log(chalk.white('Config: ') + chalk.gray(config.getConfigPath()));
+    log(chalk.cyan('\n⚙️  Deployment Configuration\n'));
+    log(chalk.white('Project: ') + chalk.yellow(projectName));
+    log(chalk.white('Config: ') + chalk.gray(config.getConfigPath()));
 
-    if (!hasLocalConfig) {
-      console.log(chalk.yellow('\n⚠️  No local configuration found for this project.'));
-      console.log(chalk.white('You need to set up authentication first:'));
-      console.log(chalk.green('  nostr-deploy-cli auth'));
-      console.log(chalk.white('Then you can configure deployment settings.'));
+    // Defaults shared by all projects can be saved before any project is set up
+    if (!hasLocalConfig && !options.global) {
+      log(chalk.yellow('\n⚠️  No local configuration found for this project.'));
+      log(chalk.white('You need to set up authentication first:'));
+      log(chalk.green('  nostr-deploy-cli auth'));
+      log(chalk.white('Then you can configure deployment settings.'));
       return;
     }
 
@@ -27,71 +50,70 @@ export async function configCommand(options: ConfigOptions): Promise<void> {
 
     // Handle command line options
     if (options.relays) {
-      // Handle both comma-separated and space-separated relays
-      const relayList = options.relays
-        .flatMap((relay) =>
-          relay.includes(',') ? relay.split(',').map((r) => r.trim()) : [relay.trim()]
-        )
-        .filter((relay) => relay.length > 0);
-
-      await config.setNostrRelays(relayList);
-      console.log(chalk.green(`✅ Updated Nostr relays (${relayList.length} relays)`));
+      const relayList = parseRelayList(options.relays);
+      await config.setConfigValue('nostr.relays', relayList);
+      log(chalk.green(`✅ Updated Nostr relays (${relayList.length} relays)`));
+    }
+
+    if (options.authRelays) {
+      const relayList = parseRelayList(options.authRelays);
+      await config.setConfigValue('nostr.authRelays', relayList);
+      log(chalk.green(`✅ Updated relays allowed to authenticate (${relayList.length} relays)`));
     }
 
     if (options.blossom) {
-      await config.setBlossomServers([options.blossom]);
-      console.log(chalk.green(`✅ Updated Blossom servers: ${options.blossom}`));
+      await config.setConfigValue('blossom.servers', [options.blossom]);
+      log(chalk.green(`✅ Updated Blossom servers: ${options.blossom}`));
     }
 
     if (options.domain) {
-      const updatedConfig = config.getConfig();
-      if (updatedConfig.deployment) {
-        updatedConfig.deployment.baseDomain = options.domain;
-      } else {
-        updatedConfig.deployment = {
-          baseDomain: options.domain,
-        };
-      }
-      await config.updateConfig(updatedConfig);
-      console.log(chalk.green(`✅ Updated base domain: ${options.domain}`));
+      await config.setConfigValue('deployment.baseDomain', options.domain);
+      log(chalk.green(`✅ Updated base domain: ${options.domain}`));
     }
 
     // If no command line options provided, show interactive configuration
-    if (!options.relays && !options.blossom && !options.domain) {
-      console.log(chalk.white('\nCurrent project configuration:'));
-      console.log(
+    if (!options.relays && !options.authRelays && !options.blossom && !options.domain) {
+      log(chalk.white('\nCurrent project configuration:'));
+      log(
         chalk.white('  Nostr relays: ') +
           chalk.gray(currentConfig.nostr?.relays?.join(', ') || 'Not configured')
       );
-      console.log(
+      log(
+        chalk.white('  NIP-42 auth relays: ') +
+          chalk.gray(currentConfig.nostr?.authRelays?.join(', ') || 'None')
+      );
+      log(
         chalk.white('  Blossom servers: ') +
           chalk.gray((currentConfig.blossom?.servers || []).join(', ') || 'Not configured')
       );
-      console.log(
+      log(
         chalk.white('  Base domain: ') +
           chalk.gray(currentConfig.deployment?.baseDomain || 'Not configured')
       );
 
-      const configChoice = await inquirer.prompt([
-        {
-          type: 'checkbox',
-          name: 'settings',
-          message: 'What would you like to configure for this project?',
-          choices: [
-            { name: '📡 Nostr Relays', value: 'relays' },
-            { name: '🌸 Blossom Servers', value: 'blossom' },
-            { name: '🌐 Base Domain', value: 'domain' },
-          ],
-        },
-      ]);
+      const configChoice = await prompt(
+        [
+          {
+            type: 'checkbox',
+            name: 'settings',
+            message: 'What would you like to configure for this project?',
+            choices: [
+              { name: '📡 Nostr Relays', value: 'relays' },
+              { name: '🌸 Blossom Servers', value: 'blossom' },
+              { name: '🌐 Base Domain', value: 'domain' },
+            ],
+          },
+        ],
+        { hint: 'pass --relays, --auth-relays, --blossom or --domain' }
+      );
 
       if (configChoice.settings.length === 0) {
-        console.log(chalk.yellow('\n⏸️  No changes made.'));
+        log(chalk.yellow('\n⏸️  No changes made.'));
         return;
       }
 
       if (configChoice.settings.includes('relays')) {
-        const relaysInput = await inquirer.prompt([
+        const relaysInput = await prompt([
           {
             type: 'input',
             name: 'relayUrls',
@@ -102,27 +124,17 @@ export async function configCommand(options: ConfigOptions): Promise<void> {
             filter: (input: string) => input.split(',').map((r) => r.trim()),
             validate: (input: string[]) => {
               if (input.length === 0) return 'Please enter at least one relay URL';
-              const validUrls = input.every((url) => {
-                try {
-                  const parsed = new URL(url);
-                  return parsed.protocol === 'wss:' || parsed.protocol === 'ws:';
-                } catch {
-                  return false;
-                }
-              });
-              return validUrls || 'Please enter valid WebSocket URLs (wss:// or ws://)';
+              return validateConfigValue('nostr.relays', input) ?? true;
             },
           },
         ]);
 
         await config.setNostrRelays(relaysInput.relayUrls);
-        console.log(
-          chalk.green(`✅ Updated Nostr relays (${relaysInput.relayUrls.length} relays)`)
-        );
+        log(chalk.green(`✅ Updated Nostr relays (${relaysInput.relayUrls.length} relays)`));
       }
 
       if (configChoice.settings.includes('blossom')) {
-        const blossomInput = await inquirer.prompt([
+        const blossomInput = await prompt([
           {
             type: 'input',
             name: 'servers',
@@ -143,12 +155,7 @@ export async function configCommand(options: ConfigOptions): Promise<void> {
               if (servers.length === 0) {
                 return 'Please enter at least one server URL';
               }
-              for (const server of servers) {
-                if (!server.startsWith('http://') && !server.startsWith('https://')) {
-                  return `Invalid URL: ${server}. URLs must start with http:// or https://`;
-                }
-              }
-              return true;
+              return validateConfigValue('blossom.servers', servers) ?? true;
             },
           },
         ]);
@@ -158,64 +165,278 @@ export async function configCommand(options: ConfigOptions): Promise<void> {
           .map((s: string) => s.trim())
           .filter((s: string) => s.length > 0);
         await config.setBlossomServers(servers);
-        console.log(chalk.green(`✅ Updated Blossom servers: ${servers.join(', ')}`));
+        log(chalk.green(`✅ Updated Blossom servers: ${servers.join(', ')}`));
       }
 
       if (configChoice.settings.includes('domain')) {
-        const domainInput = await inquirer.prompt([
+        const domainInput = await prompt([
           {
             type: 'input',
             name: 'baseDomain',
             message: 'Enter base domain:',
             default: currentConfig.deployment?.baseDomain || 'nostrdeploy.com',
-            validate: (input: string) => {
-              // Basic domain validation
-              const domainPattern =
-                /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
-              return domainPattern.test(input) || 'Please enter a valid domain name';
-            },
+            validate: (input: string) =>
+              validateConfigValue('deployment.baseDomain', input) ?? true,
           },
         ]);
 
-        const updatedConfig = config.getConfig();
-        if (updatedConfig.deployment) {
-          updatedConfig.deployment.baseDomain = domainInput.baseDomain;
-        } else {
-          updatedConfig.deployment = {
-            baseDomain: domainInput.baseDomain,
-          };
-        }
-        await config.updateConfig(updatedConfig);
-        console.log(chalk.green(`✅ Updated base domain: ${domainInput.baseDomain}`));
+        await config.setBaseDomain(domainInput.baseDomain);
+        log(chalk.green(`✅ Updated base domain: ${domainInput.baseDomain}`));
       }
     }
 
     // Check if configuration is complete
     if (config.isConfigured()) {
-      console.log(chalk.cyan('\n🎉 Project configuration complete!'));
-      console.log(
+      log(chalk.cyan('\n🎉 Project configuration complete!'));
+      log(
         chalk.white('You can now deploy sites from this project using: ') +
           chalk.green('nostr-deploy-cli deploy')
       );
-      console.log(
-        chalk.white('View complete project info with: ') + chalk.green('nostr-deploy-cli info')
-      );
+      log(chalk.white('View complete project info with: ') + chalk.green('nostr-deploy-cli info'));
     } else {
-      console.log(chalk.yellow('\n⚠️  Project configuration incomplete.'));
-      console.log(chalk.white('Make sure to configure:'));
+      log(chalk.yellow('\n⚠️  Project configuration incomplete.'));
+      log(chalk.white('Make sure to configure:'));
 
       const currentConfig = config.getConfig();
       if (!currentConfig.nostr?.publicKey) {
-        console.log(chalk.white('  • Authentication: ') + chalk.green('nostr-deploy-cli auth'));
+        log(chalk.white('  • Authentication: ') + chalk.green('nostr-deploy-cli auth'));
       }
       if (!currentConfig.blossom?.servers || currentConfig.blossom.servers.length === 0) {
-        console.log(chalk.white('  • Blossom server URLs'));
+        log(chalk.white('  • Blossom server URLs'));
       }
 
-      console.log(chalk.white('  • View current status: ') + chalk.green('nostr-deploy-cli info'));
+      log(chalk.white('  • View current status: ') + chalk.green('nostr-deploy-cli info'));
     }
   } catch (error) {
     console.error(chalk.red(`\n❌ Configuration failed: ${error}`));
-    process.exit(1);
+    exitCommand(1);
   }
 }
+
+/**
+ * Create nostr-deploy.config.json with the settings currently in effect
+ */
+export async function configInitCommand(): Promise<void> {
+  const config = await ConfigManager.getInstance();
+
+  try {
+    log(chalk.cyan('\n📝 Create Project Config File\n'));
+    const currentConfig = config.getConfig();
+
+    const configPath = await config.initProjectConfig({
+      nostr: {
+        relays: currentConfig.nostr?.relays?.length
+          ? currentConfig.nostr.relays
+          : [
+              'wss://relay.nostr.band',
+              'wss://nostrue.com',
+              'wss://relay.damus.io',
+              'wss://purplerelay.com',
+              'wss://relay.primal.net',
+            ],
+      },
+      blossom: {
+        servers: currentConfig.blossom?.servers?.length
+          ? currentConfig.blossom.servers
+          : [
+              'https://cdn.hzrd149.com',
+              'https://blossom.primal.net',
+              'https://blossom.band',
+              'https://blossom.f7z.io',
+            ],
+      },
+      deployment: { baseDomain: currentConfig.deployment!.baseDomain },
+    });
+
+    log(chalk.green(`✅ Created ${path.basename(configPath)}`));
+    log(chalk.white('Commit it to share relays, servers and deploy options.'));
+    log(
+      chalk.white('Your key stays in ') + chalk.gray('.env.nostr-deploy.local') + chalk.white('.')
+    );
+
+    const sources = config.getSources();
+    if (Object.keys(sources).some((key) => sources[key] === 'project' && !isSecretKey(key))) {
+      log(chalk.yellow('\n⚠️  .env.nostr-deploy.local has settings that override the new file.'));
+      log(chalk.white('Move them with: ') + chalk.green('nostr-deploy-cli config migrate'));
+    }
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Creating the project config file failed: ${error}`));
+    exitCommand(1);
+  }
+}
+
+/**
+ * Move everything but the key from .env.nostr-deploy.local to nostr-deploy.config.json
+ */
+export async function configMigrateCommand(): Promise<void> {
+  const config = await ConfigManager.getInstance();
+
+  try {
+    log(chalk.cyan('\n🚚 Migrate Settings to the Project Config File\n'));
+    const moved = await config.migrateToProjectConfig();
+
+    if (moved.length === 0) {
+      log(chalk.green('✅ .env.nostr-deploy.local only holds secrets, nothing to move.'));
+      return;
+    }
+
+    const projectConfigPath = config.getProjectConfigLayer().path!;
+    log(chalk.green(`✅ Moved ${moved.length} settings to ${path.basename(projectConfigPath)}:`));
+    moved.forEach((keyPath) => log(chalk.white('  • ') + chalk.gray(keyPath)));
+    log(chalk.white('\nCommit it; .env.nostr-deploy.local keeps only your key.'));
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Migrating the configuration failed: ${error}`));
+    exitCommand(1);
+  }
+}
+
+/**
+ * Print the effective value of a key path, in the form `config set` reads
+ */
+export async function configGetCommand(keyPath: string): Promise<void> {
+  const config = await ConfigManager.getInstance();
+
+  try {
+    if (!isConfigKey(keyPath) && !isSecretKey(keyPath)) {
+      throw new Error(`unknown key "${keyPath}"`);
+    }
+
+    const result = getConfigValueResult(config, keyPath);
+    if (result.value === undefined) {
+      // Like `git config`, an unset key exits non-zero without output
+      exitCommand(1);
+    }
+    emitJsonResult<ConfigGetJsonResult>(result);
+    log(formatConfigValue(result.value));
+  } catch (error) {
+    emitJsonError(error);
+    console.error(chalk.red(`❌ ${error instanceof Error ? error.message : error}`));
+    exitCommand(1);
+  }
+}
+
+/**
+ * Validate and save one setting, e.g. `config set blossom.servers https://a,https://b`
+ */
+export async function configSetCommand(
+  keyPath: string,
+  values: string[],
+  options: ConfigScopeOptions
+): Promise<void> {
+  const config = await ConfigManager.getInstance();
+
+  try {
+    if (options.global) {
+      config.setScope('user');
+    }
+    const value = parseConfigValue(keyPath, values.join(','));
+    await config.setConfigValue(keyPath, value);
+    log(chalk.green(`✅ ${keyPath} = ${formatConfigValue(value)}`));
+  } catch (error) {
+    console.error(chalk.red(`❌ ${error instanceof Error ? error.message : error}`));
+    exitCommand(1);
+  }
+}
+
+export async function configUnsetCommand(
+  keyPath: string,
+  options: ConfigScopeOptions
+): Promise<void> {
+  const config = await ConfigManager.getInstance();
+
+  try {
+    if (options.global) {
+      config.setScope('user');
+    }
+    await config.unsetConfigValue(keyPath);
+    log(chalk.green(`✅ Removed ${keyPath}`));
+
+    const source = config.getSources()[keyPath];
+    if (source) {
+      log(
+        chalk.yellow(`⚠️  ${keyPath} is still set in the ${source} layer: `) +
+          chalk.gray(formatConfigValue(config.getValue(keyPath)))
+      );
+    }
+  } catch (error) {
+    console.error(chalk.red(`❌ ${error instanceof Error ? error.message : error}`));
+    exitCommand(1);
+  }
+}
+
+/**
+ * Print every effective value and the layer it comes from
+ */
+export async function configListCommand(): Promise<void> {
+  const config = await ConfigManager.getInstance();
+
+  try {
+    const results = [...SECRET_KEY_PATHS, ...CONFIG_KEY_PATHS]
+      .map((keyPath) => getConfigValueResult(config, keyPath))
+      .filter((result) => result.value !== undefined);
+    emitJsonResult<ConfigListJsonResult>(results);
+
+    results.forEach(({ key, value, source }) => {
+      log(chalk.white(`${key} = `) + formatConfigValue(value) + chalk.gray(`  (${source})`));
+    });
+  } catch (error) {
+    emitJsonError(error);
+    console.error(chalk.red(`❌ ${error instanceof Error ? error.message : error}`));
+    exitCommand(1);
+  }
+}
+
+/**
+ * Check every layer and exit non-zero when the configuration is broken, e.g. in CI before a deploy
+ */
+export async function configValidateCommand(): Promise<void> {
+  log(chalk.cyan('\n🔎 Validate Configuration\n'));
+  ConfigManager.setReportProblems(false);
+
+  let config: ConfigManager;
+  try {
+    config = await ConfigManager.getInstance();
+  } catch (error) {
+    emitJsonError(error);
+    console.error(chalk.red(`❌ ${error instanceof Error ? error.message : error}`));
+    exitCommand(1);
+  }
+
+  const warnings = config.getWarnings();
+  const problems = config.validate();
+  warnings.forEach((warning) => log(chalk.yellow(`⚠️  ${warning}`)));
+  problems.forEach((problem) => log(chalk.red(`❌ ${problem}`)));
+
+  // Unknown keys are usually typos, so the setting they were meant for is missing
+  const count = warnings.length + problems.length;
+  if (count > 0) {
+    const message = `Configuration has ${count} problem${count === 1 ? '' : 's'}`;
+    emitJsonError(message);
+    log(chalk.red(`\n❌ ${message}`));
+    exitCommand(1);
+  }
+  log(chalk.green('✅ Configuration is valid'));
+}
+
+function getConfigValueResult(config: ConfigManager, keyPath: string): ConfigValueJsonResult {
+  const [section, key] = keyPath.split('.');
+  const redacted = redactConfig(config.getConfig()) as {
+    [section: string]: { [key: string]: unknown } | undefined;
+  };
+  return {
+    key: keyPath,
+    value: redacted[section]?.[key],
+    source: config.getSources()[keyPath] || 'default',
+  };
+}
+
+/**
+ * Handle both comma-separated and space-separated relay URLs
+ */
+function parseRelayList(relays: string[]): string[] {
+  return relays
+    .flatMap((relay) =>
+      relay.includes(',') ? relay.split(',').map((r) => r.trim()) : [relay.trim()]
+    )
+    .filter((relay) => relay.length > 0);
+}
@@ -2,16 +2,28 @@ import chalk from 'chalk';
 import * as fs from 'fs-extra';
 import ora from 'ora';
 import * as path from 'path';
-import { DeployOptions } from '../types';
+import { DeployOptions, DeploySettings } from '../types';
 import { ConfigManager } from '../utils/config';
-import { DeploymentManager } from '../utils/deployment';
-import { NostrManager } from '../utils/nostr';
+import { DeploymentManager, DeploymentPlan } from '../utils/deployment';
+import { collectFiles, IgnoreMatcher } from '../utils/ignore';
+import { encryptPrivateKey, PASSPHRASE_ENV } from '../utils/ncryptsec';
+import { NostrManager, RelayResult } from '../utils/nostr';
+import {
+  DeployJsonResult,
+  DryRunJsonResult,
+  emitJsonError,
+  emitJsonResult,
+  exitCommand,
+  log,
+} from '../utils/output';
+import { isInteractive } from '../utils/prompt';
+import { canSign, unlockSigner } from '../utils/signer';
 
 async function performAutoSetup(): Promise<void> {
   const config = await ConfigManager.getInstance();
   const nostr = new NostrManager();
 
-  console.log(chalk.cyan('\n🔐 Skip-setup mode: Checking for existing configuration...\n'));
+  log(chalk.cyan('\n🔐 Skip-setup mode: Checking for existing configuration...\n'));
 
   // Check if there's already local configuration
   const hasLocalConfig = await config.hasLocalConfig();
@@ -20,26 +32,32 @@ async function performAutoSetup(): Promise<void> {
     const userConfig = config.getConfig();
 
     // Check if we have existing auth configuration (either private key or public key)
-    if (userConfig.nostr?.publicKey || userConfig.nostr?.privateKey) {
-      console.log(chalk.green('✅ Found existing authentication configuration!'));
-
-      if (userConfig.nostr.privateKey) {
-        console.log(chalk.blue('🔑 Reusing existing private key for deployment'));
+    if (userConfig.nostr?.publicKey || canSign(userConfig.nostr)) {
+      log(chalk.green('✅ Found existing authentication configuration!'));
+
+      if (canSign(userConfig.nostr)) {
+        log(
+          chalk.blue(
+            userConfig.nostr?.bunker
+              ? '🔑 Reusing remote signer (bunker) for deployment'
+              : '🔑 Reusing existing private key for deployment'
+          )
+        );
         // Try to get the npub for display
         try {
           const npub = await nostr.getNpubSubdomain();
-          console.log(chalk.white('Public Key (npub): ') + chalk.blue(npub));
+          log(chalk.white('Public Key (npub): ') + chalk.blue(npub));
         } catch (error) {
-          console.log(
-            chalk.yellow('⚠️  Could not display npub, but proceeding with existing keys')
-          );
+          log(chalk.yellow('⚠️  Could not display npub, but proceeding with existing keys'));
         }
-      } else if (userConfig.nostr.publicKey) {
-        console.log(chalk.blue('🔍 Reusing existing public key (read-only mode)'));
-        console.log(chalk.yellow('⚠️  Note: Public key only - cannot sign new deployments'));
+      } else if (userConfig.nostr?.publicKey) {
+        log(chalk.blue('🔍 Reusing existing public key (read-only mode)'));
+        log(chalk.yellow('⚠️  Note: Public key only - cannot sign new deployments'));
       }
 
-      // Still ensure other configuration is set up with defaults if missing
+      // Still ensure other configuration is set up with defaults if missing. Settings
+      // that only come from NOSTR_DEPLOY_* variables are not written to disk.
+      const save = await config.hasConfigFile();
       if (!userConfig.nostr?.relays || userConfig.nostr.relays.length === 0) {
         const defaultRelays = [
           'wss://relay.nostr.band',
@@ -48,46 +66,59 @@ async function performAutoSetup(): Promise<void> {
           'wss://purplerelay.com',
           'wss://relay.primal.net',
         ];
-        await config.setNostrRelays(defaultRelays);
-        console.log(chalk.green('✅ Set up default Nostr relays'));
+        await config.setNostrRelays(defaultRelays, save);
+        log(chalk.green('✅ Set up default Nostr relays'));
       }
 
       if (!userConfig.blossom?.servers || userConfig.blossom.servers.length === 0) {
-        await config.setBlossomServers([
-          'https://cdn.hzrd149.com',
-          'https://blossom.primal.net',
-          'https://blossom.band',
-          'https://blossom.f7z.io',
-        ]);
-        console.log(chalk.green('✅ Set up default Blossom servers'));
-      }
-
-      if (!userConfig.deployment?.baseDomain) {
-        await config.setBaseDomain('nostrdeploy.com');
-        console.log(chalk.green('✅ Set up default base domain'));
+        await config.setBlossomServers(
+          [
+            'https://cdn.hzrd149.com',
+            'https://blossom.primal.net',
+            'https://blossom.band',
+            'https://blossom.f7z.io',
+          ],
+          save
+        );
+        log(chalk.green('✅ Set up default Blossom servers'));
       }
 
-      console.log(chalk.green('✅ Existing configuration ready for deployment!'));
+      log(chalk.green('✅ Existing configuration ready for deployment!'));
       return;
     }
   }
 
+  // A key generated in CI would be thrown away with the runner
+  if (!isInteractive()) {
+    throw new Error(
+      'No Nostr key configured. Set NOSTR_DEPLOY_NSEC or run `nostr-deploy-cli auth`; --skip-setup does not generate a throwaway key in non-interactive mode'
+    );
+  }
+
   // No existing auth config found, generate new keypair
-  console.log(
-    chalk.yellow('⚡ No existing auth config found - auto-generating new Nostr keypair...\n')
-  );
+  log(chalk.yellow('⚡ No existing auth config found - auto-generating new Nostr keypair...\n'));
 
   // Generate new keypair
   const keyPair = nostr.generateKeyPair();
 
-  console.log(chalk.green('✅ Key pair generated successfully!'));
-  console.log(chalk.white('Private Key (nsec): ') + chalk.red(keyPair.nsec));
-  console.log(chalk.white('Public Key (npub): ') + chalk.blue(keyPair.npub));
-  console.log(chalk.yellow('\n⚠️  IMPORTANT: Save your private key (nsec) securely!'));
-  console.log(chalk.yellow('⚠️  This key pair is specific to this deployment.'));
-
-  // Save the keypair
-  await config.setNostrKey(keyPair.privateKey, keyPair.publicKey);
+  log(chalk.green('✅ Key pair generated successfully!'));
+  log(chalk.white('Private Key (nsec): ') + chalk.red(keyPair.nsec));
+  log(chalk.white('Public Key (npub): ') + chalk.blue(keyPair.npub));
+  log(chalk.yellow('\n⚠️  IMPORTANT: Save your private key (nsec) securely!'));
+  log(chalk.yellow('⚠️  This key pair is specific to this deployment.'));
+
+  // Save the keypair, encrypted when a passphrase is available without prompting
+  const passphrase = process.env[PASSPHRASE_ENV];
+  await config.setNostrKey(
+    passphrase ? encryptPrivateKey(keyPair.privateKey, passphrase) : keyPair.privateKey,
+    keyPair.publicKey
+  );
+  if (!passphrase) {
+    log(
+      chalk.yellow('⚠️  The key is stored unencrypted, encrypt it with: ') +
+        chalk.green('nostr-deploy-cli auth encrypt')
+    );
+  }
 
   // Set up minimal configuration with defaults
   const defaultRelays = [
@@ -110,12 +141,20 @@ async function performAutoSetup(): Promise<void> {
     ]);
   }
 
-  // Set up default domain if not configured
-  if (!userConfig.deployment?.baseDomain) {
-    await config.setBaseDomain('nostrdeploy.com');
-  }
+  log(chalk.green('✅ Auto-configuration complete!'));
+}
 
-  console.log(chalk.green('✅ Auto-configuration complete!'));
+/**
+ * Deploy settings from the project config file, overridden by the command line.
+ * Exclude and include patterns from both apply.
+ */
+function withDeployDefaults(options: DeployOptions, defaults: DeploySettings = {}): DeployOptions {
+  return {
+    ...defaults,
+    ...options,
+    exclude: [...(defaults.exclude || []), ...(options.exclude || [])],
+    include: [...(defaults.include || []), ...(options.include || [])],
+  };
 }
 
 export async function deployCommand(options: DeployOptions): Promise<void> {
@@ -124,38 +163,50 @@ export async function deployCommand(options: DeployOptions): Promise<void> {
   let spinner: ReturnType<typeof ora>;
 
   try {
-    console.log(chalk.cyan('\n🚀 Starting Deployment\n'));
+    log(chalk.cyan('\n🚀 Starting Deployment\n'));
+
+    options = withDeployDefaults(options, config.getConfig().deploy);
+    if (options.concurrency) {
+      config.setFlagOverrides({ blossom: { concurrency: options.concurrency } });
+    }
 
     const projectName = path.basename(process.cwd());
-    console.log(chalk.white('Project: ') + chalk.yellow(projectName));
+    log(chalk.white('Project: ') + chalk.yellow(projectName));
+
+    if (options.dryRun) {
+      log(chalk.yellow('🧪 Dry-run mode enabled - nothing will be uploaded or published'));
+      if (options.skipSetup) {
+        log(chalk.yellow('⚠️  --skip-setup is ignored in dry-run mode'));
+      }
+    }
 
     // Handle skip-setup flag
-    if (options.skipSetup) {
-      console.log(chalk.yellow('⚡ Skip-setup mode enabled - auto-configuring...'));
+    if (options.skipSetup && !options.dryRun) {
+      log(chalk.yellow('⚡ Skip-setup mode enabled - auto-configuring...'));
       await performAutoSetup();
     } else {
       // Check if user is authenticated and configured
       const hasLocalConfig = await config.hasLocalConfig();
       if (!hasLocalConfig) {
-        console.log(chalk.red('❌ No local configuration found for this project!'));
-        console.log(chalk.white('This project needs to be set up before you can deploy.'));
-        console.log(chalk.white('Please run the following commands first:'));
-        console.log(
+        log(chalk.red('❌ No local configuration found for this project!'));
+        log(chalk.white('This project needs to be set up before you can deploy.'));
+        log(chalk.white('Please run the following commands first:'));
+        log(
           chalk.white('  1. ') +
             chalk.green('nostr-deploy-cli auth') +
             chalk.white(' - Set up authentication for this project')
         );
-        console.log(
+        log(
           chalk.white('  2. ') +
             chalk.green('nostr-deploy-cli config') +
             chalk.white(' - Configure deployment settings')
         );
-        console.log(
+        log(
           chalk.white('  3. ') +
             chalk.green('nostr-deploy-cli info') +
             chalk.white(' - View project configuration')
         );
-        console.log(
+        log(
           chalk.white('Or use: ') +
             chalk.green('nostr-deploy-cli deploy --skip-setup') +
             chalk.white(' to auto-configure and deploy')
@@ -164,29 +215,29 @@ export async function deployCommand(options: DeployOptions): Promise<void> {
       }
 
       if (!config.isConfigured()) {
-        console.log(chalk.red('❌ Project configuration incomplete!'));
-        console.log(chalk.white('Please run the following commands to complete setup:'));
+        log(chalk.red('❌ Project configuration incomplete!'));
+        log(chalk.white('Please run the following commands to complete setup:'));
         const userConfig = config.getConfig();
         if (!userConfig.nostr?.publicKey) {
-          console.log(
+          log(
             chalk.white('  • ') +
               chalk.green('nostr-deploy-cli auth') +
               chalk.white(' - Set up authentication')
           );
         }
         if (!userConfig.blossom?.servers || userConfig.blossom.servers.length === 0) {
-          console.log(
+          log(
             chalk.white('  • ') +
               chalk.green('nostr-deploy-cli config') +
               chalk.white(' - Configure deployment settings')
           );
         }
-        console.log(
+        log(
           chalk.white('  • ') +
             chalk.green('nostr-deploy-cli info') +
             chalk.white(' - View current configuration')
         );
-        console.log(
+        log(
           chalk.white('Or use: ') +
             chalk.green('nostr-deploy-cli deploy --skip-setup') +
             chalk.white(' to auto-configure and deploy')
@@ -208,68 +259,122 @@ export async function deployCommand(options: DeployOptions): Promise<void> {
     }
 
     if (!buildDir) {
-      console.log(chalk.red('❌ No build directory found!'));
-      console.log(
-        chalk.white('Please specify a directory with: ') + chalk.green('--dir <directory>')
-      );
-      console.log(chalk.white('Common build directories: build, dist, public, out'));
+      log(chalk.red('❌ No build directory found!'));
+      log(chalk.white('Please specify a directory with: ') + chalk.green('--dir <directory>'));
+      log(chalk.white('Common build directories: build, dist, public, out'));
       return;
     }
 
-    console.log(chalk.blue(`📁 Using build directory: ${buildDir}`));
+    log(chalk.blue(`📁 Using build directory: ${buildDir}`));
 
     // Validate build directory
     if (!(await fs.pathExists(buildDir))) {
-      console.log(chalk.red(`❌ Build directory not found: ${buildDir}`));
+      log(chalk.red(`❌ Build directory not found: ${buildDir}`));
       return;
     }
 
-    // Get all files recursively to show accurate count
-    const getAllFiles = async (dirPath: string): Promise<string[]> => {
-      const files: string[] = [];
-      const items = await fs.readdir(dirPath, { withFileTypes: true });
-
-      for (const item of items) {
-        const fullPath = `${dirPath}/${item.name}`;
-
-        if (item.isDirectory()) {
-          const subFiles = await getAllFiles(fullPath);
-          files.push(...subFiles);
-        } else {
-          files.push(fullPath);
-        }
-      }
-
-      return files;
-    };
-
-    const files = await getAllFiles(buildDir);
+    // Get all files recursively to show accurate count, skipping ignored paths
+    const ignore = await IgnoreMatcher.load(process.cwd(), buildDir, {
+      exclude: options.exclude,
+      include: options.include,
+    });
+    const { files, ignored } = await collectFiles(buildDir, ignore);
     if (files.length === 0) {
-      console.log(chalk.red(`❌ Build directory is empty: ${buildDir}`));
+      log(chalk.red(`❌ Build directory is empty: ${buildDir}`));
       return;
     }
 
-    console.log(chalk.blue(`📄 Found ${files.length} files to deploy`));
+    if (ignored.length > 0) {
+      log(chalk.gray(`🙈 Ignoring ${ignored.length} path(s)`));
+      if (options.verbose) {
+        ignored.forEach((ignoredPath) => {
+          log(chalk.gray(`   - ${ignoredPath}`));
+        });
+      }
+    }
+
+    log(chalk.blue(`📄 Found ${files.length} files to deploy`));
+
+    if (options.dryRun) {
+      const plan = await deployment.planDeployment(buildDir, {
+        incremental: options.incremental,
+        keepStale: options.keepStale,
+        ignore,
+        spa: options.spa,
+        site: options.site,
+      });
+      emitJsonResult<DryRunJsonResult>(plan);
+      printDeploymentPlan(plan);
+      exitCommand(plan.hasPreflightFailures ? 1 : 0);
+    }
 
     // Start deployment
+    await unlockSigner(config.getConfig().nostr);
     spinner = ora('Preparing deployment...').start();
 
     try {
-      const result = await deployment.deployStaticSite(buildDir);
+      const result = await deployment.deployStaticSite(buildDir, {
+        incremental: options.incremental,
+        keepStale: options.keepStale,
+        ignore,
+        concurrency: options.concurrency,
+        spa: options.spa,
+        site: options.site,
+      });
 
       spinner.succeed('Deployment completed successfully!');
+      emitJsonResult<DeployJsonResult>(result);
 
-      console.log(chalk.green('\n🎉 Deployment Successful!\n'));
-      console.log(chalk.white('Deployment Details:'));
-      console.log(chalk.white('  🌐 URL: ') + chalk.cyan(`https://${result.fullUrl}`));
-      console.log(chalk.white('  🔑 NPub Subdomain: ') + chalk.blue(result.npubSubdomain));
-      console.log(chalk.white('  📅 Deployed: ') + chalk.gray(result.deployedAt.toLocaleString()));
-      console.log(chalk.white('  📁 Files: ') + chalk.yellow(result.fileCount.toString()));
+      log(chalk.green('\n🎉 Deployment Successful!\n'));
+      log(chalk.white('Deployment Details:'));
+      if (result.site) {
+        log(chalk.white('  🏷️  Site: ') + chalk.yellow(result.site));
+      }
+      log(chalk.white('  🌐 URL: ') + chalk.cyan(`https://${result.fullUrl}`));
+      log(chalk.white('  🔑 NPub Subdomain: ') + chalk.blue(result.npubSubdomain));
+      log(chalk.white('  📅 Deployed: ') + chalk.gray(result.deployedAt.toLocaleString()));
+      log(chalk.white('  📁 Files: ') + chalk.yellow(result.fileCount.toString()));
+
+      if (result.retries.uploads > 0 || result.retries.relayPublishes > 0) {
+        log(
+          chalk.white('  🔁 Retries: ') +
+            chalk.yellow(
+              `${result.retries.uploads} upload(s), ${result.retries.relayPublishes} relay publish(es)`
+            )
+        );
+      }
+
+      if (result.proofOfWork) {
+        log(
+          chalk.white('  ⛏️  Proof of Work: ') +
+            chalk.yellow(
+              `${result.proofOfWork.events} event(s) mined up to difficulty ${result.proofOfWork.maxDifficulty} in ${(result.proofOfWork.miningTimeMs / 1000).toFixed(1)}s`
+            )
+        );
+      }
+
+      if (result.changes) {
+        log(chalk.white('  📊 Changes:'));
+        log(chalk.white('    ➕ Added: ') + chalk.green(result.changes.added.length.toString()));
+        result.changes.added.forEach((filePath) => {
+          log(chalk.green(`       + ${filePath}`));
+        });
+        log(
+          chalk.white('    ✏️  Changed: ') + chalk.yellow(result.changes.changed.length.toString())
+        );
+        result.changes.changed.forEach((filePath) => {
+          log(chalk.yellow(`       ~ ${filePath}`));
+        });
+        log(
+          chalk.white('    ⏭️  Unchanged: ') +
+            chalk.gray(result.changes.unchanged.length.toString())
+        );
+      }
 
       if (result.staticFileEventResults && result.staticFileEventResults.length > 0) {
-        console.log(chalk.white('  📡 Static File Events:'));
+        log(chalk.white('  📡 Static File Events:'));
         result.staticFileEventResults.forEach((eventResult, index: number) => {
-          console.log(
+          log(
             chalk.white(`    ${index + 1}. `) +
               chalk.gray(eventResult.eventId.substring(0, 16) + '...')
           );
@@ -277,22 +382,31 @@ export async function deployCommand(options: DeployOptions): Promise<void> {
           const successCount = eventResult.relayResults.filter((r) => r.success).length;
           const totalCount = eventResult.relayResults.length;
           if (successCount === totalCount) {
-            console.log(chalk.white(`       ✅ Published to all ${totalCount} relays`));
+            log(chalk.white(`       ✅ Published to all ${totalCount} relays`));
           } else {
-            console.log(
-              chalk.yellow(`       ⚠️  Published to ${successCount}/${totalCount} relays`)
-            );
+            log(chalk.yellow(`       ⚠️  Published to ${successCount}/${totalCount} relays`));
             eventResult.relayResults.forEach((result) => {
               if (!result.success) {
-                console.log(chalk.red(`         ❌ ${result.relay}: ${result.error}`));
+                log(chalk.red(`         ❌ ${result.relay}: ${result.error}`));
               }
             });
           }
+          printAuthenticatedRelays(eventResult.relayResults);
+        });
+      }
+
+      if (result.missingOnOutbox) {
+        result.missingOnOutbox.forEach((coverage) => {
+          log(
+            chalk.yellow(
+              `  ⚠️  ${coverage.missing}/${coverage.total} event(s) missing from your outbox relay ${coverage.relay}, gateways may not find them`
+            )
+          );
         });
       }
 
       if (result.userServersEventResult) {
-        console.log(
+        log(
           chalk.white('  🌸 User Servers Event: ') +
             chalk.gray(result.userServersEventResult.eventId.substring(0, 16) + '...')
         );
@@ -302,53 +416,177 @@ export async function deployCommand(options: DeployOptions): Promise<void> {
         ).length;
         const totalCount = result.userServersEventResult.relayResults.length;
         if (successCount === totalCount) {
-          console.log(chalk.white(`       ✅ Published to all ${totalCount} relays`));
+          log(chalk.white(`       ✅ Published to all ${totalCount} relays`));
         } else {
-          console.log(chalk.yellow(`       ⚠️  Published to ${successCount}/${totalCount} relays`));
+          log(chalk.yellow(`       ⚠️  Published to ${successCount}/${totalCount} relays`));
           result.userServersEventResult.relayResults.forEach((result) => {
             if (!result.success) {
-              console.log(chalk.red(`         ❌ ${result.relay}: ${result.error}`));
+              log(chalk.red(`         ❌ ${result.relay}: ${result.error}`));
             }
           });
         }
+        printAuthenticatedRelays(result.userServersEventResult.relayResults);
       }
 
-      console.log(chalk.cyan('\n📖 About this deployment:'));
-      console.log(
-        chalk.white('Your site is deployed using the Pubkey Static Websites NIP standard.')
-      );
-      console.log(
+      if (result.spaFallback) {
+        log(
+          chalk.white('  🧭 SPA Fallback: ') +
+            chalk.gray(`${result.spaFallback.path} → /index.html`)
+        );
+      }
+
+      if (result.prunedPaths && result.prunedPaths.length > 0) {
+        log(chalk.white('  🧹 Pruned Stale Paths:'));
+        result.prunedPaths.forEach((prunedPath) => {
+          log(chalk.red(`       - ${prunedPath}`));
+        });
+        result.deletionEventResults?.forEach((eventResult) => {
+          log(
+            chalk.white('       🗑️  Deletion Event: ') +
+              chalk.gray(eventResult.eventId.substring(0, 16) + '...')
+          );
+          const successCount = eventResult.relayResults.filter((r) => r.success).length;
+          const totalCount = eventResult.relayResults.length;
+          if (successCount === totalCount) {
+            log(chalk.white(`       ✅ Published to all ${totalCount} relays`));
+          } else {
+            log(chalk.yellow(`       ⚠️  Published to ${successCount}/${totalCount} relays`));
+          }
+        });
+      }
+
+      if (result.manifestEventResults) {
+        log(
+          chalk.white('  📜 Deployment Manifest: ') +
+            chalk.gray(result.manifestEventResults[0].eventId.substring(0, 16) + '...') +
+            (result.manifestEventResults.length > 1
+              ? chalk.gray(` (${result.manifestEventResults.length} parts)`)
+              : '')
+        );
+      }
+
+      log(chalk.cyan('\n📖 About this deployment:'));
+      log(chalk.white('Your site is deployed using the Pubkey Static Websites NIP standard.'));
+      log(
         chalk.white('Each file is published as a kind 34128 event with path and hash information.')
       );
-      console.log(chalk.white('Your npub serves as your unique subdomain identifier.'));
+      log(chalk.white('Your npub serves as your unique subdomain identifier.'));
 
       // Exit successfully after deployment
-      process.exit(0);
+      exitCommand(0);
     } catch (error) {
       if (spinner) spinner.fail('Deployment failed');
       throw error;
     }
   } catch (error: unknown) {
+    emitJsonError(error);
     console.error(chalk.red(`\n❌ Deployment failed: ${error}`));
 
     // Provide helpful error messages
     const errorString = error instanceof Error ? error.message : String(error);
     if (errorString.includes('ENOENT')) {
-      console.log(
+      log(
         chalk.yellow('\n💡 Tip: Make sure your build directory exists and contains static files.')
       );
     } else if (errorString.includes('Network')) {
-      console.log(chalk.yellow('\n💡 Tip: Check your internet connection and try again.'));
+      log(chalk.yellow('\n💡 Tip: Check your internet connection and try again.'));
     } else if (errorString.includes('Authentication')) {
-      console.log(
+      log(
         chalk.yellow('\n💡 Tip: Run ') +
           chalk.green('nostr-deploy-cli auth') +
           chalk.yellow(' to set up authentication for this project.')
       );
     }
 
-    process.exit(1);
+    exitCommand(1);
+  }
+}
+
+function printDeploymentPlan(plan: DeploymentPlan): void {
+  log(chalk.cyan('\n📝 Deployment Plan (dry run)\n'));
+  if (plan.site) {
+    log(chalk.white('  🏷️  Site: ') + chalk.yellow(plan.site));
+  }
+  log(chalk.white('  🌐 URL: ') + chalk.cyan(`https://${plan.fullUrl}`));
+  log(chalk.white('  🔑 NPub Subdomain: ') + chalk.blue(plan.npubSubdomain));
+
+  log(chalk.white(`\n  📤 Files to upload (${plan.files.length}):`));
+  plan.files.forEach((file) => {
+    log(chalk.white(`    ${file.path}`));
+    log(
+      chalk.gray(`       sha256: ${file.sha256}`) +
+        chalk.gray(` | type: ${file.mimeType} | size: ${formatBytes(file.size)}`)
+    );
+    file.preflight.forEach((check) => {
+      if (check.alreadyStored) {
+        log(chalk.gray(`       📦 ${check.server}: already stored`));
+      } else if (check.allowed) {
+        const auth = check.requiresAuth ? ' (auth required)' : '';
+        log(chalk.green(`       ✅ ${check.server}: would accept upload${auth}`));
+      } else {
+        log(chalk.red(`       ❌ ${check.server}: ${check.reason}`));
+      }
+    });
+  });
+
+  if (plan.unchangedPaths.length > 0) {
+    log(chalk.white('\n  ⏭️  Unchanged: ') + chalk.gray(plan.unchangedPaths.length.toString()));
+  }
+
+  if (plan.ignoredFiles.length > 0) {
+    log(chalk.white(`\n  🙈 Ignored (${plan.ignoredFiles.length}):`));
+    plan.ignoredFiles.forEach((ignoredPath) => {
+      log(chalk.gray(`    ${ignoredPath}`));
+    });
   }
+
+  if (plan.notFoundMode === 'spa') {
+    log(chalk.white('\n  🧭 SPA fallback: ') + chalk.gray('/404.html → /index.html'));
+  } else if (plan.notFoundMode === 'none') {
+    log(chalk.yellow('\n  ⚠️  No 404.html: unknown paths will show the gateway error page'));
+  }
+
+  if (plan.stalePaths.length > 0) {
+    log(chalk.white(`\n  🧹 Stale paths to delete (${plan.stalePaths.length}):`));
+    plan.stalePaths.forEach((stalePath) => {
+      log(chalk.red(`    - ${stalePath}`));
+    });
+  }
+
+  log(chalk.white(`\n  📡 Events to publish (${plan.events.length}):`));
+  const kindCounts = new Map<number, number>();
+  plan.events.forEach((event) => {
+    kindCounts.set(event.kind, (kindCounts.get(event.kind) || 0) + 1);
+  });
+  kindCounts.forEach((count, kind) => {
+    log(chalk.white(`    • kind ${kind}: `) + chalk.yellow(count.toString()));
+  });
+  log(chalk.white('    Relays:'));
+  plan.relays.forEach((relay) => {
+    log(chalk.gray(`      ${relay}`));
+  });
+
+  log(chalk.white('\n  📦 Total upload size: ') + chalk.yellow(formatBytes(plan.totalBytes)));
+
+  if (plan.hasPreflightFailures) {
+    log(chalk.red('\n❌ Some Blossom servers would reject uploads (see above).'));
+  } else {
+    log(chalk.green('\n✅ All upload preflight checks passed.'));
+  }
+}
+
+function printAuthenticatedRelays(relayResults: RelayResult[]): void {
+  relayResults
+    .filter((result) => result.success && result.authenticated)
+    .forEach((result) => {
+      log(chalk.white(`         🔐 ${result.relay}: authenticated (NIP-42)`));
+    });
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
 export async function findBuildDirectory(): Promise<string | null> {
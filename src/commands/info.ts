@@ -1,123 +1,214 @@
 import chalk from 'chalk';
+import { nip19 } from 'nostr-tools';
 import * as path from 'path';
+import { InfoOptions } from '../types';
 import { ConfigManager } from '../utils/config';
+import { isEncryptedKey } from '../utils/ncryptsec';
+import {
+  emitJsonError,
+  emitJsonResult,
+  exitCommand,
+  InfoJsonResult,
+  log,
+  redactConfig,
+} from '../utils/output';
 import { NostrManager } from '../utils/nostr';
+import { getSiteSubdomain } from '../utils/site';
 
-export async function infoCommand(): Promise<void> {
+export async function infoCommand(options: InfoOptions = {}): Promise<void> {
   const config = await ConfigManager.getInstance();
   const nostr = new NostrManager();
 
   try {
-    console.log(chalk.cyan('\n📋 Local Project Configuration\n'));
+    log(chalk.cyan('\n📋 Local Project Configuration\n'));
 
     const hasLocalConfig = await config.hasLocalConfig();
     const configPath = config.getConfigPath();
     const currentDir = process.cwd();
     const projectName = path.basename(currentDir);
+    emitJsonResult<InfoJsonResult>(await getInfoJsonResult(config));
 
-    console.log(chalk.white('Project Details:'));
-    console.log(chalk.white('  📁 Project Name: ') + chalk.yellow(projectName));
-    console.log(chalk.white('  📍 Project Path: ') + chalk.gray(currentDir));
-    console.log(chalk.white('  ⚙️  Config Path: ') + chalk.gray(configPath));
-    console.log(
+    log(chalk.white('Project Details:'));
+    log(chalk.white('  📁 Project Name: ') + chalk.yellow(projectName));
+    log(chalk.white('  📍 Project Path: ') + chalk.gray(currentDir));
+    log(chalk.white('  ⚙️  Config Path: ') + chalk.gray(configPath));
+    log(
       chalk.white('  📄 Config Exists: ') +
-        (hasLocalConfig ? chalk.green('✅ Yes') : chalk.red('❌ No'))
+        ((await config.hasConfigFile()) ? chalk.green('✅ Yes') : chalk.red('❌ No'))
     );
+    const profile = config.getProfile();
+    if (profile) {
+      log(chalk.white('  👤 Profile: ') + chalk.yellow(profile));
+    }
+    const environmentVariables = config.getEnvironmentVariables();
+    if (environmentVariables.length > 0) {
+      log(
+        chalk.white('  🌱 Environment Overrides: ') + chalk.yellow(environmentVariables.join(', '))
+      );
+    }
+
+    log(chalk.white('\nConfiguration Layers (lowest precedence first):'));
+    config
+      .getLayers()
+      .filter((layer) => layer.path)
+      .forEach((layer) => {
+        log(
+          chalk.white(`  ${layer.exists ? '✅' : '➖'} ${layer.name}: `) + chalk.gray(layer.path)
+        );
+      });
 
     if (!hasLocalConfig) {
-      console.log(chalk.yellow('\n⚠️  No local configuration found for this project.'));
-      console.log(chalk.white('To set up authentication for this project, run:'));
-      console.log(chalk.green('  nostr-deploy-cli auth'));
-      console.log(chalk.white('To configure deployment settings, run:'));
-      console.log(chalk.green('  nostr-deploy-cli config'));
+      log(chalk.yellow('\n⚠️  No local configuration found for this project.'));
+      log(chalk.white('To set up authentication for this project, run:'));
+      log(chalk.green('  nostr-deploy-cli auth'));
+      log(chalk.white('To configure deployment settings, run:'));
+      log(chalk.green('  nostr-deploy-cli config'));
       return;
     }
 
     const userConfig = config.getConfig();
 
-    console.log(chalk.white('\nAuthentication Status:'));
+    log(chalk.white('\nAuthentication Status:'));
 
     if (userConfig.nostr?.publicKey) {
-      console.log(chalk.white('  🔑 Public Key: ') + chalk.green('✅ Configured'));
+      log(chalk.white('  🔑 Public Key: ') + chalk.green('✅ Configured'));
 
       try {
         const npub = await nostr.getNpubSubdomain();
-        console.log(chalk.white('  🌐 Your npub: ') + chalk.blue(npub));
+        log(chalk.white('  🌐 Your npub: ') + chalk.blue(npub));
 
         const baseDomain = userConfig.deployment?.baseDomain || 'nostrdeploy.com';
-        console.log(
-          chalk.white('  🌍 Deployment URL: ') + chalk.cyan(`https://${npub}.${baseDomain}`)
+        if (options.site) {
+          log(chalk.white('  🏷️  Site: ') + chalk.yellow(options.site));
+        }
+        log(
+          chalk.white('  🌍 Deployment URL: ') +
+            chalk.cyan(`https://${getSiteSubdomain(npub, options.site)}.${baseDomain}`)
         );
       } catch (error) {
-        console.log(chalk.white('  🌐 npub: ') + chalk.red('❌ Error generating npub'));
+        log(chalk.white('  🌐 npub: ') + chalk.red('❌ Error generating npub'));
       }
 
-      if (userConfig.nostr?.privateKey) {
-        console.log(chalk.white('  🔐 Private Key: ') + chalk.green('✅ Configured (can deploy)'));
-      } else {
-        console.log(
-          chalk.white('  🔐 Private Key: ') + chalk.yellow('⚠️  Not configured (read-only)')
+      if (userConfig.nostr?.bunker) {
+        log(
+          chalk.white('  🔐 Signer: ') + chalk.green('✅ Remote signer (NIP-46 bunker, can deploy)')
         );
+      } else if (userConfig.nostr?.privateKey) {
+        log(chalk.white('  🔐 Private Key: ') + chalk.green('✅ Configured (can deploy)'));
+        log(
+          chalk.white('  🔒 Encryption: ') +
+            (environmentVariables.includes('NOSTR_DEPLOY_NSEC')
+              ? chalk.gray('Read from NOSTR_DEPLOY_NSEC, not stored')
+              : isEncryptedKey(userConfig.nostr.privateKey)
+                ? chalk.green('✅ Encrypted with a passphrase (NIP-49)')
+                : chalk.yellow('⚠️  Stored unencrypted (run `nostr-deploy-cli auth encrypt`)'))
+        );
+      } else {
+        log(chalk.white('  🔐 Private Key: ') + chalk.yellow('⚠️  Not configured (read-only)'));
       }
     } else {
-      console.log(chalk.white('  🔑 Authentication: ') + chalk.red('❌ Not configured'));
+      log(chalk.white('  🔑 Authentication: ') + chalk.red('❌ Not configured'));
     }
 
-    console.log(chalk.white('\nNostr Configuration:'));
+    log(chalk.white('\nNostr Configuration:'));
     if (userConfig.nostr?.relays && userConfig.nostr.relays.length > 0) {
-      console.log(
+      log(
         chalk.white('  📡 Relays: ') +
           chalk.green(`✅ ${userConfig.nostr.relays.length} configured`)
       );
       userConfig.nostr.relays.forEach((relay, index) => {
-        console.log(chalk.white(`    ${index + 1}. `) + chalk.gray(relay));
+        log(chalk.white(`    ${index + 1}. `) + chalk.gray(relay));
       });
     } else {
-      console.log(chalk.white('  📡 Relays: ') + chalk.red('❌ Not configured'));
+      log(chalk.white('  📡 Relays: ') + chalk.red('❌ Not configured'));
     }
 
-    console.log(chalk.white('\nDeployment Configuration:'));
+    log(chalk.white('\nDeployment Configuration:'));
     if (userConfig.blossom?.servers && userConfig.blossom.servers.length > 0) {
-      console.log(chalk.white('  🌸 Blossom Servers: ') + chalk.green('✅ Configured'));
+      log(chalk.white('  🌸 Blossom Servers: ') + chalk.green('✅ Configured'));
       userConfig.blossom.servers.forEach((server, index) => {
-        console.log(chalk.white(`    ${index + 1}. `) + chalk.gray(server));
+        log(chalk.white(`    ${index + 1}. `) + chalk.gray(server));
       });
     } else {
-      console.log(chalk.white('  🌸 Blossom Servers: ') + chalk.red('❌ Not configured'));
+      log(chalk.white('  🌸 Blossom Servers: ') + chalk.red('❌ Not configured'));
     }
 
     if (userConfig.deployment?.baseDomain) {
-      console.log(chalk.white('  🌐 Base Domain: ') + chalk.green('✅ Configured'));
-      console.log(chalk.white('    Domain: ') + chalk.gray(userConfig.deployment.baseDomain));
+      log(chalk.white('  🌐 Base Domain: ') + chalk.green('✅ Configured'));
+      log(chalk.white('    Domain: ') + chalk.gray(userConfig.deployment.baseDomain));
     } else {
-      console.log(chalk.white('  🌐 Base Domain: ') + chalk.red('❌ Not configured'));
+      log(chalk.white('  🌐 Base Domain: ') + chalk.red('❌ Not configured'));
     }
 
-    console.log(chalk.white('\nConfiguration Status:'));
+    // Only where each value comes from, never the value, so keys stay out of the output
+    log(chalk.white('\nValue Sources:'));
+    const sources = config.getSources();
+    Object.keys(sources)
+      .sort()
+      .forEach((keyPath) => {
+        log(chalk.white(`  ${keyPath}: `) + chalk.gray(sources[keyPath]));
+      });
+
+    log(chalk.white('\nConfiguration Status:'));
     if (config.isConfigured()) {
-      console.log(chalk.green('  ✅ Ready to deploy! All required settings are configured.'));
-      console.log(chalk.white('\nNext steps:'));
-      console.log(chalk.white('  • Deploy your site: ') + chalk.green('nostr-deploy-cli deploy'));
-      console.log(
-        chalk.white('  • Check deployment status: ') + chalk.green('nostr-deploy-cli status')
-      );
+      log(chalk.green('  ✅ Ready to deploy! All required settings are configured.'));
+      log(chalk.white('\nNext steps:'));
+      log(chalk.white('  • Deploy your site: ') + chalk.green('nostr-deploy-cli deploy'));
+      log(chalk.white('  • Check deployment status: ') + chalk.green('nostr-deploy-cli status'));
     } else {
-      console.log(chalk.yellow('  ⚠️  Configuration incomplete. Missing required settings.'));
-      console.log(chalk.white('\nRequired next steps:'));
+      log(chalk.yellow('  ⚠️  Configuration incomplete. Missing required settings.'));
+      log(chalk.white('\nRequired next steps:'));
 
       if (!userConfig.nostr?.publicKey) {
-        console.log(
-          chalk.white('  • Set up authentication: ') + chalk.green('nostr-deploy-cli auth')
-        );
+        log(chalk.white('  • Set up authentication: ') + chalk.green('nostr-deploy-cli auth'));
       }
       if (!userConfig.blossom?.servers || userConfig.blossom.servers.length === 0) {
-        console.log(
+        log(
           chalk.white('  • Configure Blossom servers: ') + chalk.green('nostr-deploy-cli config')
         );
       }
     }
   } catch (error) {
+    emitJsonError(error);
     console.error(chalk.red(`\n❌ Failed to load configuration: ${error}`));
-    process.exit(1);
+    exitCommand(1);
   }
 }
+
+async function getInfoJsonResult(config: ConfigManager): Promise<InfoJsonResult> {
+  const userConfig = config.getConfig();
+  const nostrConfig = userConfig.nostr;
+  const publicKey = nostrConfig?.publicKey || null;
+
+  let signer: InfoJsonResult['identity']['signer'] = null;
+  if (nostrConfig?.bunker) {
+    signer = 'bunker';
+  } else if (isEncryptedKey(nostrConfig?.privateKey)) {
+    signer = 'encrypted-key';
+  } else if (nostrConfig?.privateKey) {
+    signer = 'local-key';
+  }
+
+  return {
+    project: {
+      name: path.basename(process.cwd()),
+      path: process.cwd(),
+      configPath: config.getConfigPath(),
+      configExists: await config.hasConfigFile(),
+      environmentOverrides: config.getEnvironmentVariables(),
+      profile: config.getProfile() || null,
+      layers: config
+        .getLayers()
+        .filter((layer) => layer.path)
+        .map(({ name, path: layerPath, exists }) => ({ name, path: layerPath!, exists })),
+    },
+    identity: {
+      publicKey,
+      npub: publicKey ? nip19.npubEncode(publicKey) : null,
+      signer,
+    },
+    config: redactConfig(userConfig),
+    sources: config.getSources(),
+    ready: config.isConfigured(),
+  };
+}
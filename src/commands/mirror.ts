@@ -0,0 +1,93 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import * as path from 'path';
+import { MirrorOptions } from '../types';
+import { ConfigManager } from '../utils/config';
+import { DeploymentManager } from '../utils/deployment';
+import { exitCommand, log } from '../utils/output';
+import { canSign, unlockSigner } from '../utils/signer';
+
+export async function mirrorCommand(options: MirrorOptions): Promise<void> {
+  const config = await ConfigManager.getInstance();
+  const deployment = new DeploymentManager();
+
+  try {
+    const projectName = path.basename(process.cwd());
+    log(chalk.cyan('\n🪞 Mirror Blobs\n'));
+    log(chalk.white('Project: ') + chalk.yellow(projectName));
+
+    const hasLocalConfig = await config.hasLocalConfig();
+    if (!hasLocalConfig) {
+      log(chalk.red('❌ No local configuration found for this project!'));
+      log(
+        chalk.white('Please run: ') +
+          chalk.green('nostr-deploy-cli auth') +
+          chalk.white(' to set up authentication')
+      );
+      return;
+    }
+
+    if (!canSign(config.getConfig().nostr)) {
+      log(chalk.red('❌ A private key or bunker is required to authorize mirror uploads.'));
+      log(chalk.white('Please run: ') + chalk.green('nostr-deploy-cli auth'));
+      return;
+    }
+    await unlockSigner(config.getConfig().nostr);
+
+    const spinner = ora('Mirroring blobs...').start();
+    let result;
+    try {
+      result = await deployment.mirrorSite(options.server);
+      spinner.stop();
+    } catch (error) {
+      spinner.fail('Mirror failed');
+      throw error;
+    }
+
+    log(chalk.white('\n📦 Blobs: ') + chalk.yellow(result.blobCount.toString()));
+
+    result.servers.forEach((serverResult) => {
+      const status = serverResult.failed.length === 0 ? chalk.green('✅') : chalk.red('❌');
+      log(`\n${status} ${chalk.cyan(serverResult.server)}`);
+      log(
+        chalk.white('  ⏭️  Already stored: ') + chalk.gray(serverResult.alreadyStored.toString())
+      );
+
+      const mirrored = serverResult.mirrored.filter((blob) => blob.method === 'mirror');
+      const reuploaded = serverResult.mirrored.filter((blob) => blob.method === 'reupload');
+      log(chalk.white('  🪞 Mirrored: ') + chalk.yellow(mirrored.length.toString()));
+      if (reuploaded.length > 0) {
+        log(
+          chalk.white('  ⬆️  Re-uploaded (no BUD-04 support): ') +
+            chalk.yellow(reuploaded.length.toString())
+        );
+      }
+
+      serverResult.failed.forEach((failure) => {
+        log(chalk.red(`       ${failure.sha256.substring(0, 16)}... ${failure.error}`));
+      });
+    });
+
+    if (result.unavailableBlobs.length > 0) {
+      log(
+        chalk.red(
+          `\n⚠️  ${result.unavailableBlobs.length} blob(s) are not stored on any known server. Redeploy to restore them.`
+        )
+      );
+    }
+
+    if (result.addedServers.length > 0) {
+      const successfulRelays =
+        result.userServersEventResult?.relayResults.filter((relay) => relay.success).length || 0;
+      log(chalk.green('\n📡 Added to your Blossom server list (kind 10063):'));
+      result.addedServers.forEach((server) => log(chalk.green(`       + ${server}`)));
+      log(chalk.white('  Published to ') + chalk.yellow(successfulRelays.toString()) + ' relay(s)');
+    }
+
+    const hasFailures = result.servers.some((serverResult) => serverResult.failed.length > 0);
+    exitCommand(hasFailures ? 1 : 0);
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Mirror failed: ${error}`));
+    exitCommand(1);
+  }
+}
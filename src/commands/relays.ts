@@ -0,0 +1,410 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import * as path from 'path';
+import { RelaysAddOptions, RelaysCheckOptions, RelaysPublishOptions } from '../types';
+import { ConfigManager } from '../utils/config';
+import { NostrManager, RelayCheckResult, SiteFileState } from '../utils/nostr';
+import { exitCommand, log } from '../utils/output';
+import { DEFAULT_MAX_POW_DIFFICULTY } from '../utils/pow';
+import { prompt } from '../utils/prompt';
+import { normalizeRelayUrl } from '../utils/relay-info';
+import { getWriteRelays, mergeRelayUrls, RelayListEntry } from '../utils/relay-list';
+import { canSign, unlockSigner } from '../utils/signer';
+import { formatBytes } from './deploy';
+
+export async function relaysCheckCommand(options: RelaysCheckOptions): Promise<void> {
+  const config = await ConfigManager.getInstance();
+  const nostr = new NostrManager();
+
+  try {
+    log(chalk.cyan('\n📡 Relay Check\n'));
+    if (!(await ensureProjectConfig(config))) {
+      return;
+    }
+
+    const userConfig = config.getConfig();
+    const relays = userConfig.nostr?.relays || [];
+    if (relays.length === 0) {
+      log(chalk.yellow('⚠️  No relays configured.'));
+      log(chalk.white('Add one with: ') + chalk.green('nostr-deploy-cli relays add <url>'));
+      return;
+    }
+
+    // Gateways need the static file events the site currently serves
+    const spinner = ora('Looking up your published site...').start();
+    const siteState = await nostr
+      .getSiteState(undefined, options.site)
+      .catch(() => new Map<string, SiteFileState>());
+    const eventIds = Array.from(siteState.values()).map((file) => file.eventId);
+    spinner.text = `Checking ${relays.length} relay(s)...`;
+
+    const results = await Promise.all(relays.map((relay) => nostr.checkRelay(relay, eventIds)));
+    spinner.stop();
+
+    if (eventIds.length > 0) {
+      log(chalk.white('Published site: ') + chalk.gray(`${eventIds.length} event(s)`));
+    } else {
+      log(chalk.gray('No published site found, event presence is not checked.'));
+    }
+
+    const authRelays = new Set((userConfig.nostr?.authRelays || []).map(normalizeRelayUrl));
+    const maxPowDifficulty = userConfig.nostr?.maxPowDifficulty || DEFAULT_MAX_POW_DIFFICULTY;
+    results.forEach((result) =>
+      printRelayCheck(result, authRelays.has(normalizeRelayUrl(result.relay)), maxPowDifficulty)
+    );
+
+    const unreachable = results.filter((result) => !result.reachable).length;
+    log('');
+    if (unreachable > 0) {
+      log(chalk.red(`❌ ${unreachable}/${results.length} relay(s) unreachable`));
+    } else {
+      log(chalk.green(`✅ All ${results.length} relay(s) reachable`));
+    }
+
+    await nostr.close();
+    exitCommand(unreachable > 0 ? 1 : 0);
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Relay check failed: ${error}`));
+    exitCommand(1);
+  }
+}
+
+export async function relaysAddCommand(urls: string[], options: RelaysAddOptions): Promise<void> {
+  const config = await ConfigManager.getInstance();
+  const nostr = new NostrManager();
+
+  try {
+    log(chalk.cyan('\n📡 Add Relays\n'));
+    if (!(await ensureProjectConfig(config))) {
+      return;
+    }
+
+    const relays = [...(config.getConfig().nostr?.relays || [])];
+    const configured = new Set(relays.map(normalizeRelayUrl));
+    let added = 0;
+    let failed = 0;
+
+    for (const url of urls) {
+      const relay = url.trim().replace(/\/+$/, '');
+      if (!isRelayUrl(relay)) {
+        log(chalk.red(`❌ ${url}: not a WebSocket URL (wss:// or ws://)`));
+        failed++;
+        continue;
+      }
+      if (configured.has(normalizeRelayUrl(relay))) {
+        log(chalk.gray(`⏭️  ${relay} is already configured`));
+        continue;
+      }
+
+      const spinner = ora(`Checking ${relay}...`).start();
+      const result = await nostr.checkRelay(relay);
+      if (!result.reachable && !options.force) {
+        spinner.fail(`${relay} is unreachable: ${result.error}`);
+        log(chalk.gray('   Use --force to add it anyway'));
+        failed++;
+        continue;
+      }
+      spinner.succeed(
+        result.reachable
+          ? `${relay} (connected in ${result.connectMs} ms)`
+          : `${relay} (unreachable, added with --force)`
+      );
+
+      relays.push(relay);
+      configured.add(normalizeRelayUrl(relay));
+      added++;
+    }
+
+    if (added > 0) {
+      await config.setNostrRelays(relays);
+      log(chalk.green(`\n✅ Added ${added} relay(s), ${relays.length} configured`));
+    } else {
+      log(chalk.yellow('\n⏸️  No relays added.'));
+    }
+
+    exitCommand(failed > 0 ? 1 : 0);
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Failed to add relays: ${error}`));
+    exitCommand(1);
+  }
+}
+
+export async function relaysRemoveCommand(urls: string[]): Promise<void> {
+  const config = await ConfigManager.getInstance();
+
+  try {
+    log(chalk.cyan('\n📡 Remove Relays\n'));
+    if (!(await ensureProjectConfig(config))) {
+      return;
+    }
+
+    const relays = config.getConfig().nostr?.relays || [];
+    const toRemove = new Set(urls.map(normalizeRelayUrl));
+    const remaining = relays.filter((relay) => !toRemove.has(normalizeRelayUrl(relay)));
+
+    const unknown = urls.filter(
+      (url) => !relays.some((relay) => normalizeRelayUrl(relay) === normalizeRelayUrl(url))
+    );
+    unknown.forEach((url) => log(chalk.yellow(`⚠️  ${url} is not configured`)));
+
+    if (remaining.length === relays.length) {
+      log(chalk.yellow('\n⏸️  No relays removed.'));
+      exitCommand(1);
+    }
+    if (remaining.length === 0) {
+      log(chalk.red('❌ Refusing to remove every relay, at least one is needed to deploy.'));
+      exitCommand(1);
+    }
+
+    await config.setNostrRelays(remaining);
+    log(
+      chalk.green(
+        `✅ Removed ${relays.length - remaining.length} relay(s), ${remaining.length} configured`
+      )
+    );
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Failed to remove relays: ${error}`));
+    exitCommand(1);
+  }
+}
+
+export async function relaysPublishCommand(options: RelaysPublishOptions): Promise<void> {
+  const config = await ConfigManager.getInstance();
+  const nostr = new NostrManager();
+
+  try {
+    log(chalk.cyan('\n📡 Publish Relay List\n'));
+    if (!(await ensureProjectConfig(config))) {
+      return;
+    }
+
+    const userConfig = config.getConfig();
+    if (!canSign(userConfig.nostr)) {
+      log(chalk.red('❌ A private key or bunker is required to sign the relay list.'));
+      log(chalk.white('Please run: ') + chalk.green('nostr-deploy-cli auth'));
+      return;
+    }
+    await unlockSigner(userConfig.nostr);
+
+    const configured = userConfig.nostr?.relays || [];
+    if (configured.length === 0) {
+      log(chalk.yellow('⚠️  No relays configured.'));
+      return;
+    }
+
+    let current: RelayListEntry[] | null = null;
+    if (!options.replace) {
+      const spinner = ora('Looking up your current relay list...').start();
+      try {
+        current = await nostr.getRelayList();
+        spinner.stop();
+      } catch (error) {
+        // The list is replaceable, publishing without it would drop every relay on it
+        spinner.fail('Could not look up your current relay list');
+        throw new Error(
+          `${error instanceof Error ? error.message : error}. Publish with --replace to overwrite it with the configured relays.`
+        );
+      }
+      if (!current) {
+        log(chalk.yellow('⚠️  No relay list found on the configured relays and relay indexers.'));
+      }
+    }
+
+    // Configured relays are where we publish, so they are always write relays
+    const entries: RelayListEntry[] = (current || []).map((entry) =>
+      configured.some((relay) => normalizeRelayUrl(relay) === normalizeRelayUrl(entry.url))
+        ? { ...entry, write: true }
+        : entry
+    );
+    configured
+      .filter(
+        (relay) =>
+          !entries.some((entry) => normalizeRelayUrl(entry.url) === normalizeRelayUrl(relay))
+      )
+      .forEach((relay) => entries.push({ url: relay, read: true, write: true }));
+
+    log(chalk.white('Relay list:'));
+    entries.forEach((entry) => {
+      const markers = [entry.read && 'read', entry.write && 'write'].filter(Boolean).join(', ');
+      log(chalk.gray(`  ${entry.url} `) + chalk.white(`(${markers})`));
+    });
+
+    if (!current) {
+      const confirm = await prompt(
+        [
+          {
+            type: 'confirm',
+            name: 'publish',
+            message:
+              'Publish this relay list? It replaces any relay list published on other relays.',
+            default: false,
+          },
+        ],
+        { fallback: { publish: true } }
+      );
+      if (!confirm.publish) {
+        log(chalk.yellow('\n⏸️  Relay list not published.'));
+        await nostr.close();
+        return;
+      }
+    }
+
+    const publishSpinner = ora('Publishing relay list (kind 10002)...').start();
+    const result = await nostr.publishRelayList(entries);
+    const accepted = result.relayResults.filter((relayResult) => relayResult.success).length;
+    publishSpinner.succeed(
+      `Relay list published to ${accepted}/${result.relayResults.length} relays`
+    );
+
+    await nostr.close();
+    exitCommand(0);
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Failed to publish relay list: ${error}`));
+    exitCommand(1);
+  }
+}
+
+export async function relaysSyncCommand(): Promise<void> {
+  const config = await ConfigManager.getInstance();
+  const nostr = new NostrManager();
+
+  try {
+    log(chalk.cyan('\n📡 Sync Relay List\n'));
+    if (!(await ensureProjectConfig(config))) {
+      return;
+    }
+
+    const spinner = ora('Looking up your relay list...').start();
+    const relayList = await nostr.getRelayList();
+    spinner.stop();
+    await nostr.close();
+
+    if (!relayList) {
+      log(chalk.yellow('⚠️  No NIP-65 relay list found for your pubkey.'));
+      log(chalk.white('Publish one with: ') + chalk.green('nostr-deploy-cli relays publish'));
+      exitCommand(0);
+    }
+
+    const configured = config.getConfig().nostr?.relays || [];
+    const writeRelays = getWriteRelays(relayList);
+    const merged = mergeRelayUrls(configured, writeRelays);
+    const added = merged.slice(configured.length);
+
+    if (added.length > 0) {
+      await config.setNostrRelays(merged);
+      added.forEach((relay) => log(chalk.green(`  + ${relay}`)));
+      log(chalk.green(`\n✅ Added ${added.length} write relay(s) from your relay list`));
+    } else {
+      log(chalk.green('✅ All write relays from your relay list are configured'));
+    }
+
+    const unlisted = configured.filter(
+      (relay) => !writeRelays.some((url) => normalizeRelayUrl(url) === normalizeRelayUrl(relay))
+    );
+    if (unlisted.length > 0) {
+      log(chalk.yellow(`\n⚠️  ${unlisted.length} configured relay(s) are not on your relay list:`));
+      unlisted.forEach((relay) => log(chalk.gray(`  ${relay}`)));
+      log(chalk.white('Add them with: ') + chalk.green('nostr-deploy-cli relays publish'));
+    }
+
+    exitCommand(0);
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Failed to sync relay list: ${error}`));
+    exitCommand(1);
+  }
+}
+
+function printRelayCheck(
+  result: RelayCheckResult,
+  authAllowed: boolean,
+  maxPowDifficulty: number
+): void {
+  log('\n' + chalk.cyan(result.relay));
+
+  if (result.reachable) {
+    log(
+      chalk.green('  ✅ Reachable: ') +
+        chalk.white(`connect ${result.connectMs} ms, REQ/EOSE round trip ${result.roundTripMs} ms`)
+    );
+  } else {
+    log(chalk.red(`  ❌ Unreachable: ${result.error}`));
+  }
+
+  const info = result.information;
+  if (!info) {
+    log(chalk.gray('  ℹ️  No NIP-11 information document'));
+  } else {
+    const software = [info.software, info.version].filter(Boolean).join(' ');
+    log(
+      chalk.white('  ℹ️  ') +
+        chalk.yellow(info.name || 'Unnamed relay') +
+        (software ? chalk.gray(` (${software})`) : '')
+    );
+    log(chalk.white('  📜 NIPs: ') + chalk.gray(info.supported_nips?.join(', ') || 'not listed'));
+
+    const limitation = info.limitation || {};
+    const limits = [
+      limitation.max_message_length && `message ${formatBytes(limitation.max_message_length)}`,
+      limitation.max_content_length && `content ${formatBytes(limitation.max_content_length)}`,
+      limitation.max_event_tags && `${limitation.max_event_tags} tags`,
+    ].filter(Boolean);
+    log(chalk.white('  📏 Limits: ') + chalk.gray(limits.join(', ') || 'none advertised'));
+
+    if (limitation.auth_required) {
+      log(
+        chalk.white('  🔐 Auth required: ') +
+          (authAllowed
+            ? chalk.green('yes, allowed in NOSTR_AUTH_RELAYS')
+            : chalk.yellow('yes, not in NOSTR_AUTH_RELAYS'))
+      );
+    }
+    if (limitation.payment_required) {
+      log(chalk.white('  💳 Payment required: ') + chalk.yellow('yes'));
+    }
+    if (limitation.restricted_writes) {
+      log(chalk.white('  ✍️  Restricted writes: ') + chalk.yellow('yes'));
+    }
+    if (limitation.min_pow_difficulty) {
+      const minable = limitation.min_pow_difficulty <= maxPowDifficulty;
+      log(
+        chalk.white('  ⛏️  Proof of work: ') +
+          (minable
+            ? chalk.green(`difficulty ${limitation.min_pow_difficulty}`)
+            : chalk.yellow(
+                `difficulty ${limitation.min_pow_difficulty}, above the configured maximum of ${maxPowDifficulty}`
+              ))
+      );
+    }
+  }
+
+  if (result.deploymentEvents) {
+    const { found, total } = result.deploymentEvents;
+    const line = `  📦 Published site: ${found}/${total} event(s) present`;
+    log(found === total ? chalk.green(line) : chalk.yellow(line));
+  }
+}
+
+function isRelayUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'wss:' || parsed.protocol === 'ws:';
+  } catch {
+    return false;
+  }
+}
+
+async function ensureProjectConfig(config: ConfigManager): Promise<boolean> {
+  log(chalk.white('Project: ') + chalk.yellow(path.basename(process.cwd())));
+
+  if (!(await config.hasLocalConfig())) {
+    log(chalk.red('❌ No local configuration found for this project!'));
+    log(
+      chalk.white('Please run: ') +
+        chalk.green('nostr-deploy-cli auth') +
+        chalk.white(' to set up authentication')
+    );
+    return false;
+  }
+
+  return true;
+}
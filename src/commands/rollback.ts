@@ -0,0 +1,148 @@
+import chalk from 'chalk';
+import * as path from 'path';
+import { RollbackOptions } from '../types';
+import { ConfigManager } from '../utils/config';
+import { DeploymentManager } from '../utils/deployment';
+import { DeploymentHistoryEntry } from '../utils/nostr';
+import { exitCommand, log } from '../utils/output';
+import { prompt } from '../utils/prompt';
+import { canSign, unlockSigner } from '../utils/signer';
+
+export async function rollbackCommand(
+  deploymentArg: string | undefined,
+  options: RollbackOptions
+): Promise<void> {
+  const config = await ConfigManager.getInstance();
+  const deployment = new DeploymentManager();
+
+  try {
+    const projectName = path.basename(process.cwd());
+    log(chalk.cyan('\n⏪ Rollback Deployment\n'));
+    log(chalk.white('Project: ') + chalk.yellow(projectName));
+
+    const hasLocalConfig = await config.hasLocalConfig();
+    if (!hasLocalConfig) {
+      log(chalk.red('❌ No local configuration found for this project!'));
+      log(
+        chalk.white('Please run: ') +
+          chalk.green('nostr-deploy-cli auth') +
+          chalk.white(' to set up authentication')
+      );
+      return;
+    }
+
+    if (!canSign(config.getConfig().nostr)) {
+      log(chalk.red('❌ A private key or bunker is required to publish rollback events.'));
+      log(chalk.white('Please run: ') + chalk.green('nostr-deploy-cli auth'));
+      return;
+    }
+    await unlockSigner(config.getConfig().nostr);
+
+    log(chalk.blue('📋 Fetching deployment history from Nostr...'));
+    if (options.site) {
+      log(chalk.white('Site: ') + chalk.yellow(options.site));
+    }
+    const history = await deployment.listUserDeployments(options.site);
+
+    if (history.length < 2) {
+      log(chalk.yellow('\n📭 No earlier deployments found to roll back to.'));
+      return;
+    }
+
+    let target: DeploymentHistoryEntry | undefined;
+    if (options.to) {
+      target = findDeployment(history, options.to);
+    } else if (deploymentArg) {
+      const index = parseInt(deploymentArg, 10);
+      target = /^\d+$/.test(deploymentArg)
+        ? history[index - 1]
+        : findDeployment(history, deploymentArg);
+    } else {
+      // Skip the latest deployment, it is the one currently live
+      const choice = await prompt(
+        [
+          {
+            type: 'list',
+            name: 'deployment',
+            message: 'Choose a deployment to roll back to:',
+            choices: history.slice(1).map((entry, index) => ({
+              name: `${index + 2}. ${entry.createdAt.toLocaleString()} - ${entry.files.length} file(s) - ${entry.eventId.substring(0, 16)}...`,
+              value: index + 1,
+            })),
+          },
+        ],
+        { hint: 'pass the deployment to roll back to, or --to <timestamp|event-id>' }
+      );
+      target = history[choice.deployment];
+    }
+
+    if (!target) {
+      log(chalk.red('❌ No matching deployment found.'));
+      log(chalk.white('List deployments with: ') + chalk.green('nostr-deploy-cli status'));
+      exitCommand(1);
+    }
+
+    log(chalk.white('\nSelected deployment:'));
+    log(chalk.white('  📅 Deployed: ') + chalk.gray(target.createdAt.toLocaleString()));
+    log(chalk.white('  📁 Files: ') + chalk.yellow(target.files.length.toString()));
+    log(chalk.white('  📡 Event ID: ') + chalk.gray(target.eventId.substring(0, 16) + '...'));
+
+    const confirm = await prompt(
+      [
+        {
+          type: 'confirm',
+          name: 'rollback',
+          message: 'Republish this deployment and delete the paths it did not contain?',
+          default: false,
+        },
+      ],
+      { fallback: { rollback: true } }
+    );
+
+    if (!confirm.rollback) {
+      log(chalk.yellow('\n⏸️  Rollback cancelled.'));
+      return;
+    }
+
+    const result = await deployment.rollbackToDeployment(target, options.site);
+
+    log(chalk.green('\n🎉 Rollback Successful!\n'));
+    log(chalk.white('  ♻️  Restored: ') + chalk.yellow(result.restoredFiles.length.toString()));
+    result.restoredFiles.forEach((file) => {
+      log(chalk.green(`       ~ ${file.path}`));
+    });
+    log(chalk.white('  ⏭️  Unchanged: ') + chalk.gray(result.unchangedPaths.length.toString()));
+    log(chalk.white('  🧹 Deleted: ') + chalk.yellow(result.deletedPaths.length.toString()));
+    result.deletedPaths.forEach((deletedPath) => {
+      log(chalk.red(`       - ${deletedPath}`));
+    });
+
+    exitCommand(0);
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Rollback failed: ${error}`));
+    exitCommand(1);
+  }
+}
+
+/**
+ * Find a deployment by event id, unix timestamp or date string.
+ * Timestamps select the newest deployment made at or before that time.
+ */
+function findDeployment(
+  history: DeploymentHistoryEntry[],
+  reference: string
+): DeploymentHistoryEntry | undefined {
+  if (/^[0-9a-f]{64}$/i.test(reference)) {
+    return history.find((entry) => entry.eventId === reference.toLowerCase());
+  }
+
+  const timestamp = /^\d+$/.test(reference)
+    ? parseInt(reference, 10) * 1000
+    : Date.parse(reference);
+  if (isNaN(timestamp)) {
+    return undefined;
+  }
+
+  // History is sorted newest first
+  return history.find((entry) => entry.createdAt.getTime() <= timestamp);
+}
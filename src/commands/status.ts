@@ -1,8 +1,12 @@
 import chalk from 'chalk';
+import { nip19 } from 'nostr-tools';
 import * as path from 'path';
 import { StatusOptions } from '../types';
 import { ConfigManager } from '../utils/config';
 import { DeploymentManager } from '../utils/deployment';
+import { NOT_FOUND_PATH, NotFoundMode } from '../utils/fallback';
+import { emitJsonError, emitJsonResult, exitCommand, log, StatusJsonResult } from '../utils/output';
+import { getSiteSubdomain } from '../utils/site';
 
 export async function statusCommand(options: StatusOptions): Promise<void> {
   const config = await ConfigManager.getInstance();
@@ -10,14 +14,14 @@ export async function statusCommand(options: StatusOptions): Promise<void> {
 
   try {
     const projectName = path.basename(process.cwd());
-    console.log(chalk.cyan('\n📊 Deployment Status\n'));
-    console.log(chalk.white('Project: ') + chalk.yellow(projectName));
+    log(chalk.cyan('\n📊 Deployment Status\n'));
+    log(chalk.white('Project: ') + chalk.yellow(projectName));
 
     const hasLocalConfig = await config.hasLocalConfig();
     if (!hasLocalConfig) {
-      console.log(chalk.red('❌ No local configuration found for this project!'));
-      console.log(chalk.white('This project needs to be set up before you can check status.'));
-      console.log(
+      log(chalk.red('❌ No local configuration found for this project!'));
+      log(chalk.white('This project needs to be set up before you can check status.'));
+      log(
         chalk.white('Please run: ') +
           chalk.green('nostr-deploy-cli auth') +
           chalk.white(' to set up authentication')
@@ -26,8 +30,8 @@ export async function statusCommand(options: StatusOptions): Promise<void> {
     }
 
     if (!config.isConfigured()) {
-      console.log(chalk.red('❌ Project configuration incomplete!'));
-      console.log(
+      log(chalk.red('❌ Project configuration incomplete!'));
+      log(
         chalk.white('Please run: ') +
           chalk.green('nostr-deploy-cli auth') +
           chalk.white(' and ') +
@@ -36,111 +40,155 @@ export async function statusCommand(options: StatusOptions): Promise<void> {
       return;
     }
 
-    if (options.subdomain) {
-      // Check specific subdomain status
-      console.log(chalk.blue(`🔍 Checking status for: ${options.subdomain}`));
+    if (options.subdomain || options.npub) {
+      // Check specific subdomain status, named sites live at <name>.<npub>
+      const target = (options.npub || options.subdomain)!;
+      const subdomain =
+        options.site && !target.startsWith(`${options.site}.`)
+          ? getSiteSubdomain(target, options.site)
+          : target;
+      log(chalk.blue(`🔍 Checking status for: ${subdomain}`));
 
       try {
-        const status = await deployment.getDeploymentStatus(options.subdomain);
+        // Another npub's events are looked up on the relays from its NIP-65 relay list
+        const publicKey = options.npub ? decodeNpub(options.npub) : undefined;
+        const status = await deployment.getDeploymentStatus(subdomain, options.site, publicKey);
+        const baseDomain = config.getConfig().deployment?.baseDomain || 'nostrdeploy.com';
+        emitJsonResult<StatusJsonResult>({
+          subdomain,
+          url: `https://${subdomain}.${baseDomain}`,
+          deploymentStatus: status,
+        });
 
-        console.log(chalk.white('\nStatus Details:'));
-        console.log(
+        log(chalk.white('\nStatus Details:'));
+        log(
           chalk.white('  Status: ') +
             getStatusIcon(status.status) +
             ' ' +
             status.status.toUpperCase()
         );
-        console.log(
-          chalk.white('  Last Checked: ') + chalk.gray(status.lastChecked.toLocaleString())
-        );
+        log(chalk.white('  Last Checked: ') + chalk.gray(status.lastChecked.toLocaleString()));
 
         if (status.responseTime) {
-          console.log(chalk.white('  Response Time: ') + chalk.gray(`${status.responseTime}ms`));
+          log(chalk.white('  Response Time: ') + chalk.gray(`${status.responseTime}ms`));
         }
 
         if (status.fileCount) {
-          console.log(
-            chalk.white('  Files Deployed: ') + chalk.yellow(status.fileCount.toString())
+          log(chalk.white('  Files Deployed: ') + chalk.yellow(status.fileCount.toString()));
+        }
+
+        if (status.notFoundMode) {
+          log(
+            chalk.white('  Unknown Paths: ') + chalk.gray(describeNotFoundMode(status.notFoundMode))
           );
         }
 
-        if (status.status === 'active') {
-          const userConfig = config.getConfig();
-          const baseDomain = userConfig.deployment?.baseDomain || 'nostrdeploy.com';
-          console.log(
-            chalk.green(`\n✅ Site is live at: https://${options.subdomain}.${baseDomain}`)
+        if (status.rootPath === null) {
+          log(
+            chalk.yellow('  ⚠️  No published file answers "/" (missing /index.html and /404.html)')
+          );
+        } else if (status.rootPath === NOT_FOUND_PATH) {
+          log(chalk.yellow('  ⚠️  "/" is served by the 404 fallback (missing /index.html)'));
+        }
+
+        if (status.outboxRelays) {
+          log(
+            chalk.white('  Outbox Relays: ') +
+              chalk.gray(status.outboxRelays.join(', ') || 'no NIP-65 relay list found')
+          );
+        }
+        status.missingOnOutbox?.forEach((coverage) => {
+          log(
+            chalk.yellow(
+              `  ⚠️  ${coverage.missing}/${coverage.total} event(s) missing from outbox relay ${coverage.relay}`
+            )
           );
+        });
+
+        if (status.status === 'active') {
+          log(chalk.green(`\n✅ Site is live at: https://${subdomain}.${baseDomain}`));
         } else {
-          console.log(chalk.yellow('\n⚠️  Site appears to be offline or experiencing issues.'));
+          log(chalk.yellow('\n⚠️  Site appears to be offline or experiencing issues.'));
         }
       } catch (error) {
+        emitJsonError(error);
         console.error(chalk.red(`❌ Failed to check status: ${error}`));
+        exitCommand(1);
       }
     } else {
       // List all deployments using new NIP format
-      console.log(chalk.blue('📋 Fetching deployment history from Nostr for this project...'));
+      if (options.site) {
+        log(chalk.white('Site: ') + chalk.yellow(options.site));
+      }
+      log(chalk.blue('📋 Fetching deployment history from Nostr for this project...'));
 
       try {
-        const deployments = await deployment.listUserDeployments();
-        const currentNpub = await deployment.getCurrentNpubSubdomain();
+        const deployments = await deployment.listUserDeployments(options.site);
+        const currentNpub = await deployment.getCurrentNpubSubdomain(options.site);
         const userConfig = config.getConfig();
         const baseDomain = userConfig.deployment?.baseDomain || 'nostrdeploy.com';
+        emitJsonResult<StatusJsonResult>({
+          npubSubdomain: currentNpub,
+          url: `https://${currentNpub}.${baseDomain}`,
+          deployments,
+        });
 
         if (deployments.length === 0) {
-          console.log(chalk.yellow('\n📭 No deployments found for this project.'));
-          console.log(
+          log(chalk.yellow('\n📭 No deployments found for this project.'));
+          log(
             chalk.white('Deploy your first site with: ') + chalk.green('nostr-deploy-cli deploy')
           );
-          console.log(
+          log(
             chalk.white('Your sites will be available at: ') +
               chalk.cyan(`${currentNpub}.${baseDomain}`)
           );
           return;
         }
 
-        console.log(chalk.green(`\nFound ${deployments.length} deployment(s) for this project:\n`));
+        log(chalk.green(`\nFound ${deployments.length} deployment(s) for this project:\n`));
 
         deployments.forEach((dep, index) => {
-          console.log(chalk.white(`${index + 1}. Deployment`));
-          console.log(
-            chalk.white('   📍 URL: ') + chalk.cyan(`https://${currentNpub}.${baseDomain}`)
-          );
-          console.log(chalk.white('   📅 Deployed: ') + chalk.gray(dep.createdAt.toLocaleString()));
-          console.log(chalk.white('   📁 Files: ') + chalk.yellow(dep.files.length.toString()));
-          console.log(
-            chalk.white('   📡 Event ID: ') + chalk.gray(dep.eventId.substring(0, 16) + '...')
-          );
+          log(chalk.white(`${index + 1}. Deployment`));
+          log(chalk.white('   📍 URL: ') + chalk.cyan(`https://${currentNpub}.${baseDomain}`));
+          log(chalk.white('   📅 Deployed: ') + chalk.gray(dep.createdAt.toLocaleString()));
+          log(chalk.white('   📁 Files: ') + chalk.yellow(dep.files.length.toString()));
+          log(chalk.white('   📡 Event ID: ') + chalk.gray(dep.eventId.substring(0, 16) + '...'));
 
           if (index < deployments.length - 1) {
-            console.log('');
+            log('');
           }
         });
 
-        console.log(chalk.cyan('\n📊 Next Steps:'));
-        console.log(
+        log(chalk.cyan('\n📊 Next Steps:'));
+        log(
           chalk.white('• Check specific deployment: ') +
-            chalk.green(`nostr-deploy-cli status -s ${currentNpub}`)
-        );
-        console.log(chalk.white('• Deploy new site: ') + chalk.green('nostr-deploy-cli deploy'));
-        console.log(
-          chalk.white('• Your npub subdomain: ') + chalk.cyan(`${currentNpub}.${baseDomain}`)
+            chalk.green(
+              `nostr-deploy-cli status -s ${currentNpub}${options.site ? ` --site ${options.site}` : ''}`
+            )
         );
+        log(chalk.white('• Deploy new site: ') + chalk.green('nostr-deploy-cli deploy'));
+        log(chalk.white('• Your npub subdomain: ') + chalk.cyan(`${currentNpub}.${baseDomain}`));
       } catch (error) {
+        emitJsonError(error);
         console.error(chalk.red(`❌ Failed to fetch deployments: ${error}`));
-        console.log(
-          chalk.yellow("\n💡 This might be normal if you haven't deployed anything yet.")
-        );
-        console.log(
-          chalk.white('Deploy your first site with: ') + chalk.green('nostr-deploy-cli deploy')
-        );
+        exitCommand(1);
       }
     }
   } catch (error) {
+    emitJsonError(error);
     console.error(chalk.red(`\n❌ Status check failed: ${error}`));
-    process.exit(1);
+    exitCommand(1);
   }
 }
 
+function decodeNpub(npub: string): string {
+  const decoded = nip19.decode(npub);
+  if (decoded.type !== 'npub') {
+    throw new Error(`Expected an npub, got ${decoded.type}`);
+  }
+  return decoded.data;
+}
+
 function getStatusIcon(status: string): string {
   switch (status) {
     case 'active':
@@ -153,3 +201,14 @@ function getStatusIcon(status: string): string {
       return '❓';
   }
 }
+
+function describeNotFoundMode(mode: NotFoundMode): string {
+  switch (mode) {
+    case 'spa':
+      return 'SPA fallback (/404.html → /index.html)';
+    case 'custom':
+      return 'custom /404.html page';
+    default:
+      return 'gateway error page (no /404.html)';
+  }
+}
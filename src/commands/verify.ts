@@ -0,0 +1,109 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import * as path from 'path';
+import { VerifyOptions } from '../types';
+import { ConfigManager } from '../utils/config';
+import { BlobCheckStatus, DeploymentManager } from '../utils/deployment';
+import { IgnoreMatcher } from '../utils/ignore';
+import { exitCommand, log } from '../utils/output';
+
+export async function verifyCommand(options: VerifyOptions): Promise<void> {
+  const config = await ConfigManager.getInstance();
+  const deployment = new DeploymentManager();
+
+  try {
+    const projectName = path.basename(process.cwd());
+    log(chalk.cyan('\n🔎 Verify Deployment\n'));
+    log(chalk.white('Project: ') + chalk.yellow(projectName));
+
+    const hasLocalConfig = await config.hasLocalConfig();
+    if (!hasLocalConfig) {
+      log(chalk.red('❌ No local configuration found for this project!'));
+      log(
+        chalk.white('Please run: ') +
+          chalk.green('nostr-deploy-cli auth') +
+          chalk.white(' to set up authentication')
+      );
+      exitCommand(1);
+    }
+
+    // Compare against the same file set a deploy would upload
+    const ignore = options.local
+      ? await IgnoreMatcher.load(process.cwd(), path.resolve(options.local))
+      : undefined;
+
+    const spinner = ora('Downloading and hashing blobs...').start();
+    let result;
+    try {
+      result = await deployment.verifySite({
+        localDirectory: options.local,
+        ignore,
+        site: options.site,
+      });
+      spinner.stop();
+    } catch (error) {
+      spinner.fail('Verification failed');
+      throw error;
+    }
+
+    log(chalk.white('\nServers:'));
+    result.servers.forEach((server, index) => {
+      log(chalk.white(`  [${index + 1}] `) + chalk.cyan(server));
+    });
+
+    const header = result.servers.map((_, index) => `[${index + 1}]`.padEnd(4));
+    if (options.local) {
+      header.push('local');
+    }
+    log(chalk.gray(`\n  ${header.join(' ')}  path`));
+
+    result.files.forEach((file) => {
+      const cells = file.servers.map((check) => formatStatus(check.status).padEnd(4));
+      if (file.local) {
+        cells.push(formatStatus(file.local).padEnd(5));
+      }
+      log(`  ${cells.join(' ')}  ${file.path}`);
+
+      file.servers
+        .filter((check) => check.status === 'mismatch' || check.status === 'error')
+        .forEach((check) => {
+          const detail =
+            check.status === 'mismatch' ? `served ${check.actualHash}` : `${check.error}`;
+          log(chalk.gray(`       ${check.server}: ${detail}`));
+        });
+    });
+
+    if (result.unpublishedLocalPaths.length > 0) {
+      log(chalk.yellow('\n📄 Local files that are not published:'));
+      result.unpublishedLocalPaths.forEach((sitePath) => {
+        log(chalk.yellow(`       + ${sitePath}`));
+      });
+    }
+
+    log(chalk.gray('\n  ✅ OK   ❌ missing   ⚠️  hash mismatch   ❓ unreachable/error'));
+
+    if (result.hasDiscrepancies) {
+      log(chalk.red('\n❌ Verification found discrepancies.'));
+      exitCommand(1);
+    }
+
+    log(chalk.green('\n✅ Every blob matches its published hash.'));
+    exitCommand(0);
+  } catch (error) {
+    console.error(chalk.red(`\n❌ Verification failed: ${error}`));
+    exitCommand(1);
+  }
+}
+
+function formatStatus(status: BlobCheckStatus): string {
+  switch (status) {
+    case 'ok':
+      return '✅';
+    case 'missing':
+      return '❌';
+    case 'mismatch':
+      return '⚠️ ';
+    default:
+      return '❓';
+  }
+}
@@ -1,22 +1,62 @@
 export interface NostrConfig {
+  // Hex, or a NIP-49 ncryptsec when encrypted with a passphrase
   privateKey?: string;
+  // NIP-46 connection string, used instead of a private key
+  bunker?: string;
   publicKey: string;
   relays: string[];
+  // Relays allowed to receive NIP-42 AUTH events signed with our key
+  authRelays?: string[];
+  // Also read from and publish to the NIP-65 write relays (default true)
+  useRelayList?: boolean;
+  // Highest NIP-13 proof-of-work difficulty we are willing to mine for a relay
+  maxPowDifficulty?: number;
 }
 
 export interface BlossomConfig {
   servers: string[];
   apiKey?: string;
+  concurrency?: number;
+  serverConcurrency?: number;
+  serverLimits?: { [server: string]: number };
 }
 
 export interface DeploymentConfig {
   baseDomain: string;
 }
 
+export interface RetryConfig {
+  attempts?: number;
+  baseDelayMs?: number;
+}
+
+// Defaults for `deploy` from the project config file; command line flags win
+export interface DeploySettings {
+  dir?: string;
+  incremental?: boolean;
+  keepStale?: boolean;
+  spa?: boolean;
+  exclude?: string[];
+  include?: string[];
+}
+
 export interface UserConfig {
   nostr: NostrConfig;
   blossom: BlossomConfig;
   deployment: DeploymentConfig;
+  retry?: RetryConfig;
+  deploy?: DeploySettings;
+}
+
+/**
+ * nostr-deploy.config.json: everything but the key, so it can be committed
+ */
+export interface ProjectConfig {
+  nostr?: Omit<Partial<NostrConfig>, 'privateKey' | 'bunker' | 'publicKey'>;
+  blossom?: Partial<BlossomConfig>;
+  deployment?: Partial<DeploymentConfig>;
+  retry?: RetryConfig;
+  deploy?: DeploySettings;
 }
 
 export interface DeploymentInfo {
@@ -31,19 +71,78 @@ export interface DeploymentInfo {
 export interface DeployOptions {
   dir?: string;
   skipSetup?: boolean;
+  incremental?: boolean;
+  keepStale?: boolean;
+  dryRun?: boolean;
+  exclude?: string[];
+  include?: string[];
+  verbose?: boolean;
+  concurrency?: number;
+  spa?: boolean;
+  site?: string;
 }
 
 export interface AuthOptions {
   key?: string;
   pubkey?: string;
+  bunker?: string;
+  // False with --no-encrypt, to store the private key as plain hex
+  encrypt?: boolean;
+  // Save to the user config instead of the project
+  global?: boolean;
 }
 
 export interface ConfigOptions {
   relays?: string[];
+  authRelays?: string[];
   blossom?: string;
   domain?: string;
+  // Save to the user config instead of the project
+  global?: boolean;
+}
+
+export interface ConfigScopeOptions {
+  // Save to the user config instead of the project
+  global?: boolean;
 }
 
 export interface StatusOptions {
   subdomain?: string;
+  npub?: string;
+  site?: string;
+}
+
+export interface RelaysCheckOptions {
+  site?: string;
+}
+
+export interface RelaysAddOptions {
+  force?: boolean;
+}
+
+export interface RelaysPublishOptions {
+  replace?: boolean;
+}
+
+export interface InfoOptions {
+  site?: string;
+}
+
+export interface RollbackOptions {
+  to?: string;
+  site?: string;
+}
+
+export interface MirrorOptions {
+  server?: string[];
+}
+
+export interface VerifyOptions {
+  local?: string;
+  site?: string;
+}
+
+export interface BlobsGcOptions {
+  dryRun?: boolean;
+  keepLast?: number;
 }
@@ -1,7 +1,12 @@
 import axios, { AxiosResponse } from 'axios';
 import * as crypto from 'crypto';
 import * as fs from 'fs-extra';
+import { ConcurrencyLimiter } from './concurrency';
 import { ConfigManager } from './config';
+import { collectFiles, IgnoreMatcher } from './ignore';
+import { log } from './output';
+import { classifyHttpError, resolveRetryPolicy, RetryPolicy, withRetry } from './retry';
+import { getSigner } from './signer';
 
 export interface BlossomUploadResponse {
   url: string;
@@ -17,6 +22,7 @@ export interface BlossomServerResult {
   success: boolean;
   error?: string;
   uploadResponse?: BlossomUploadResponse;
+  retries?: number;
 }
 
 export interface BlossomFileResult {
@@ -26,6 +32,37 @@ export interface BlossomFileResult {
   hasSuccess: boolean;
 }
 
+// BUD-02 blob descriptor, as returned by /upload and /list
+export interface BlobDescriptor {
+  url: string;
+  sha256: string;
+  size: number;
+  type?: string;
+  uploaded?: number;
+}
+
+export type MirrorMethod = 'mirror' | 'reupload';
+
+export interface UploadOptions {
+  concurrency?: number;
+}
+
+interface UploadLimiters {
+  global: ConcurrencyLimiter;
+  servers: Map<string, ConcurrencyLimiter>;
+}
+
+interface LocalFile {
+  filePath: string;
+  fileName: string;
+  sha256: string;
+  size: number;
+  mimeType: string;
+}
+
+const DEFAULT_CONCURRENCY = 8;
+const DEFAULT_SERVER_CONCURRENCY = 3;
+
 export class BlossomManager {
   private config: ConfigManager | null = null;
   private servers: string[] = [
@@ -54,20 +91,23 @@ export class BlossomManager {
     return this.config;
   }
 
-  public async uploadFiles(filePaths: string[]): Promise<BlossomFileResult[]> {
+  public async uploadFiles(
+    filePaths: string[],
+    options: UploadOptions = {}
+  ): Promise<BlossomFileResult[]> {
     // Ensure config is loaded before uploading
     await this.getConfig();
 
     const results: BlossomFileResult[] = [];
+    const limiters = await this.createUploadLimiters(options);
 
-    // Upload files in parallel for better performance
+    // Every file is queued at once, the limiters bound how many requests are in flight
     const uploadPromises = filePaths.map(async (filePath) => {
       try {
-        return await this.uploadSingleFileToAllServers(filePath);
+        return await this.uploadSingleFileToAllServers(filePath, limiters);
       } catch (error) {
-        const filename = filePath.split('/').pop() || 'unknown';
         return {
-          filename,
+          filename: filePath,
           sha256: '',
           serverResults: this.servers.map((server) => ({
             server,
@@ -85,30 +125,69 @@ export class BlossomManager {
     return results;
   }
 
-  private async uploadSingleFileToAllServers(filePath: string): Promise<BlossomFileResult> {
+  private async getRetryPolicy(): Promise<RetryPolicy> {
+    const config = await this.getConfig();
+    return resolveRetryPolicy(config.getConfig().retry);
+  }
+
+  /**
+   * Create the global and per-server limiters shared by all uploads of a run
+   */
+  private async createUploadLimiters(options: UploadOptions = {}): Promise<UploadLimiters> {
+    const config = await this.getConfig();
+    const blossomConfig = config.getConfig().blossom;
+
+    const globalLimit = options.concurrency || blossomConfig?.concurrency || DEFAULT_CONCURRENCY;
+    const serverLimit = blossomConfig?.serverConcurrency || DEFAULT_SERVER_CONCURRENCY;
+    const serverLimits = blossomConfig?.serverLimits || {};
+
+    return {
+      global: new ConcurrencyLimiter(globalLimit),
+      servers: new Map(
+        this.servers.map((server) => [
+          server,
+          new ConcurrencyLimiter(serverLimits[server] || serverLimit),
+        ])
+      ),
+    };
+  }
+
+  private async uploadSingleFileToAllServers(
+    filePath: string,
+    limiters?: UploadLimiters
+  ): Promise<BlossomFileResult> {
     if (!(await fs.pathExists(filePath))) {
       throw new Error(`File not found: ${filePath}`);
     }
 
-    const fileBuffer = await fs.readFile(filePath);
-    const fileHash = crypto.createHash('sha256').update(fileBuffer).digest('hex');
+    const uploadLimiters = limiters || (await this.createUploadLimiters());
+
+    // Hash the file once, every server upload streams it from disk
+    const localFile = await uploadLimiters.global.run(() => this.describeFile(filePath));
     const filename = filePath; // Use full path, will be converted to relative later
 
-    // Upload to all servers in parallel
+    // Upload to all servers in parallel, within the per-server and global limits.
+    // The server slot is taken first so waiting uploads don't hold global slots
     const serverResults = await Promise.allSettled(
       this.servers.map(async (server) => {
+        const stats = { retries: 0 };
         try {
-          const uploadResponse = await this.uploadSingleFileToServer(filePath, server);
+          const serverLimiter = uploadLimiters.servers.get(server) || uploadLimiters.global;
+          const uploadResponse = await serverLimiter.run(() =>
+            uploadLimiters.global.run(() => this.uploadSingleFileToServer(localFile, server, stats))
+          );
           return {
             server,
             success: true,
             uploadResponse,
+            retries: stats.retries,
           };
         } catch (error) {
           return {
             server,
             success: false,
             error: error instanceof Error ? error.message : String(error),
+            retries: stats.retries,
           };
         }
       })
@@ -132,45 +211,54 @@ export class BlossomManager {
 
     return {
       filename,
-      sha256: fileHash,
+      sha256: localFile.sha256,
       serverResults: processedResults,
       hasSuccess,
     };
   }
 
+  /**
+   * Collect the hash, size and MIME type of a local file
+   */
+  private async describeFile(filePath: string): Promise<LocalFile> {
+    const [sha256, stats] = await Promise.all([this.hashFile(filePath), fs.stat(filePath)]);
+    const fileName = filePath.split('/').pop() || 'unknown';
+
+    return {
+      filePath,
+      fileName,
+      sha256,
+      size: stats.size,
+      mimeType: this.getMimeType(fileName),
+    };
+  }
+
   private async uploadSingleFileToServer(
-    filePath: string,
-    serverUrl: string
+    localFile: LocalFile,
+    serverUrl: string,
+    stats: { retries: number }
   ): Promise<BlossomUploadResponse> {
-    const fileBuffer = await fs.readFile(filePath);
-    const fileHash = crypto.createHash('sha256').update(fileBuffer).digest('hex');
-    const fileName = filePath.split('/').pop() || 'unknown';
-    const mimeType = this.getMimeType(fileName);
+    const { filePath, fileName, mimeType, size } = localFile;
+    const fileHash = localFile.sha256;
 
-    // Check if file already exists using GET request
+    // Check if file already exists using HEAD request
     try {
-      const existingFile = await this.getBlob(fileHash, serverUrl);
-      if (existingFile) {
+      if (await this.hasBlob(fileHash, serverUrl)) {
         return {
           url: `${serverUrl}/${fileHash}`,
           sha256: fileHash,
-          size: fileBuffer.length,
+          size,
           type: mimeType,
           uploaded: new Date().toISOString(),
           server: serverUrl,
         };
       }
     } catch {
-      // File doesn't exist, continue with upload
+      // Existence check failed, continue with upload
     }
 
     // Step 1: Check upload requirements using HEAD /upload (BUD-06)
-    const canUpload = await this.checkUploadRequirements(
-      fileHash,
-      fileBuffer.length,
-      mimeType,
-      serverUrl
-    );
+    const canUpload = await this.checkUploadRequirements(fileHash, size, mimeType, serverUrl);
     if (!canUpload.allowed) {
       throw new Error(`Upload rejected: ${canUpload.reason}`);
     }
@@ -178,28 +266,37 @@ export class BlossomManager {
     // Step 2: Create authorization event if required (BUD-01)
     let authHeader = '';
     if (canUpload.requiresAuth) {
-      authHeader = await this.createBlossomAuthEvent('upload', fileHash, fileName);
+      authHeader = await this.createBlossomAuthEvent('upload', fileHash, `Upload ${fileName}`);
     }
 
-    // Step 3: Upload the file using PUT /upload (BUD-02)
+    // Step 3: Upload the file using PUT /upload (BUD-02), streaming the body from disk
+    // Transient failures are retried with a fresh stream, permanent ones (403, 413, 415) are not
     try {
-      const response: AxiosResponse = await axios.put(`${serverUrl}/upload`, fileBuffer, {
-        headers: {
-          'Content-Type': mimeType,
-          'Content-Length': fileBuffer.length.toString(),
-          ...(authHeader ? { Authorization: authHeader } : {}),
-        },
-        timeout: 120000, // 2 minute timeout for large files
-        maxBodyLength: Infinity,
-        maxContentLength: Infinity,
-      });
+      const response: AxiosResponse = await withRetry(
+        () =>
+          axios.put(`${serverUrl}/upload`, fs.createReadStream(filePath), {
+            headers: {
+              'Content-Type': mimeType,
+              'Content-Length': size.toString(),
+              ...(authHeader ? { Authorization: authHeader } : {}),
+            },
+            timeout: 120000, // 2 minute timeout for large files
+            maxBodyLength: Infinity,
+            maxContentLength: Infinity,
+          }),
+        await this.getRetryPolicy(),
+        classifyHttpError,
+        () => {
+          stats.retries++;
+        }
+      );
 
       if (response.status === 200 || response.status === 201) {
         const responseData = response.data;
         return {
           url: responseData?.url || `${serverUrl}/${fileHash}`,
           sha256: responseData?.sha256 || fileHash,
-          size: responseData?.size || fileBuffer.length,
+          size: responseData?.size || size,
           type: responseData?.type || mimeType,
           uploaded: responseData?.uploaded || new Date().toISOString(),
           server: serverUrl,
@@ -220,7 +317,7 @@ export class BlossomManager {
     }
   }
 
-  private async checkUploadRequirements(
+  public async checkUploadRequirements(
     sha256: string,
     size: number,
     mimeType: string,
@@ -276,19 +373,14 @@ export class BlossomManager {
 
   private async createBlossomAuthEvent(
     action: string,
-    fileHash: string,
-    fileName: string
+    fileHash: string | undefined,
+    description: string
   ): Promise<string> {
     try {
       const config = await this.getConfig();
       const userConfig = config.getConfig();
 
-      if (!userConfig.nostr?.privateKey) {
-        throw new Error('No Nostr private key configured for authentication');
-      }
-
-      // Import finalizeEvent from nostr-tools
-      const { finalizeEvent } = await import('nostr-tools');
+      const signer = getSigner(userConfig.nostr);
 
       // BUD-01: Create proper Blossom authorization event
       const now = Math.floor(Date.now() / 1000);
@@ -296,20 +388,17 @@ export class BlossomManager {
 
       const authEvent = {
         kind: 24242, // BUD-01: Must be kind 24242
-        content: `Upload ${fileName}`, // BUD-01: Human readable content
+        content: description, // BUD-01: Human readable content
         created_at: now,
         tags: [
           ['t', action], // BUD-01: Must have 't' tag with verb
-          ['x', fileHash], // BUD-01: Must have 'x' tag with SHA256
+          ...(fileHash ? [['x', fileHash]] : []), // BUD-01: 'x' tag with SHA256 for blob actions
           ['expiration', expiration.toString()], // BUD-01: Must have expiration
         ],
       };
 
-      // Convert private key from hex to Uint8Array
-      const privateKeyBytes = new Uint8Array(Buffer.from(userConfig.nostr.privateKey, 'hex'));
-
-      // Sign the event properly
-      const signedEvent = finalizeEvent(authEvent, privateKeyBytes);
+      // Sign locally or with the remote signer
+      const signedEvent = await signer.signEvent(authEvent);
 
       // BUD-01: Encode as base64 with Nostr scheme
       const eventBase64 = Buffer.from(JSON.stringify(signedEvent)).toString('base64');
@@ -335,8 +424,103 @@ export class BlossomManager {
     }
   }
 
+  /**
+   * Check whether a blob exists on a server using HEAD /<sha256> (BUD-01)
+   */
+  public async hasBlob(sha256: string, serverUrl: string): Promise<boolean> {
+    try {
+      await axios.head(`${serverUrl}/${sha256}`, { timeout: 10000 });
+      return true;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Copy a blob to another server with BUD-04 `PUT /mirror`. Servers that don't
+   * implement mirroring get the blob downloaded from the source and re-uploaded.
+   */
+  public async mirrorBlob(
+    sha256: string,
+    sourceUrl: string,
+    targetServer: string
+  ): Promise<MirrorMethod> {
+    const authHeader = await this.createBlossomAuthEvent('upload', sha256, `Mirror ${sha256}`);
+    const retryPolicy = await this.getRetryPolicy();
+
+    try {
+      await withRetry(
+        () =>
+          axios.put(
+            `${targetServer}/mirror`,
+            { url: sourceUrl },
+            {
+              headers: {
+                'Content-Type': 'application/json',
+                Authorization: authHeader,
+              },
+              timeout: 120000,
+            }
+          ),
+        retryPolicy,
+        classifyHttpError
+      );
+      return 'mirror';
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      if (status !== 404 && status !== 405 && status !== 501) {
+        throw new Error(`Mirror failed: ${this.describeHttpError(error)}`);
+      }
+    }
+
+    // Mirror endpoint not supported, stream the blob through this machine instead
+    try {
+      const response: AxiosResponse = await withRetry(
+        async () => {
+          const download = await axios.get(sourceUrl, { responseType: 'stream', timeout: 30000 });
+          const contentLength = download.headers['content-length'];
+          return axios.put(`${targetServer}/upload`, download.data, {
+            headers: {
+              'Content-Type': download.headers['content-type'] || 'application/octet-stream',
+              ...(contentLength ? { 'Content-Length': contentLength } : {}),
+              Authorization: authHeader,
+            },
+            timeout: 120000,
+            maxBodyLength: Infinity,
+            maxContentLength: Infinity,
+          });
+        },
+        retryPolicy,
+        classifyHttpError
+      );
+
+      if (response.data?.sha256 && response.data.sha256 !== sha256) {
+        throw new Error(`Hash mismatch: server stored ${response.data.sha256}`);
+      }
+      return 'reupload';
+    } catch (error) {
+      throw new Error(`Re-upload failed: ${this.describeHttpError(error)}`);
+    }
+  }
+
+  private describeHttpError(error: unknown): string {
+    if (axios.isAxiosError(error)) {
+      if (!error.response) {
+        return error.message;
+      }
+      const reason = error.response.headers?.['x-reason'] || error.response.statusText;
+      return `${error.response.status} ${reason}`;
+    }
+    return error instanceof Error ? error.message : String(error);
+  }
+
   public async uploadDirectory(
-    dirPath: string
+    dirPath: string,
+    filePaths?: string[],
+    options: UploadOptions = {}
   ): Promise<{ [filename: string]: BlossomFileResult }> {
     if (!(await fs.pathExists(dirPath))) {
       throw new Error(`Directory not found: ${dirPath}`);
@@ -345,14 +529,12 @@ export class BlossomManager {
     // Ensure config is loaded before uploading
     await this.getConfig();
 
-    const files = await this.getAllFiles(dirPath);
+    const files = filePaths || (await this.getAllFiles(dirPath));
     const results: { [filename: string]: BlossomFileResult } = {};
 
-    console.log(
-      `📤 Uploading ${files.length} files to ${this.servers.length} Blossom server(s)...`
-    );
+    log(`📤 Uploading ${files.length} files to ${this.servers.length} Blossom server(s)...`);
 
-    const uploadResults = await this.uploadFiles(files);
+    const uploadResults = await this.uploadFiles(files, options);
 
     uploadResults.forEach((result) => {
       const relativePath = result.filename.replace(dirPath + '/', '').replace(dirPath + '\\', '');
@@ -363,19 +545,19 @@ export class BlossomManager {
         const successCount = result.serverResults.filter((r) => r.success).length;
         const totalCount = result.serverResults.length;
         if (successCount === totalCount) {
-          console.log(`  ✅ ${relativePath}: Uploaded to all ${totalCount} servers`);
+          log(`  ✅ ${relativePath}: Uploaded to all ${totalCount} servers`);
         } else {
-          console.log(`  ⚠️  ${relativePath}: Uploaded to ${successCount}/${totalCount} servers`);
+          log(`  ⚠️  ${relativePath}: Uploaded to ${successCount}/${totalCount} servers`);
           result.serverResults.forEach((serverResult) => {
             if (!serverResult.success) {
-              console.log(`     ❌ ${serverResult.server}: ${serverResult.error}`);
+              log(`     ❌ ${serverResult.server}: ${serverResult.error}`);
             }
           });
         }
       } else {
-        console.log(`  ❌ ${relativePath}: Failed to upload to any server`);
+        log(`  ❌ ${relativePath}: Failed to upload to any server`);
         result.serverResults.forEach((serverResult) => {
-          console.log(`     ❌ ${serverResult.server}: ${serverResult.error}`);
+          log(`     ❌ ${serverResult.server}: ${serverResult.error}`);
         });
       }
     });
@@ -383,22 +565,48 @@ export class BlossomManager {
     return results;
   }
 
-  private async getAllFiles(dirPath: string): Promise<string[]> {
-    const files: string[] = [];
-    const items = await fs.readdir(dirPath, { withFileTypes: true });
+  public async getAllFiles(dirPath: string, matcher?: IgnoreMatcher): Promise<string[]> {
+    const { files } = await collectFiles(dirPath, matcher);
+    return files;
+  }
 
-    for (const item of items) {
-      const fullPath = `${dirPath}/${item.name}`;
+  /**
+   * Compute the SHA-256 hash of a local file
+   */
+  public async hashFile(filePath: string): Promise<string> {
+    const hash = crypto.createHash('sha256');
+    const stream = fs.createReadStream(filePath);
+
+    return new Promise((resolve, reject) => {
+      stream.on('data', (chunk) => hash.update(chunk));
+      stream.on('end', () => resolve(hash.digest('hex')));
+      stream.on('error', reject);
+    });
+  }
 
-      if (item.isDirectory()) {
-        const subFiles = await this.getAllFiles(fullPath);
-        files.push(...subFiles);
-      } else {
-        files.push(fullPath);
+  /**
+   * Download a blob and recompute its sha256 without buffering it in memory.
+   * Returns null when the server doesn't have the blob.
+   */
+  public async hashRemoteBlob(sha256: string, serverUrl: string): Promise<string | null> {
+    try {
+      const response = await axios.get(`${serverUrl}/${sha256}`, {
+        responseType: 'stream',
+        timeout: 30000,
+      });
+
+      const hash = crypto.createHash('sha256');
+      return await new Promise((resolve, reject) => {
+        response.data.on('data', (chunk: Buffer) => hash.update(chunk));
+        response.data.on('end', () => resolve(hash.digest('hex')));
+        response.data.on('error', reject);
+      });
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
       }
+      throw error;
     }
-
-    return files;
   }
 
   public async createManifest(uploadResults: {
@@ -447,27 +655,68 @@ export class BlossomManager {
     }
   }
 
+  /**
+   * List the blobs a pubkey has stored on a server (BUD-02 `GET /list/<pubkey>`).
+   * Servers that require authorization for listing get a kind 24242 `t=list` event.
+   */
+  public async listBlobs(pubkey: string, serverUrl: string): Promise<BlobDescriptor[]> {
+    const listUrl = `${serverUrl}/list/${pubkey}`;
+
+    let response: AxiosResponse;
+    try {
+      response = await axios.get(listUrl, { timeout: 30000 });
+    } catch (error) {
+      if (!axios.isAxiosError(error) || error.response?.status !== 401) {
+        throw new Error(`Failed to list blobs: ${this.describeHttpError(error)}`);
+      }
+
+      try {
+        const authHeader = await this.createBlossomAuthEvent('list', undefined, 'List blobs');
+        response = await axios.get(listUrl, {
+          headers: { Authorization: authHeader },
+          timeout: 30000,
+        });
+      } catch (authError) {
+        throw new Error(`Failed to list blobs: ${this.describeHttpError(authError)}`);
+      }
+    }
+
+    if (!Array.isArray(response.data)) {
+      throw new Error('Failed to list blobs: unexpected response from server');
+    }
+    return response.data;
+  }
+
+  /**
+   * Delete a blob, retrying transient failures. Blobs the server no longer has
+   * count as deleted.
+   */
   public async deleteFile(sha256: string, serverUrl?: string): Promise<void> {
     const targetServer = serverUrl || this.servers[0];
+    const authHeader = await this.createBlossomAuthEvent('delete', sha256, `Delete ${sha256}`);
 
     try {
-      const authHeader = await this.createBlossomAuthEvent('delete', sha256, 'file');
-
-      await axios.delete(`${targetServer}/${sha256}`, {
-        headers: {
-          Authorization: authHeader,
-        },
-      });
+      await withRetry(
+        () =>
+          axios.delete(`${targetServer}/${sha256}`, {
+            headers: {
+              Authorization: authHeader,
+            },
+            timeout: 30000,
+          }),
+        await this.getRetryPolicy(),
+        classifyHttpError
+      );
     } catch (error) {
       if (axios.isAxiosError(error) && error.response?.status === 404) {
         // File already deleted or doesn't exist
         return;
       }
-      throw new Error(`Failed to delete file: ${error}`);
+      throw new Error(`Failed to delete file: ${this.describeHttpError(error)}`);
     }
   }
 
-  private getMimeType(filename: string): string {
+  public getMimeType(filename: string): string {
     const extension = filename.split('.').pop()?.toLowerCase();
 
     const mimeTypes: { [key: string]: string } = {
@@ -499,6 +748,11 @@ export class BlossomManager {
     return mimeTypes[extension || ''] || 'application/octet-stream';
   }
 
+  public async getServers(): Promise<string[]> {
+    await this.getConfig();
+    return this.servers;
+  }
+
   public getFileUrl(sha256: string, serverUrl?: string): string {
     const targetServer = serverUrl || this.servers[0];
     return `${targetServer}/${sha256}`;
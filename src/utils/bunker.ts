@@ -0,0 +1,249 @@
+import { createHash, randomBytes } from 'crypto';
+import {
+  EventTemplate,
+  Filter,
+  finalizeEvent,
+  getPublicKey,
+  nip44,
+  Event as NostrEvent,
+  SimplePool,
+  VerifiedEvent,
+  verifyEvent,
+} from 'nostr-tools';
+import { log } from './output';
+import { NostrSigner } from './signer';
+
+/**
+ * NIP-46 remote signing. Requests and responses are kind 24133 events between a
+ * client key and the remote signer, their content NIP-44 encrypted JSON-RPC.
+ */
+
+export const NOSTR_CONNECT_KIND = 24133;
+
+// Remote signers may wait for the user to approve a request on another device
+const DEFAULT_REQUEST_TIMEOUT_MS = 60000;
+
+export interface BunkerPointer {
+  remotePubkey: string;
+  relays: string[];
+  secret?: string;
+}
+
+/**
+ * How requests reach the remote signer, normally its relays
+ */
+export interface BunkerTransport {
+  publish(event: NostrEvent): Promise<void>;
+  subscribe(filter: Filter, onEvent: (event: NostrEvent) => void): { close(): void };
+  close(): void;
+}
+
+interface PendingRequest {
+  resolve: (result: string) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Parse a `bunker://<remote-signer-pubkey>?relay=wss://...&secret=...` connection string
+ */
+export function parseBunkerUrl(url: string): BunkerPointer {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new Error(`Invalid bunker URL: ${url}`);
+  }
+
+  if (parsed.protocol !== 'bunker:' || !/^[0-9a-f]{64}$/.test(parsed.hostname)) {
+    throw new Error('Invalid bunker URL: expected bunker://<remote-signer-pubkey>?relay=wss://...');
+  }
+
+  const relays = parsed.searchParams.getAll('relay').filter((relay) => /^wss?:\/\//.test(relay));
+  if (relays.length === 0) {
+    throw new Error('Invalid bunker URL: at least one relay=wss://... parameter is required');
+  }
+
+  return {
+    remotePubkey: parsed.hostname,
+    relays,
+    secret: parsed.searchParams.get('secret') || undefined,
+  };
+}
+
+export function createRelayTransport(relays: string[]): BunkerTransport {
+  const pool = new SimplePool();
+
+  return {
+    publish: async (event) => {
+      const results = await Promise.allSettled(pool.publish(relays, event));
+      const rejected = results.filter(
+        (result): result is PromiseRejectedResult => result.status === 'rejected'
+      );
+      if (rejected.length === results.length) {
+        throw new Error(`No bunker relay accepted the request: ${rejected[0]?.reason}`);
+      }
+    },
+    subscribe: (filter, onEvent) => pool.subscribeMany(relays, [filter], { onevent: onEvent }),
+    close: () => pool.close(relays),
+  };
+}
+
+/**
+ * Signs events with a NIP-46 remote signer
+ */
+export class BunkerSigner implements NostrSigner {
+  private readonly clientPublicKey: string;
+  private readonly conversationKey: Uint8Array;
+  private readonly pending = new Map<string, PendingRequest>();
+  private subscription: { close(): void } | null = null;
+  private connection: Promise<void> | null = null;
+  private publicKey: Promise<string> | null = null;
+
+  constructor(
+    private readonly pointer: BunkerPointer,
+    private readonly clientSecretKey: Uint8Array,
+    private readonly transport: BunkerTransport,
+    private readonly timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS
+  ) {
+    this.clientPublicKey = getPublicKey(clientSecretKey);
+    this.conversationKey = nip44.getConversationKey(clientSecretKey, pointer.remotePubkey);
+  }
+
+  /**
+   * Create a signer for a connection string. The client key is derived from the
+   * string, so the bunker recognizes the same client on every run without a
+   * second secret in the project configuration.
+   */
+  public static fromUrl(url: string): BunkerSigner {
+    const pointer = parseBunkerUrl(url);
+    const clientSecretKey = createHash('sha256').update(`nostr-deploy-cli:${url}`).digest();
+    return new BunkerSigner(
+      pointer,
+      new Uint8Array(clientSecretKey),
+      createRelayTransport(pointer.relays)
+    );
+  }
+
+  public connect(): Promise<void> {
+    if (!this.connection) {
+      const params = [
+        this.pointer.remotePubkey,
+        ...(this.pointer.secret ? [this.pointer.secret] : []),
+      ];
+      this.connection = this.request('connect', params).then(
+        () => undefined,
+        (error) => {
+          this.connection = null;
+          throw error;
+        }
+      );
+    }
+    return this.connection;
+  }
+
+  public async getPublicKey(): Promise<string> {
+    await this.connect();
+    if (!this.publicKey) {
+      this.publicKey = this.request('get_public_key', []);
+    }
+    return this.publicKey;
+  }
+
+  public async signEvent(template: EventTemplate): Promise<VerifiedEvent> {
+    const pubkey = await this.getPublicKey();
+    const result = await this.request('sign_event', [JSON.stringify({ ...template, pubkey })]);
+
+    const event = JSON.parse(result);
+    if (event.pubkey !== pubkey || !verifyEvent(event)) {
+      throw new Error('Remote signer returned an invalid signature');
+    }
+    return event;
+  }
+
+  public async close(): Promise<void> {
+    this.subscription?.close();
+    this.subscription = null;
+    this.pending.forEach((request) => {
+      clearTimeout(request.timer);
+      request.reject(new Error('Remote signer connection closed'));
+    });
+    this.pending.clear();
+    this.transport.close();
+  }
+
+  private async request(method: string, params: string[]): Promise<string> {
+    this.listen();
+
+    const id = randomBytes(8).toString('hex');
+    const event = finalizeEvent(
+      {
+        kind: NOSTR_CONNECT_KIND,
+        created_at: Math.floor(Date.now() / 1000),
+        tags: [['p', this.pointer.remotePubkey]],
+        content: nip44.encrypt(JSON.stringify({ id, method, params }), this.conversationKey),
+      },
+      this.clientSecretKey
+    );
+
+    const response = new Promise<string>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(
+          new Error(`Remote signer did not answer ${method} within ${this.timeoutMs / 1000}s`)
+        );
+      }, this.timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+    });
+
+    try {
+      await this.transport.publish(event);
+    } catch (error) {
+      const request = this.pending.get(id);
+      this.pending.delete(id);
+      if (request) clearTimeout(request.timer);
+      throw error;
+    }
+    return response;
+  }
+
+  private listen(): void {
+    if (this.subscription) return;
+
+    this.subscription = this.transport.subscribe(
+      {
+        kinds: [NOSTR_CONNECT_KIND],
+        authors: [this.pointer.remotePubkey],
+        '#p': [this.clientPublicKey],
+        since: Math.floor(Date.now() / 1000) - 10,
+      },
+      (event) => this.handleResponse(event)
+    );
+  }
+
+  private handleResponse(event: NostrEvent): void {
+    let response: { id?: string; result?: string; error?: string };
+    try {
+      response = JSON.parse(nip44.decrypt(event.content, this.conversationKey));
+    } catch {
+      return;
+    }
+
+    const request = response.id ? this.pending.get(response.id) : undefined;
+    if (!request) return;
+
+    // The signer wants the user to approve the request in a browser, keep waiting
+    if (response.result === 'auth_url') {
+      log(`🔐 Approve the request in your remote signer: ${response.error}`);
+      return;
+    }
+
+    this.pending.delete(response.id!);
+    clearTimeout(request.timer);
+    if (response.error) {
+      request.reject(new Error(`Remote signer error: ${response.error}`));
+    } else {
+      request.resolve(response.result || '');
+    }
+  }
+}
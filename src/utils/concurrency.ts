@@ -0,0 +1,41 @@
+/**
+ * Counting semaphore that limits how many tasks run at the same time.
+ * Waiting tasks are started in the order they were queued.
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(private readonly limit: number) {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error(`Invalid concurrency limit: ${limit}`);
+    }
+  }
+
+  public async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      // Hand the slot over to the next task without decrementing
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
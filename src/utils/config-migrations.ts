@@ -0,0 +1,152 @@
+/**
+ * Versioned env config files. Each file records the format it was written in
+ * as CONFIG_VERSION; files without it are version 1. Older files are upgraded
+ * in place by the migrations below, after a backup.
+ */
+
+export const CONFIG_VERSION = 2;
+
+export const CONFIG_VERSION_KEY = 'CONFIG_VERSION';
+
+/**
+ * The KEY=value lines of an env file, edited without losing comments or order
+ */
+export class EnvFileLines {
+  private lines: string[];
+
+  constructor(content: string) {
+    this.lines = content.split('\n');
+  }
+
+  public get(key: string): string | undefined {
+    const index = this.indexOf(key);
+    if (index === -1) return undefined;
+    const line = this.lines[index];
+    return line
+      .slice(line.indexOf('=') + 1)
+      .trim()
+      .replace(/^["']|["']$/g, '');
+  }
+
+  /**
+   * Replace the line of a key, or add one: at the end, or after the leading comments with `first`
+   */
+  public set(key: string, value: string, first = false): void {
+    const index = this.indexOf(key);
+    if (index !== -1) {
+      this.lines[index] = `${key}=${value}`;
+      return;
+    }
+
+    if (!first) {
+      const end =
+        this.lines[this.lines.length - 1] === '' ? this.lines.length - 1 : this.lines.length;
+      this.lines.splice(end, 0, `${key}=${value}`);
+      return;
+    }
+    let position = 0;
+    while (position < this.lines.length && this.lines[position].trim().startsWith('#')) {
+      position++;
+    }
+    this.lines.splice(position, 0, `${key}=${value}`);
+  }
+
+  public delete(key: string): void {
+    const index = this.indexOf(key);
+    if (index !== -1) {
+      this.lines.splice(index, 1);
+    }
+  }
+
+  public toString(): string {
+    return this.lines.join('\n');
+  }
+
+  private indexOf(key: string): number {
+    return this.lines.findIndex((line) => {
+      const trimmed = line.trim();
+      return !trimmed.startsWith('#') && trimmed.split('=')[0].trim() === key;
+    });
+  }
+}
+
+interface ConfigMigration {
+  // The version a file has after this migration
+  version: number;
+  description: string;
+  migrate: (file: EnvFileLines) => void;
+}
+
+const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    version: 2,
+    description: 'BLOSSOM_SERVER_URL is merged into BLOSSOM_SERVERS',
+    migrate: (file) => {
+      const legacyServer = file.get('BLOSSOM_SERVER_URL');
+      if (legacyServer === undefined) return;
+
+      const servers = (file.get('BLOSSOM_SERVERS') || '')
+        .split(',')
+        .map((server) => server.trim())
+        .filter(Boolean);
+      if (legacyServer && !servers.includes(legacyServer)) {
+        servers.push(legacyServer);
+      }
+      file.delete('BLOSSOM_SERVER_URL');
+      if (servers.length > 0) {
+        file.set('BLOSSOM_SERVERS', servers.join(','));
+      }
+    },
+  },
+];
+
+export function getConfigVersion(content: string): number {
+  const version = new EnvFileLines(content).get(CONFIG_VERSION_KEY);
+  if (version === undefined) {
+    return 1;
+  }
+  if (!/^\d+$/.test(version)) {
+    throw new Error(`${CONFIG_VERSION_KEY} must be a number, found "${version}"`);
+  }
+  return parseInt(version, 10);
+}
+
+/**
+ * Upgrade the content of an env file to CONFIG_VERSION. Returns the
+ * descriptions of the migrations that changed something.
+ */
+export function migrateEnvContent(content: string): {
+  content: string;
+  fromVersion: number;
+  applied: string[];
+} {
+  const fromVersion = getConfigVersion(content);
+  if (fromVersion > CONFIG_VERSION) {
+    throw new Error(
+      `${CONFIG_VERSION_KEY}=${fromVersion} was written by a newer nostr-deploy-cli, this one reads up to ${CONFIG_VERSION}. Please upgrade.`
+    );
+  }
+
+  const file = new EnvFileLines(content);
+  const applied: string[] = [];
+  CONFIG_MIGRATIONS.filter((migration) => migration.version > fromVersion).forEach((migration) => {
+    const before = file.toString();
+    migration.migrate(file);
+    if (file.toString() !== before) {
+      applied.push(migration.description);
+    }
+  });
+  file.set(CONFIG_VERSION_KEY, String(CONFIG_VERSION), true);
+
+  return { content: file.toString(), fromVersion, applied };
+}
+
+/**
+ * Where the copy of a file is kept before it is upgraded. Project files keep
+ * their `.local` suffix, so .gitignore rules for the env files match the copy too.
+ */
+export function getBackupPath(filePath: string, version: number): string {
+  return filePath.endsWith('.local')
+    ? `${filePath.slice(0, -'.local'.length)}.v${version}.bak.local`
+    : `${filePath}.v${version}.bak`;
+}
@@ -0,0 +1,228 @@
+/**
+ * The settings that can be configured, by key path such as `blossom.servers`,
+ * with the checks every layer has to pass.
+ */
+
+type ValueType =
+  | 'string'
+  | 'domain'
+  | 'boolean'
+  | 'positiveInt'
+  | 'stringList'
+  | 'relayList'
+  | 'serverList'
+  | 'serverLimits';
+
+export const CONFIG_SCHEMA: { [section: string]: { [key: string]: ValueType } } = {
+  nostr: {
+    relays: 'relayList',
+    authRelays: 'relayList',
+    useRelayList: 'boolean',
+    maxPowDifficulty: 'positiveInt',
+  },
+  blossom: {
+    servers: 'serverList',
+    concurrency: 'positiveInt',
+    serverConcurrency: 'positiveInt',
+    serverLimits: 'serverLimits',
+  },
+  deployment: {
+    baseDomain: 'domain',
+  },
+  retry: {
+    attempts: 'positiveInt',
+    baseDelayMs: 'positiveInt',
+  },
+  deploy: {
+    dir: 'string',
+    incremental: 'boolean',
+    keepStale: 'boolean',
+    spa: 'boolean',
+    exclude: 'stringList',
+    include: 'stringList',
+  },
+};
+
+// The identity: set with `auth` and kept in env files, which are never committed
+export const SECRET_KEY_PATHS = ['nostr.privateKey', 'nostr.bunker', 'nostr.publicKey'];
+
+export const CONFIG_KEY_PATHS = Object.entries(CONFIG_SCHEMA).flatMap(([section, keys]) =>
+  Object.keys(keys).map((key) => `${section}.${key}`)
+);
+
+const TYPE_DESCRIPTIONS: { [type in ValueType]: string } = {
+  string: 'a non-empty string',
+  domain: 'a hostname such as example.com',
+  boolean: 'true or false',
+  positiveInt: 'a positive integer',
+  stringList: 'a list of strings',
+  relayList: 'a list of relay URLs (wss:// or ws://)',
+  serverList: 'a list of Blossom server URLs (https://)',
+  serverLimits: 'server URLs with positive integer limits',
+};
+
+const DOMAIN_PATTERN =
+  /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
+
+export function isSecretKey(keyPath: string): boolean {
+  return SECRET_KEY_PATHS.includes(keyPath);
+}
+
+export function isConfigKey(keyPath: string): boolean {
+  return CONFIG_KEY_PATHS.includes(keyPath);
+}
+
+/**
+ * The candidate closest to a misspelled name, if one is close enough
+ */
+export function suggest(input: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(input.length / 4)) + 1;
+  candidates.forEach((candidate) => {
+    const distance = editDistance(input.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+export function unknownKeyMessage(name: string, candidates: string[]): string {
+  const suggestion = suggest(name, candidates);
+  return `unknown key "${name}"${suggestion ? `, did you mean "${suggestion}"?` : ''}`;
+}
+
+// Levenshtein distance
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+export function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isPositiveInt(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function hasProtocol(url: string, protocols: string[]): boolean {
+  try {
+    return protocols.includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function isStringList(value: unknown, check: (item: string) => boolean = () => true): boolean {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && check(item));
+}
+
+function matchesType(value: unknown, type: ValueType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string' && value.trim().length > 0;
+    case 'domain':
+      return typeof value === 'string' && DOMAIN_PATTERN.test(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'positiveInt':
+      return isPositiveInt(value);
+    case 'stringList':
+      return isStringList(value);
+    case 'relayList':
+      return isStringList(value, (url) => hasProtocol(url, ['wss:', 'ws:']));
+    case 'serverList':
+      return isStringList(value, (url) => hasProtocol(url, ['https:']));
+    case 'serverLimits':
+      return isPlainObject(value) && Object.values(value).every(isPositiveInt);
+  }
+}
+
+/**
+ * What is wrong with a value for a key path, or null when it is valid
+ */
+export function validateConfigValue(keyPath: string, value: unknown): string | null {
+  if (isSecretKey(keyPath)) {
+    return `${keyPath} is set with \`nostr-deploy-cli auth\``;
+  }
+  const [section, key] = keyPath.split('.');
+  const type = CONFIG_SCHEMA[section]?.[key];
+  if (!type) {
+    return unknownKeyMessage(keyPath, CONFIG_KEY_PATHS);
+  }
+  return matchesType(value, type) ? null : `${keyPath} must be ${TYPE_DESCRIPTIONS[type]}`;
+}
+
+/**
+ * Read a value typed on the command line: lists are comma-separated and
+ * server limits are written as `https://server=2,https://other=4`
+ */
+export function parseConfigValue(keyPath: string, input: string): unknown {
+  const [section, key] = keyPath.split('.');
+  const type = CONFIG_SCHEMA[section]?.[key];
+  const items = input
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+  let value: unknown = input.trim();
+  switch (type) {
+    case 'boolean':
+      value = input === 'true' ? true : input === 'false' ? false : input;
+      break;
+    case 'positiveInt':
+      value = /^\d+$/.test(input.trim()) ? parseInt(input, 10) : input;
+      break;
+    case 'stringList':
+    case 'relayList':
+    case 'serverList':
+      if (items.length === 0) {
+        throw new Error(`${keyPath} needs at least one value, use \`config unset\` to clear it`);
+      }
+      value = items;
+      break;
+    case 'serverLimits':
+      value = Object.fromEntries(
+        items.map((item) => {
+          const separator = item.lastIndexOf('=');
+          const limit = item.slice(separator + 1);
+          return [item.slice(0, separator), /^\d+$/.test(limit) ? parseInt(limit, 10) : limit];
+        })
+      );
+      break;
+  }
+
+  const problem = validateConfigValue(keyPath, value);
+  if (problem) {
+    throw new Error(problem);
+  }
+  return value;
+}
+
+/**
+ * A value in the form parseConfigValue reads
+ */
+export function formatConfigValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.join(',');
+  }
+  if (isPlainObject(value)) {
+    return Object.entries(value)
+      .map(([key, item]) => `${key}=${item}`)
+      .join(',');
+  }
+  return String(value);
+}
@@ -1,12 +1,230 @@
 import * as fs from 'fs-extra';
+import { getPublicKey, nip19 } from 'nostr-tools';
+import * as os from 'os';
 import * as path from 'path';
-import { UserConfig } from '../types';
+import {
+  BlossomConfig,
+  DeploymentConfig,
+  DeploySettings,
+  NostrConfig,
+  ProjectConfig,
+  RetryConfig,
+  UserConfig,
+} from '../types';
+import {
+  CONFIG_VERSION,
+  CONFIG_VERSION_KEY,
+  EnvFileLines,
+  getBackupPath,
+  migrateEnvContent,
+} from './config-migrations';
+import { isConfigKey, isSecretKey, unknownKeyMessage, validateConfigValue } from './config-schema';
+import {
+  findProjectConfigFile,
+  isJsonConfigFile,
+  loadProjectConfig,
+  PROJECT_CONFIG_FILES,
+  serializeProjectConfig,
+} from './project-config';
 
 const CONFIG_FILE = '.env.nostr-deploy.local';
+const USER_CONFIG_FILE = 'config.env';
+const DEFAULT_BASE_DOMAIN = 'nostrdeploy.com';
+
+// Selects a profile when --profile is not given
+export const PROFILE_ENV = 'NOSTR_DEPLOY_PROFILE';
+
+// Read on every run, e.g. in CI. They override the config file and are never written to it.
+export const ENVIRONMENT_VARIABLES = [
+  'NOSTR_DEPLOY_NSEC',
+  'NOSTR_DEPLOY_RELAYS',
+  'NOSTR_DEPLOY_BLOSSOM_SERVERS',
+  'NOSTR_DEPLOY_BASE_DOMAIN',
+];
+
+// The variables an env config file may set
+const ENV_FILE_KEYS = [
+  CONFIG_VERSION_KEY,
+  'NOSTR_PRIVATE_KEY',
+  'NOSTR_PUBLIC_KEY',
+  'NOSTR_BUNKER_URL',
+  'NOSTR_RELAYS',
+  'NOSTR_AUTH_RELAYS',
+  'NOSTR_USE_RELAY_LIST',
+  'NOSTR_MAX_POW_DIFFICULTY',
+  'BLOSSOM_SERVERS',
+  'BLOSSOM_CONCURRENCY',
+  'BLOSSOM_SERVER_CONCURRENCY',
+  'BLOSSOM_SERVER_LIMITS',
+  'BASE_DOMAIN',
+  'RETRY_ATTEMPTS',
+  'RETRY_BASE_DELAY_MS',
+];
+
+/**
+ * The settings of one configuration layer; only what the layer sets is present
+ */
+export interface ConfigValues {
+  nostr?: Partial<NostrConfig>;
+  blossom?: Partial<BlossomConfig>;
+  deployment?: Partial<DeploymentConfig>;
+  retry?: RetryConfig;
+  deploy?: DeploySettings;
+}
+
+/**
+ * Configuration layers, lowest precedence first: the user file under
+ * $XDG_CONFIG_HOME/nostr-deploy, the committed project config file, the
+ * project env file, environment variables and command line flags. An active
+ * profile adds its own user and project env file on top of each.
+ */
+export interface ConfigLayer {
+  name: string;
+  path?: string;
+  // env files hold secrets; json and module (.ts/.mjs) files are project config files
+  format?: 'env' | 'json' | 'module';
+  exists: boolean;
+  values: ConfigValues;
+}
+
+export type ConfigScope = 'user' | 'project';
+
+const CONFIG_SECTIONS = ['nostr', 'blossom', 'deployment', 'retry', 'deploy'] as const;
+
+// The key and its public key always come from the same layer
+const IDENTITY_KEYS = ['privateKey', 'bunker', 'publicKey'];
+
+function parsePositiveInt(value: string): number | undefined {
+  const parsed = parseInt(value, 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Parse per-server limits written as `https://server=2,https://other=4`
+ */
+function parseServerLimits(value: string): { [server: string]: number } {
+  const limits: { [server: string]: number } = {};
+  value.split(',').forEach((entry) => {
+    const separator = entry.lastIndexOf('=');
+    if (separator === -1) return;
+    const server = entry.slice(0, separator).trim();
+    const limit = parsePositiveInt(entry.slice(separator + 1).trim());
+    if (server && limit) limits[server] = limit;
+  });
+  return limits;
+}
+
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function parsePrivateKey(value: string): string {
+  if (/^[0-9a-f]{64}$/i.test(value)) {
+    return value.toLowerCase();
+  }
+  try {
+    const decoded = nip19.decode(value);
+    if (decoded.type === 'nsec') {
+      return Buffer.from(decoded.data).toString('hex');
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error('NOSTR_DEPLOY_NSEC must be an nsec1... or hex private key');
+}
+
+/**
+ * Settings from NOSTR_DEPLOY_* environment variables
+ */
+function readEnvironmentOverrides(env: NodeJS.ProcessEnv): ConfigValues {
+  const overrides: ConfigValues = {};
+
+  const nsec = env.NOSTR_DEPLOY_NSEC?.trim();
+  if (nsec) {
+    const privateKey = parsePrivateKey(nsec);
+    const publicKey = getPublicKey(new Uint8Array(Buffer.from(privateKey, 'hex')));
+    // The key from the environment replaces a configured bunker as well
+    overrides.nostr = { privateKey, publicKey, bunker: undefined };
+  }
+  if (env.NOSTR_DEPLOY_RELAYS?.trim()) {
+    overrides.nostr = { ...overrides.nostr, relays: parseList(env.NOSTR_DEPLOY_RELAYS) };
+  }
+  if (env.NOSTR_DEPLOY_BLOSSOM_SERVERS?.trim()) {
+    overrides.blossom = { servers: parseList(env.NOSTR_DEPLOY_BLOSSOM_SERVERS) };
+  }
+  if (env.NOSTR_DEPLOY_BASE_DOMAIN?.trim()) {
+    overrides.deployment = { baseDomain: env.NOSTR_DEPLOY_BASE_DOMAIN.trim() };
+  }
+
+  return overrides;
+}
+
+export function getUserConfigDirectory(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(configHome, 'nostr-deploy');
+}
+
+export function normalizeProfileName(profile: string): string {
+  const name = profile.trim().toLowerCase();
+  if (!/^[a-z0-9][a-z0-9_-]*$/.test(name)) {
+    throw new Error(
+      `Invalid profile name "${profile}": use letters, digits, "-" and "_", starting with a letter or digit`
+    );
+  }
+  return name;
+}
+
+/**
+ * Merge layers key by key, later layers winning, and note where each value came from
+ */
+function mergeLayers(layers: ConfigLayer[]): {
+  values: ConfigValues;
+  sources: { [keyPath: string]: string };
+} {
+  const values: ConfigValues = {};
+  const sources: { [keyPath: string]: string } = {};
+
+  layers.forEach((layer) => {
+    CONFIG_SECTIONS.forEach((section) => {
+      const layerValues = layer.values[section] as { [key: string]: unknown } | undefined;
+      if (!layerValues) return;
+
+      const merged = (values[section] || {}) as { [key: string]: unknown };
+      if (section === 'nostr' && IDENTITY_KEYS.some((key) => key in layerValues)) {
+        IDENTITY_KEYS.forEach((key) => {
+          delete merged[key];
+          delete sources[`nostr.${key}`];
+        });
+      }
+
+      Object.entries(layerValues).forEach(([key, value]) => {
+        if (value === undefined) return;
+        merged[key] = value;
+        sources[`${section}.${key}`] = layer.name;
+      });
+      values[section] = merged;
+    });
+  });
+
+  return { values, sources };
+}
 
 export class ConfigManager {
   private static instance: ConfigManager;
-  private config: Partial<UserConfig> = {};
+  private static profile: string | undefined;
+  private static reportProblems = true;
+  private layers: ConfigLayer[] = [];
+  // The env file that setters change and saveConfig writes
+  private target!: ConfigLayer;
+  // Layers with changes that saveConfig has not written yet
+  private changedLayers = new Set<ConfigLayer>();
+  // Unknown keys and ignored values found while loading
+  private warnings: string[] = [];
+  // The content of each env file as last read or written, kept around so saves only change our keys
+  private envFiles = new Map<string, string>();
   private initialized = false;
   private projectPath: string;
 
@@ -27,116 +245,379 @@ export class ConfigManager {
     return ConfigManager.instance;
   }
 
+  /**
+   * Select a named profile, before the configuration is loaded
+   */
+  public static useProfile(profile: string | undefined): void {
+    ConfigManager.profile = profile ? normalizeProfileName(profile) : undefined;
+    if (ConfigManager.instance) {
+      ConfigManager.instance.initialized = false;
+    }
+  }
+
+  /**
+   * Leave reporting load warnings to the caller, as `config validate` does
+   */
+  public static setReportProblems(report: boolean): void {
+    ConfigManager.reportProblems = report;
+  }
+
+  public getWarnings(): string[] {
+    return this.warnings;
+  }
+
+  public getProfile(): string | undefined {
+    return ConfigManager.profile ?? (process.env[PROFILE_ENV] || undefined);
+  }
+
+  /**
+   * The file that changes are saved to
+   */
   public getConfigPath(): string {
-    return path.join(this.projectPath, CONFIG_FILE);
+    return this.target.path!;
+  }
+
+  /**
+   * Save changes to the user file (or user profile file) instead of the project
+   */
+  public setScope(scope: ConfigScope): void {
+    const envLayers = this.layers.filter(
+      (layer) => layer.format === 'env' && layer.name.startsWith(scope)
+    );
+    this.target = envLayers[envLayers.length - 1];
   }
 
+  /**
+   * The committed project config file, or where `config init` would create it
+   */
+  public getProjectConfigLayer(): ConfigLayer {
+    return this.layers.find((layer) => layer.name === 'project config')!;
+  }
+
+  /**
+   * Whether the project is configured, in a config file or through NOSTR_DEPLOY_* variables
+   */
   public async hasLocalConfig(): Promise<boolean> {
-    return await fs.pathExists(this.getConfigPath());
+    return this.hasEnvironmentConfig() || (await this.hasConfigFile());
+  }
+
+  public async hasConfigFile(): Promise<boolean> {
+    const existing = await Promise.all(
+      this.layers.filter((layer) => layer.path).map((layer) => fs.pathExists(layer.path!))
+    );
+    return existing.some(Boolean);
+  }
+
+  public hasEnvironmentConfig(): boolean {
+    return this.getEnvironmentVariables().length > 0;
+  }
+
+  /**
+   * The NOSTR_DEPLOY_* variables that override the config file in this run
+   */
+  public getEnvironmentVariables(): string[] {
+    return ENVIRONMENT_VARIABLES.filter((name) => !!process.env[name]?.trim());
+  }
+
+  public getLayers(): ConfigLayer[] {
+    return this.layers;
+  }
+
+  /**
+   * The layer each effective value comes from, by key path such as `nostr.relays`
+   */
+  public getSources(): { [keyPath: string]: string } {
+    return mergeLayers(this.layers).sources;
+  }
+
+  /**
+   * Values given as command line flags for this run, never saved
+   */
+  public setFlagOverrides(values: ConfigValues): void {
+    this.layers[this.layers.length - 1].values = values;
   }
 
   private async loadConfig(): Promise<void> {
-    try {
-      const configPath = this.getConfigPath();
-      if (await fs.pathExists(configPath)) {
-        const envContent = await fs.readFile(configPath, 'utf-8');
-        this.config = this.parseEnvFile(envContent);
-      } else {
-        // Create default config structure (don't save to file)
-        const defaultConfig: UserConfig = {
-          nostr: { publicKey: '', relays: [] },
-          blossom: { servers: [] },
-          deployment: { baseDomain: 'nostrdeploy.com' },
-        };
-        this.config = defaultConfig;
+    const profile = this.getProfile() && normalizeProfileName(this.getProfile()!);
+    const userDirectory = getUserConfigDirectory();
+
+    const envFiles: { name: string; path: string }[] = [
+      { name: 'user', path: path.join(userDirectory, USER_CONFIG_FILE) },
+    ];
+    if (profile) {
+      envFiles.push({
+        name: `user profile ${profile}`,
+        path: path.join(userDirectory, 'profiles', `${profile}.env`),
+      });
+    }
+    envFiles.push({ name: 'project', path: path.join(this.projectPath, CONFIG_FILE) });
+    if (profile) {
+      envFiles.push({
+        name: `project profile ${profile}`,
+        path: path.join(this.projectPath, `.env.nostr-deploy.${profile}.local`),
+      });
+    }
+
+    this.layers = [];
+    this.changedLayers.clear();
+    this.warnings = [];
+    this.envFiles.clear();
+    for (const file of envFiles) {
+      if (file.name === 'project') {
+        this.layers.push(await this.loadProjectConfigLayer());
       }
+      const exists = await fs.pathExists(file.path);
+      const values = exists ? this.parseEnvFile(await this.readEnvFile(file.path), file.path) : {};
+      this.layers.push({ ...file, format: 'env', exists, values });
+    }
+    this.layers.push(
+      { name: 'environment', exists: true, values: readEnvironmentOverrides(process.env) },
+      { name: 'flags', exists: true, values: {} }
+    );
+
+    // Changes go to the most specific project file
+    this.setScope('project');
+
+    if (ConfigManager.reportProblems) {
+      this.warnings.forEach((warning) => console.warn(`⚠️  ${warning}`));
+    }
+  }
+
+  /**
+   * Read an env file. A file written by an older version is upgraded in place
+   * first, after a byte-for-byte copy of the original is saved next to it.
+   */
+  private async readEnvFile(filePath: string): Promise<string> {
+    const original = await fs.readFile(filePath);
+    const content = original.toString('utf-8');
+
+    let migration: ReturnType<typeof migrateEnvContent>;
+    try {
+      migration = migrateEnvContent(content);
     } catch (error) {
-      console.error('Error loading config:', error);
-      throw error;
+      throw new Error(`${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (migration.fromVersion < CONFIG_VERSION) {
+      const backupPath = getBackupPath(filePath, migration.fromVersion);
+      try {
+        // The copy holds the key too, only the owner may read it. A copy left by an
+        // earlier upgrade attempt is the older one and is kept.
+        await fs.writeFile(backupPath, original, { mode: 0o600, flag: 'wx' });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw new Error(`Could not back up ${filePath} before upgrading it: ${error}`);
+        }
+      }
+      await fs.writeFile(filePath, migration.content, 'utf-8');
+      console.warn(
+        `⚠️  Upgraded ${filePath} to config version ${CONFIG_VERSION}, the original is in ${backupPath}`
+      );
+      migration.applied.forEach((description) => console.warn(`   - ${description}`));
     }
+
+    this.envFiles.set(filePath, migration.content);
+    return migration.content;
   }
 
-  private parseEnvFile(content: string): Partial<UserConfig> {
+  private async loadProjectConfigLayer(): Promise<ConfigLayer> {
+    const filePath = await findProjectConfigFile(this.projectPath);
+    if (!filePath) {
+      return {
+        name: 'project config',
+        path: path.join(this.projectPath, PROJECT_CONFIG_FILES[0]),
+        format: 'json',
+        exists: false,
+        values: {},
+      };
+    }
+
+    return {
+      name: 'project config',
+      path: filePath,
+      format: isJsonConfigFile(filePath) ? 'json' : 'module',
+      exists: true,
+      values: await loadProjectConfig(filePath),
+    };
+  }
+
+  private parseEnvFile(content: string, filePath: string): ConfigValues {
     const lines = content.split('\n');
-    const config: Partial<UserConfig> = {
-      nostr: {
-        publicKey: '',
-        relays: [],
-      },
-      blossom: { servers: [] },
-      deployment: { baseDomain: '' },
+    const config: ConfigValues = {};
+    const nostr = (): Partial<NostrConfig> => (config.nostr = config.nostr || {});
+    const blossom = (): Partial<BlossomConfig> => (config.blossom = config.blossom || {});
+    const positiveInt = (key: string, value: string): number | undefined => {
+      const parsed = parsePositiveInt(value);
+      if (parsed === undefined) {
+        this.warnings.push(`${filePath}: ${key}=${value} is not a positive integer and is ignored`);
+      }
+      return parsed;
     };
 
     for (const line of lines) {
       const trimmedLine = line.trim();
       if (!trimmedLine || trimmedLine.startsWith('#')) continue;
 
-      const [key, ...valueParts] = trimmedLine.split('=');
+      const [rawKey, ...valueParts] = trimmedLine.split('=');
+      const key = rawKey.trim();
       const value = valueParts.join('=').trim();
 
       // Remove quotes if present
       const cleanValue = value.replace(/^["']|["']$/g, '');
 
-      switch (key?.trim()) {
+      switch (key) {
+        case CONFIG_VERSION_KEY:
+          // Checked by migrateEnvContent
+          break;
         case 'NOSTR_PRIVATE_KEY':
-          if (config.nostr) config.nostr.privateKey = cleanValue;
+          nostr().privateKey = cleanValue;
           break;
         case 'NOSTR_PUBLIC_KEY':
-          if (config.nostr) config.nostr.publicKey = cleanValue;
+          nostr().publicKey = cleanValue;
+          break;
+        case 'NOSTR_BUNKER_URL':
+          nostr().bunker = cleanValue;
           break;
         case 'NOSTR_RELAYS':
-          if (config.nostr) {
-            config.nostr.relays = cleanValue ? cleanValue.split(',').map((r) => r.trim()) : [];
-          }
+          nostr().relays = cleanValue ? cleanValue.split(',').map((r) => r.trim()) : [];
           break;
-
-        case 'BLOSSOM_SERVER_URL':
-          if (config.blossom) config.blossom.servers = [cleanValue];
+        case 'NOSTR_AUTH_RELAYS':
+          nostr().authRelays = cleanValue ? cleanValue.split(',').map((r) => r.trim()) : [];
+          break;
+        case 'NOSTR_USE_RELAY_LIST':
+          nostr().useRelayList = cleanValue.toLowerCase() !== 'false';
           break;
+        case 'NOSTR_MAX_POW_DIFFICULTY':
+          nostr().maxPowDifficulty = positiveInt(key, cleanValue);
+          break;
+
         case 'BLOSSOM_SERVERS':
-          if (config.blossom) config.blossom.servers = cleanValue.split(',').map((s) => s.trim());
+          blossom().servers = cleanValue.split(',').map((s) => s.trim());
+          break;
+        case 'BLOSSOM_CONCURRENCY':
+          blossom().concurrency = positiveInt(key, cleanValue);
+          break;
+        case 'BLOSSOM_SERVER_CONCURRENCY':
+          blossom().serverConcurrency = positiveInt(key, cleanValue);
+          break;
+        case 'BLOSSOM_SERVER_LIMITS':
+          blossom().serverLimits = parseServerLimits(cleanValue);
           break;
         case 'BASE_DOMAIN':
-          if (config.deployment) config.deployment.baseDomain = cleanValue;
+          config.deployment = { baseDomain: cleanValue };
           break;
+        case 'RETRY_ATTEMPTS':
+          config.retry = { ...config.retry, attempts: positiveInt(key, cleanValue) };
+          break;
+        case 'RETRY_BASE_DELAY_MS':
+          config.retry = { ...config.retry, baseDelayMs: positiveInt(key, cleanValue) };
+          break;
+        case 'BLOSSOM_SERVER_URL':
+          this.warnings.push(
+            `${filePath}: BLOSSOM_SERVER_URL is no longer read, use BLOSSOM_SERVERS`
+          );
+          break;
+        default:
+          this.warnings.push(`${filePath}: ${unknownKeyMessage(key, ENV_FILE_KEYS)}`);
       }
     }
 
     return config;
   }
 
-  private generateEnvContent(): string {
+  /**
+   * The new content of an env file layer. An existing file keeps its comments,
+   * its order and lines we don't know, only the variables we manage change.
+   */
+  private serializeEnvFile(layer: ConfigLayer): string {
+    const generated = this.generateEnvContent(layer.values);
+    const content = this.envFiles.get(layer.path!);
+    if (content === undefined) {
+      return generated;
+    }
+
+    const file = new EnvFileLines(content);
+    const values = new EnvFileLines(generated);
+    ENV_FILE_KEYS.forEach((key) => {
+      const value = values.get(key);
+      if (value === undefined) {
+        file.delete(key);
+      } else if (file.get(key) !== value) {
+        file.set(key, value, key === CONFIG_VERSION_KEY);
+      }
+    });
+    return file.toString();
+  }
+
+  private generateEnvContent(config: ConfigValues): string {
     const lines: string[] = [];
     lines.push('# Nostr Deploy CLI Configuration');
     lines.push('# This file contains sensitive information - do not commit to version control');
+    lines.push(`${CONFIG_VERSION_KEY}=${CONFIG_VERSION}`);
     lines.push('');
 
     // Nostr configuration
     lines.push('# Nostr Authentication');
-    if (this.config.nostr?.privateKey) {
-      lines.push(`NOSTR_PRIVATE_KEY=${this.config.nostr.privateKey}`);
+    if (config.nostr?.privateKey) {
+      lines.push(`NOSTR_PRIVATE_KEY=${config.nostr.privateKey}`);
+    }
+    if (config.nostr?.bunker) {
+      lines.push(`NOSTR_BUNKER_URL=${config.nostr.bunker}`);
     }
-    if (this.config.nostr?.publicKey) {
-      lines.push(`NOSTR_PUBLIC_KEY=${this.config.nostr.publicKey}`);
+    if (config.nostr?.publicKey) {
+      lines.push(`NOSTR_PUBLIC_KEY=${config.nostr.publicKey}`);
     }
-    if (this.config.nostr?.relays && this.config.nostr.relays.length > 0) {
-      lines.push(`NOSTR_RELAYS=${this.config.nostr.relays.join(',')}`);
+    if (config.nostr?.relays && config.nostr.relays.length > 0) {
+      lines.push(`NOSTR_RELAYS=${config.nostr.relays.join(',')}`);
+    }
+    if (config.nostr?.authRelays && config.nostr.authRelays.length > 0) {
+      lines.push(`NOSTR_AUTH_RELAYS=${config.nostr.authRelays.join(',')}`);
+    }
+    if (config.nostr?.useRelayList === false) {
+      lines.push('NOSTR_USE_RELAY_LIST=false');
+    }
+    if (config.nostr?.maxPowDifficulty) {
+      lines.push(`NOSTR_MAX_POW_DIFFICULTY=${config.nostr.maxPowDifficulty}`);
     }
 
     lines.push('');
 
     // Blossom configuration
     lines.push('# Blossom File Storage');
-    if (this.config.blossom?.servers && this.config.blossom.servers.length > 0) {
-      lines.push(`BLOSSOM_SERVERS=${this.config.blossom.servers.join(',')}`);
+    if (config.blossom?.servers && config.blossom.servers.length > 0) {
+      lines.push(`BLOSSOM_SERVERS=${config.blossom.servers.join(',')}`);
+    }
+    if (config.blossom?.concurrency) {
+      lines.push(`BLOSSOM_CONCURRENCY=${config.blossom.concurrency}`);
+    }
+    if (config.blossom?.serverConcurrency) {
+      lines.push(`BLOSSOM_SERVER_CONCURRENCY=${config.blossom.serverConcurrency}`);
+    }
+    const serverLimits = Object.entries(config.blossom?.serverLimits || {});
+    if (serverLimits.length > 0) {
+      lines.push(
+        `BLOSSOM_SERVER_LIMITS=${serverLimits.map(([server, limit]) => `${server}=${limit}`).join(',')}`
+      );
     }
 
     lines.push('');
 
     // Deployment configuration
     lines.push('# Deployment Settings');
-    if (this.config.deployment?.baseDomain) {
-      lines.push(`BASE_DOMAIN=${this.config.deployment.baseDomain}`);
+    if (config.deployment?.baseDomain) {
+      lines.push(`BASE_DOMAIN=${config.deployment.baseDomain}`);
+    }
+
+    // Retry configuration
+    if (config.retry?.attempts || config.retry?.baseDelayMs) {
+      lines.push('');
+      lines.push('# Retry Policy');
+      if (config.retry.attempts) {
+        lines.push(`RETRY_ATTEMPTS=${config.retry.attempts}`);
+      }
+      if (config.retry.baseDelayMs) {
+        lines.push(`RETRY_BASE_DELAY_MS=${config.retry.baseDelayMs}`);
+      }
     }
 
     return lines.join('\n') + '\n';
@@ -144,68 +625,279 @@ export class ConfigManager {
 
   public async saveConfig(): Promise<void> {
     try {
-      const configPath = this.getConfigPath();
-      const envContent = this.generateEnvContent();
-      await fs.writeFile(configPath, envContent, 'utf-8');
+      const layers = this.changedLayers.size > 0 ? [...this.changedLayers] : [this.target];
+      for (const layer of layers) {
+        if (layer.format === 'json') {
+          await fs.ensureDir(path.dirname(layer.path!));
+          await fs.writeFile(
+            layer.path!,
+            serializeProjectConfig(layer.values as ProjectConfig),
+            'utf-8'
+          );
+        } else {
+          const content = this.serializeEnvFile(layer);
+          await fs.ensureDir(path.dirname(layer.path!));
+          await fs.writeFile(layer.path!, content, 'utf-8');
+          this.envFiles.set(layer.path!, content);
+        }
+        layer.exists = true;
+      }
+      this.changedLayers.clear();
     } catch (error) {
       console.error('Error saving config:', error);
       throw error;
     }
   }
 
+  /**
+   * The configuration in effect: all layers merged, with defaults for what none of them sets
+   */
   public getConfig(): Partial<UserConfig> {
-    return this.config;
+    const { values } = mergeLayers(this.layers);
+    return {
+      ...values,
+      nostr: { publicKey: '', relays: [], ...values.nostr },
+      blossom: { servers: [], ...values.blossom },
+      deployment: { baseDomain: DEFAULT_BASE_DOMAIN, ...values.deployment },
+    };
   }
 
-  public async updateConfig(updates: Partial<UserConfig>): Promise<void> {
-    this.config = { ...this.config, ...updates };
+  /**
+   * Merge changes key by key, keeping the settings they leave out
+   */
+  public async updateConfig(updates: ConfigValues): Promise<void> {
+    CONFIG_SECTIONS.forEach((section) => {
+      Object.entries(updates[section] || {}).forEach(([key, value]) => {
+        if (value !== undefined) {
+          this.setValue(`${section}.${key}`, value);
+        }
+      });
+    });
     await this.saveConfig();
   }
 
-  public async setNostrKey(privateKey: string, publicKey: string): Promise<void> {
-    if (!this.config.nostr) {
-      this.config.nostr = { publicKey: '', relays: [] };
+  /**
+   * The effective value of a key path such as `nostr.relays`
+   */
+  public getValue(keyPath: string): unknown {
+    const [section, key] = keyPath.split('.');
+    const values = this.getConfig()[section as keyof UserConfig] as
+      { [key: string]: unknown } | undefined;
+    return values?.[key];
+  }
+
+  /**
+   * Validate and save one setting
+   */
+  public async setConfigValue(keyPath: string, value: unknown): Promise<void> {
+    const problem = validateConfigValue(keyPath, value);
+    if (problem) {
+      throw new Error(problem);
     }
-    this.config.nostr.privateKey = privateKey;
-    this.config.nostr.publicKey = publicKey;
+    this.checkWritable(keyPath);
+    this.setValue(keyPath, value);
     await this.saveConfig();
   }
 
-  public async setNostrRelays(relays: string[]): Promise<void> {
-    if (!this.config.nostr) {
-      this.config.nostr = { publicKey: '', relays: [] };
+  /**
+   * Remove a setting from the file changes are saved to. Other layers may still set it.
+   */
+  public async unsetConfigValue(keyPath: string): Promise<void> {
+    if (isSecretKey(keyPath)) {
+      throw new Error(`${keyPath} is set with \`nostr-deploy-cli auth\``);
     }
-    this.config.nostr.relays = relays;
+    if (!isConfigKey(keyPath)) {
+      throw new Error(`unknown key "${keyPath}"`);
+    }
+    this.checkWritable(keyPath);
+    this.setValue(keyPath, undefined);
+    await this.saveConfig();
+  }
+
+  // Env files have no variables for the deploy section
+  private checkWritable(keyPath: string): void {
+    if (keyPath.startsWith('deploy.') && this.getLayerFor(keyPath).format !== 'json') {
+      throw new Error(
+        `${keyPath} can only be saved in nostr-deploy.config.json, create it with \`nostr-deploy-cli config init\``
+      );
+    }
+  }
+
+  /**
+   * Create the project config file with the given settings
+   */
+  public async initProjectConfig(config: ProjectConfig): Promise<string> {
+    const layer = this.getProjectConfigLayer();
+    if (layer.exists) {
+      throw new Error(`${path.basename(layer.path!)} already exists`);
+    }
+    layer.values = config;
+    this.changedLayers.add(layer);
     await this.saveConfig();
+    return layer.path!;
+  }
+
+  /**
+   * Move everything but the key from the project env file to the project config
+   * file, creating it if needed. Returns the key paths that were moved.
+   */
+  public async migrateToProjectConfig(): Promise<string[]> {
+    const envLayer = this.layers.find((layer) => layer.name === 'project')!;
+    const projectLayer = this.getProjectConfigLayer();
+    if (projectLayer.format !== 'json') {
+      throw new Error(
+        `${path.basename(projectLayer.path!)} is not JSON and cannot be written, move the settings by hand`
+      );
+    }
+
+    const moved: string[] = [];
+    CONFIG_SECTIONS.forEach((section) => {
+      const values = envLayer.values[section] as { [key: string]: unknown } | undefined;
+      if (!values) return;
+
+      Object.keys(values).forEach((key) => {
+        if (isSecretKey(`${section}.${key}`) || values[key] === undefined) return;
+        const projectValues = (projectLayer.values[section] || {}) as { [key: string]: unknown };
+        projectValues[key] = values[key];
+        (projectLayer.values as { [section: string]: unknown })[section] = projectValues;
+        delete values[key];
+        moved.push(`${section}.${key}`);
+      });
+      if (Object.keys(values).length === 0) {
+        delete envLayer.values[section];
+      }
+    });
+
+    if (moved.length > 0) {
+      this.changedLayers.add(projectLayer);
+      this.changedLayers.add(envLayer);
+      await this.saveConfig();
+    }
+    return moved;
   }
 
-  public async setBlossomServers(servers: string[]): Promise<void> {
-    if (!this.config.blossom) {
-      this.config.blossom = { servers: [] };
+  /**
+   * Change one setting, in memory until saveConfig. Everything but the key goes
+   * to the project config file when the project has a JSON one.
+   */
+  private setValue(keyPath: string, value: unknown): void {
+    const [section, key] = keyPath.split('.') as [(typeof CONFIG_SECTIONS)[number], string];
+    const layer = this.getLayerFor(keyPath);
+
+    const values = (layer.values[section] || {}) as { [key: string]: unknown };
+    if (value === undefined) {
+      delete values[key];
+    } else {
+      values[key] = value;
     }
-    this.config.blossom.servers = servers;
+    (layer.values as { [section: string]: unknown })[section] = values;
+    this.changedLayers.add(layer);
+
+    // The env file would otherwise still override the new value
+    const targetValues = this.target.values[section] as { [key: string]: unknown } | undefined;
+    if (layer !== this.target && targetValues && key in targetValues) {
+      delete targetValues[key];
+      this.changedLayers.add(this.target);
+    }
+  }
+
+  private getLayerFor(keyPath: string): ConfigLayer {
+    const projectLayer = this.getProjectConfigLayer();
+    if (
+      this.target.name === 'project' &&
+      projectLayer.exists &&
+      projectLayer.format === 'json' &&
+      !isSecretKey(keyPath)
+    ) {
+      return projectLayer;
+    }
+    return this.target;
+  }
+
+  public async setNostrKey(privateKey: string, publicKey: string): Promise<void> {
+    this.setValue('nostr.privateKey', privateKey);
+    this.setValue('nostr.publicKey', publicKey);
+    this.setValue('nostr.bunker', undefined);
+    await this.saveConfig();
+  }
+
+  /**
+   * Sign with a NIP-46 remote signer: only the connection string and the public key are stored
+   */
+  public async setBunker(bunkerUrl: string, publicKey: string): Promise<void> {
+    this.setValue('nostr.privateKey', undefined);
+    this.setValue('nostr.bunker', bunkerUrl);
+    this.setValue('nostr.publicKey', publicKey);
+    await this.saveConfig();
+  }
+
+  public async setNostrRelays(relays: string[], save = true): Promise<void> {
+    this.setValue('nostr.relays', relays);
+    if (save) await this.saveConfig();
+  }
+
+  public async setAuthRelays(relays: string[]): Promise<void> {
+    this.setValue('nostr.authRelays', relays);
     await this.saveConfig();
   }
 
+  public async setBlossomServers(servers: string[], save = true): Promise<void> {
+    this.setValue('blossom.servers', servers);
+    if (save) await this.saveConfig();
+  }
+
   public async setBlossomServer(serverUrl: string): Promise<void> {
     await this.setBlossomServers([serverUrl]);
   }
 
-  public async setBaseDomain(baseDomain: string): Promise<void> {
-    if (!this.config.deployment) {
-      this.config.deployment = {
-        baseDomain: 'nostrdeploy.com',
-      };
+  public async setBaseDomain(baseDomain: string, save = true): Promise<void> {
+    this.setValue('deployment.baseDomain', baseDomain);
+    if (save) await this.saveConfig();
+  }
+
+  /**
+   * Problems that make the configuration unusable: invalid values in any layer and missing settings
+   */
+  public validate(): string[] {
+    const problems: string[] = [];
+
+    this.layers.forEach((layer) => {
+      const where = layer.path || `${layer.name} layer`;
+      CONFIG_SECTIONS.forEach((section) => {
+        Object.entries(layer.values[section] || {}).forEach(([key, value]) => {
+          const keyPath = `${section}.${key}`;
+          if (value === undefined || isSecretKey(keyPath)) return;
+          const problem = validateConfigValue(keyPath, value);
+          if (problem) {
+            problems.push(`${where}: ${problem}`);
+          }
+        });
+      });
+    });
+
+    const { nostr, blossom } = this.getConfig();
+    const privateKey = nostr?.privateKey;
+    if (privateKey && !/^[0-9a-f]{64}$/i.test(privateKey) && !privateKey.startsWith('ncryptsec1')) {
+      problems.push('nostr.privateKey must be a hex key or a NIP-49 ncryptsec');
     }
-    this.config.deployment.baseDomain = baseDomain;
-    await this.saveConfig();
+    if (!nostr?.publicKey) {
+      problems.push('No identity configured, run `nostr-deploy-cli auth`');
+    } else if (!/^[0-9a-f]{64}$/i.test(nostr.publicKey)) {
+      problems.push('nostr.publicKey must be a hex public key, run `nostr-deploy-cli auth` again');
+    }
+    if (!blossom?.servers?.length) {
+      problems.push('No Blossom servers configured (blossom.servers)');
+    }
+
+    return problems;
   }
 
   public isConfigured(): boolean {
+    const config = this.getConfig();
     return !!(
-      this.config.nostr?.publicKey &&
-      this.config.blossom?.servers &&
-      this.config.blossom.servers.length > 0
+      config.nostr?.publicKey &&
+      config.blossom?.servers &&
+      config.blossom.servers.length > 0
     );
   }
 }
@@ -1,23 +1,222 @@
 import axios from 'axios';
+import * as fs from 'fs-extra';
 import * as path from 'path';
-import { BlossomFileResult, BlossomManager } from './blossom';
+import { BlobDescriptor, BlossomFileResult, BlossomManager, MirrorMethod } from './blossom';
+import { ConcurrencyLimiter } from './concurrency';
 import { ConfigManager } from './config';
-import { NostrManager, StaticFileInfo } from './nostr';
+import {
+  getNotFoundMode,
+  INDEX_PATH,
+  NOT_FOUND_PATH,
+  NotFoundMode,
+  resolveSitePath,
+} from './fallback';
+import { collectFiles, IgnoreMatcher } from './ignore';
+import { DEPLOYMENT_MANIFEST_KIND, toManifestParts } from './manifest';
+import { log } from './output';
+import { normalizeRelayUrl } from './relay-info';
+import {
+  DeploymentHistoryEntry,
+  NostrManager,
+  PublishResult,
+  SiteFileState,
+  StaticFileInfo,
+} from './nostr';
+import { ALL_SITES, getSiteSubdomain, toEventPath } from './site';
+
+export interface DeploymentChanges {
+  added: string[];
+  changed: string[];
+  unchanged: string[];
+}
+
+export interface StaticSiteDeployOptions {
+  incremental?: boolean;
+  keepStale?: boolean;
+  ignore?: IgnoreMatcher;
+  concurrency?: number;
+  spa?: boolean;
+  site?: string;
+}
 
 export interface DeploymentResult {
+  site?: string;
   npubSubdomain: string;
   fullUrl: string;
-  staticFileEventResults: {
-    eventId: string;
-    relayResults: { relay: string; success: boolean; error?: string }[];
-  }[];
-  userServersEventResult: {
-    eventId: string;
-    relayResults: { relay: string; success: boolean; error?: string }[];
-  };
+  staticFileEventResults: PublishResult[];
+  userServersEventResult?: PublishResult;
   deployedAt: Date;
   fileCount: number;
   blossomResults: { [filename: string]: BlossomFileResult };
+  changes?: DeploymentChanges;
+  prunedPaths?: string[];
+  deletionEventResults?: PublishResult[];
+  manifestEventResults?: PublishResult[];
+  ignoredFiles: string[];
+  retries: DeploymentRetries;
+  proofOfWork?: DeploymentProofOfWork;
+  missingOnOutbox?: OutboxCoverage[];
+  notFoundMode: NotFoundMode;
+  spaFallback?: StaticFileInfo;
+}
+
+// Static file events missing from one of the owner's NIP-65 write relays
+export interface OutboxCoverage {
+  relay: string;
+  missing: number;
+  total: number;
+}
+
+export interface DeploymentStatus {
+  status: 'active' | 'inactive' | 'error';
+  lastChecked: Date;
+  responseTime?: number;
+  fileCount?: number;
+  notFoundMode?: NotFoundMode;
+  rootPath?: string | null;
+  outboxRelays?: string[];
+  missingOnOutbox?: OutboxCoverage[];
+}
+
+export interface DeploymentRetries {
+  uploads: number;
+  relayPublishes: number;
+}
+
+// NIP-13 work mined for relays that require it; mining time is summed over all worker threads
+export interface DeploymentProofOfWork {
+  events: number;
+  maxDifficulty: number;
+  miningTimeMs: number;
+}
+
+export interface PlannedServerCheck {
+  server: string;
+  allowed: boolean;
+  requiresAuth: boolean;
+  alreadyStored: boolean;
+  reason?: string;
+}
+
+export interface PlannedFile {
+  path: string;
+  filePath: string;
+  sha256: string;
+  size: number;
+  mimeType: string;
+  preflight: PlannedServerCheck[];
+}
+
+export interface PlannedEvent {
+  kind: number;
+  tags: string[][];
+}
+
+export interface DeploymentPlan {
+  site?: string;
+  npubSubdomain: string;
+  fullUrl: string;
+  files: PlannedFile[];
+  unchangedPaths: string[];
+  stalePaths: string[];
+  ignoredFiles: string[];
+  events: PlannedEvent[];
+  relays: string[];
+  totalBytes: number;
+  hasPreflightFailures: boolean;
+  notFoundMode: NotFoundMode;
+}
+
+export interface RollbackResult {
+  restoredFiles: StaticFileInfo[];
+  unchangedPaths: string[];
+  deletedPaths: string[];
+  staticFileEventResults: PublishResult[];
+  deletionEventResults: PublishResult[];
+  manifestEventResults?: PublishResult[];
+}
+
+export interface MirrorServerResult {
+  server: string;
+  alreadyStored: number;
+  mirrored: { sha256: string; method: MirrorMethod; source: string }[];
+  failed: { sha256: string; error: string }[];
+}
+
+export interface MirrorResult {
+  blobCount: number;
+  servers: MirrorServerResult[];
+  unavailableBlobs: string[];
+  addedServers: string[];
+  userServersEventResult?: PublishResult;
+}
+
+export type BlobCheckStatus = 'ok' | 'missing' | 'mismatch' | 'error';
+
+export interface BlobServerCheck {
+  server: string;
+  status: BlobCheckStatus;
+  actualHash?: string;
+  error?: string;
+}
+
+export interface VerifiedFile {
+  path: string;
+  sha256: string;
+  servers: BlobServerCheck[];
+  local?: BlobCheckStatus;
+}
+
+export interface VerifyResult {
+  servers: string[];
+  files: VerifiedFile[];
+  unpublishedLocalPaths: string[];
+  hasDiscrepancies: boolean;
+}
+
+export interface SiteVerifyOptions {
+  localDirectory?: string;
+  ignore?: IgnoreMatcher;
+  site?: string;
+}
+
+export interface ServerBlobList {
+  server: string;
+  blobs: BlobDescriptor[];
+  error?: string;
+}
+
+export interface OrphanedBlob {
+  server: string;
+  blob: BlobDescriptor;
+}
+
+export interface BlobGcPlan {
+  servers: ServerBlobList[];
+  referencedCount: number;
+  protectedCount: number;
+  // Stored blobs no deployment manifest lists, such as media other apps uploaded with the key
+  unknownCount: number;
+  orphans: OrphanedBlob[];
+}
+
+export interface BlobDeleteResult {
+  server: string;
+  sha256: string;
+  success: boolean;
+  error?: string;
+}
+
+interface NotFoundPage {
+  notFoundMode: NotFoundMode;
+  spaFallback?: StaticFileInfo;
+}
+
+interface PublishedFiles {
+  uploadResults: { [filename: string]: BlossomFileResult };
+  staticFiles: StaticFileInfo[];
+  staticFileEventResults: PublishResult[];
+  userServersEventResult: PublishResult;
 }
 
 export class DeploymentManager {
@@ -37,23 +236,412 @@ export class DeploymentManager {
     return this.config;
   }
 
-  public async deployStaticSite(buildDirectory: string): Promise<DeploymentResult> {
-    console.log('🚀 Starting deployment process...');
+  public async deployStaticSite(
+    buildDirectory: string,
+    options: StaticSiteDeployOptions = {}
+  ): Promise<DeploymentResult> {
+    log('🚀 Starting deployment process...');
 
     // Step 1: Validate build directory
     await this.validateBuildDirectory(buildDirectory);
 
-    // Step 2: Get npub subdomain
-    console.log('🔑 Generating npub subdomain...');
-    const npubSubdomain = await this.nostr.getNpubSubdomain();
-    console.log(`🌐 Subdomain: ${npubSubdomain}.nostrdeploy.com`);
+    // Step 2: Get npub subdomain, named sites get their own label in front of it
+    log('🔑 Generating npub subdomain...');
+    const npubSubdomain = await this.getCurrentNpubSubdomain(options.site);
+    const baseDomain = await this.getBaseDomain();
+    log(`🌐 Subdomain: ${npubSubdomain}.${baseDomain}`);
+
+    // Step 3: Fetch the published site state for incremental deploys and stale path pruning
+    const publishedState = await this.fetchPublishedState(options);
+
+    // Step 4: Collect local files, in incremental mode only keep files that are new or changed
+    const { files: localFiles, ignored: ignoredFiles } = await collectFiles(
+      buildDirectory,
+      options.ignore
+    );
+    const { notFoundMode, spaFallback } = await this.resolveNotFoundPage(
+      buildDirectory,
+      localFiles,
+      options
+    );
+    let filesToUpload = localFiles;
+    let changes: DeploymentChanges | undefined;
+    if (options.incremental && publishedState) {
+      log('🔍 Comparing local files with the published site...');
+      const diff = await this.diffWithPublishedSite(buildDirectory, localFiles, publishedState);
+      filesToUpload = diff.filesToUpload;
+      changes = diff.changes;
+      log(
+        `📊 Changes: ${changes.added.length} added, ${changes.changed.length} changed, ${changes.unchanged.length} unchanged`
+      );
+    }
+
+    // Step 5: Upload files and publish their events
+    let published: PublishedFiles | null = null;
+    if (filesToUpload.length > 0) {
+      published = await this.uploadAndPublish(
+        buildDirectory,
+        filesToUpload,
+        npubSubdomain,
+        options
+      );
+    } else {
+      log('✨ No changes detected - the published files are already up to date');
+    }
+
+    // Step 6: Point /404.html at the index blob so deep links reach the client-side router
+    let spaFallbackEventResults: PublishResult[] = [];
+    if (spaFallback) {
+      const indexHash = spaFallback.sha256;
+      const indexIsLive =
+        published?.staticFiles.some(
+          (file) => file.path === INDEX_PATH && file.sha256 === indexHash
+        ) || publishedState?.get(INDEX_PATH)?.sha256 === indexHash;
+      const fallbackIsCurrent =
+        options.incremental && publishedState?.get(NOT_FOUND_PATH)?.sha256 === indexHash;
 
-    // Step 3: Upload files to Blossom servers
-    console.log('📤 Uploading files to Blossom servers...');
-    const uploadResults = await this.blossom.uploadDirectory(buildDirectory);
+      if (!indexIsLive) {
+        console.warn('⚠️  Skipping the SPA fallback - index.html was not uploaded to any server');
+      } else if (!fallbackIsCurrent) {
+        log(`🧭 Publishing ${NOT_FOUND_PATH} as SPA fallback to ${INDEX_PATH}...`);
+        spaFallbackEventResults = await this.nostr.publishStaticFileEvents(
+          [spaFallback],
+          options.site
+        );
+      }
+    }
+
+    // Step 7: Delete events for paths that no longer exist in the build directory
+    let prunedPaths: string[] | undefined;
+    let deletionEventResults: PublishResult[] | undefined;
+    if (!options.keepStale && publishedState) {
+      prunedPaths = this.findStalePaths(
+        buildDirectory,
+        localFiles,
+        publishedState,
+        spaFallback ? [spaFallback.path] : []
+      );
+
+      if (prunedPaths.length > 0) {
+        log(`🧹 Pruning ${prunedPaths.length} stale path(s) with NIP-09 deletions...`);
+        deletionEventResults = await this.nostr.publishStaticFileDeletions(
+          prunedPaths,
+          options.site
+        );
+      }
+    }
+
+    // Step 8: Record every path the site now serves, so this deployment can be restored later
+    let manifestEventResults: PublishResult[] | undefined;
+    if (published || spaFallbackEventResults.length > 0 || deletionEventResults) {
+      log('📜 Publishing the deployment manifest...');
+      const liveFiles = this.getLiveFiles(publishedState, prunedPaths || [], [
+        ...(published?.staticFiles || []),
+        ...(spaFallbackEventResults.length > 0 && spaFallback ? [spaFallback] : []),
+      ]);
+      manifestEventResults = await this.publishManifest(liveFiles, options.site);
+    }
+
+    log('✅ Deployment completed successfully!');
+
+    const staticFileEventResults = [
+      ...(published?.staticFileEventResults || []),
+      ...spaFallbackEventResults,
+    ];
+    const eventResults = [
+      ...staticFileEventResults,
+      ...(published?.userServersEventResult ? [published.userServersEventResult] : []),
+      ...(deletionEventResults || []),
+      ...(manifestEventResults || []),
+    ];
 
-    // Step 4: Create static file info for Nostr events
-    console.log('📋 Preparing static file events...');
+    return {
+      site: options.site,
+      npubSubdomain,
+      fullUrl: `${npubSubdomain}.${baseDomain}`,
+      staticFileEventResults,
+      userServersEventResult: published?.userServersEventResult,
+      deployedAt: new Date(),
+      fileCount: published?.staticFiles.length || 0,
+      blossomResults: published?.uploadResults || {},
+      changes,
+      prunedPaths,
+      deletionEventResults,
+      manifestEventResults,
+      ignoredFiles,
+      notFoundMode,
+      spaFallback: spaFallbackEventResults.length > 0 ? spaFallback : undefined,
+      retries: {
+        uploads: Object.values(published?.uploadResults || {}).reduce(
+          (total, result) =>
+            total +
+            result.serverResults.reduce(
+              (sum, serverResult) => sum + (serverResult.retries || 0),
+              0
+            ),
+          0
+        ),
+        relayPublishes: eventResults.reduce(
+          (total, result) =>
+            total +
+            result.relayResults.reduce((sum, relayResult) => sum + (relayResult.retries || 0), 0),
+          0
+        ),
+      },
+      proofOfWork: this.summarizeProofOfWork(eventResults),
+      missingOnOutbox: await this.findMissingOnOutbox(staticFileEventResults),
+    };
+  }
+
+  /**
+   * Build a deployment plan without side effects: files are hashed and Blossom
+   * servers are asked for their upload requirements (BUD-06), but nothing is
+   * uploaded, signed or published
+   */
+  public async planDeployment(
+    buildDirectory: string,
+    options: StaticSiteDeployOptions = {}
+  ): Promise<DeploymentPlan> {
+    await this.validateBuildDirectory(buildDirectory);
+
+    const npubSubdomain = await this.getCurrentNpubSubdomain(options.site);
+    const baseDomain = await this.getBaseDomain();
+    const config = await this.getConfig();
+    const userConfig = config.getConfig();
+    const relays = userConfig.nostr?.relays || [];
+    const servers = await this.blossom.getServers();
+
+    const publishedState = await this.fetchPublishedState(options);
+    const { files: localFiles, ignored: ignoredFiles } = await collectFiles(
+      buildDirectory,
+      options.ignore
+    );
+
+    const { notFoundMode, spaFallback } = await this.resolveNotFoundPage(
+      buildDirectory,
+      localFiles,
+      options
+    );
+    let filesToUpload = localFiles;
+    let unchangedPaths: string[] = [];
+    if (options.incremental && publishedState) {
+      const diff = await this.diffWithPublishedSite(buildDirectory, localFiles, publishedState);
+      filesToUpload = diff.filesToUpload;
+      unchangedPaths = diff.changes.unchanged;
+    }
+
+    log(`🔍 Checking upload requirements on ${servers.length} Blossom server(s)...`);
+    const files: PlannedFile[] = [];
+    for (const filePath of filesToUpload) {
+      const sitePath = this.toSitePath(buildDirectory, filePath);
+      const sha256 = await this.blossom.hashFile(filePath);
+      const size = (await fs.stat(filePath)).size;
+      const mimeType = this.blossom.getMimeType(filePath.split('/').pop() || '');
+
+      const preflight = await Promise.all(
+        servers.map(async (server): Promise<PlannedServerCheck> => {
+          try {
+            if (await this.blossom.hasBlob(sha256, server)) {
+              return { server, allowed: true, requiresAuth: false, alreadyStored: true };
+            }
+          } catch {
+            // Fall through to the upload requirements check
+          }
+
+          const requirements = await this.blossom.checkUploadRequirements(
+            sha256,
+            size,
+            mimeType,
+            server
+          );
+          return { server, ...requirements, alreadyStored: false };
+        })
+      );
+
+      files.push({ path: sitePath, filePath, sha256, size, mimeType, preflight });
+    }
+
+    const stalePaths =
+      !options.keepStale && publishedState
+        ? this.findStalePaths(
+            buildDirectory,
+            localFiles,
+            publishedState,
+            spaFallback ? [spaFallback.path] : []
+          )
+        : [];
+
+    // Only servers that would accept at least one file end up in the kind 10063 event
+    const acceptingServers = servers.filter((server) =>
+      files.some((file) => file.preflight.some((check) => check.server === server && check.allowed))
+    );
+
+    const plannedFiles: StaticFileInfo[] = files.map((file) => ({
+      path: file.path,
+      sha256: file.sha256,
+    }));
+    if (
+      spaFallback &&
+      !(options.incremental && publishedState?.get(NOT_FOUND_PATH)?.sha256 === spaFallback.sha256)
+    ) {
+      plannedFiles.push(spaFallback);
+    }
+
+    const events: PlannedEvent[] = plannedFiles.map((file) => ({
+      kind: 34128,
+      tags: [
+        ['d', toEventPath(file.path, options.site)],
+        ['x', file.sha256],
+      ],
+    }));
+    if (files.length > 0) {
+      events.push({ kind: 10063, tags: acceptingServers.map((server) => ['server', server]) });
+    }
+    if (stalePaths.length > 0) {
+      events.push({
+        kind: 5,
+        tags: [
+          ['k', '34128'],
+          ...stalePaths.map((stalePath) => [
+            'a',
+            `34128:${userConfig.nostr?.publicKey}:${toEventPath(stalePath, options.site)}`,
+          ]),
+        ],
+      });
+    }
+    if (events.length > 0) {
+      toManifestParts(
+        this.getLiveFiles(publishedState, stalePaths, plannedFiles),
+        options.site
+      ).forEach((tags) => events.push({ kind: DEPLOYMENT_MANIFEST_KIND, tags }));
+    }
+
+    return {
+      site: options.site,
+      npubSubdomain,
+      fullUrl: `${npubSubdomain}.${baseDomain}`,
+      files,
+      unchangedPaths,
+      stalePaths,
+      ignoredFiles,
+      events,
+      relays,
+      totalBytes: files.reduce((total, file) => total + file.size, 0),
+      hasPreflightFailures: files.some((file) => file.preflight.some((check) => !check.allowed)),
+      notFoundMode,
+    };
+  }
+
+  /**
+   * Fetch the published site state. Incremental deploys cannot continue without
+   * it; otherwise stale paths are kept and the manifest only lists this build
+   */
+  private async fetchPublishedState(
+    options: StaticSiteDeployOptions
+  ): Promise<Map<string, SiteFileState> | null> {
+    log('🔍 Fetching the published site state...');
+    if (options.incremental) {
+      return this.nostr.getSiteState(undefined, options.site);
+    }
+
+    try {
+      return await this.nostr.getSiteState(undefined, options.site);
+    } catch (error) {
+      console.warn(
+        `⚠️  Could not fetch the published site state, stale paths will be kept and left out of the deployment manifest: ${error}`
+      );
+      return null;
+    }
+  }
+
+  /**
+   * The files a site serves once a deployment's events are in place: the
+   * published state without the pruned paths, updated with the published files
+   */
+  private getLiveFiles(
+    publishedState: Map<string, SiteFileState> | null,
+    prunedPaths: string[],
+    publishedFiles: StaticFileInfo[]
+  ): StaticFileInfo[] {
+    const liveFiles = new Map<string, string>();
+    publishedState?.forEach((file) => liveFiles.set(file.path, file.sha256));
+    prunedPaths.forEach((prunedPath) => liveFiles.delete(prunedPath));
+    publishedFiles.forEach((file) => liveFiles.set(file.path, file.sha256));
+
+    return Array.from(liveFiles.entries()).map(([filePath, sha256]) => ({
+      path: filePath,
+      sha256,
+    }));
+  }
+
+  /**
+   * Find published paths that no longer exist in the build directory
+   */
+  private findStalePaths(
+    buildDirectory: string,
+    localFiles: string[],
+    publishedState: Map<string, SiteFileState>,
+    keepPaths: string[] = []
+  ): string[] {
+    const localPaths = new Set([
+      ...localFiles.map((filePath) => this.toSitePath(buildDirectory, filePath)),
+      ...keepPaths,
+    ]);
+    return Array.from(publishedState.keys()).filter((p) => !localPaths.has(p));
+  }
+
+  /**
+   * Decide how the site handles unknown paths. A build's own 404.html always wins,
+   * in SPA mode a missing one is replaced by a fallback pointing at index.html
+   */
+  private async resolveNotFoundPage(
+    buildDirectory: string,
+    localFiles: string[],
+    options: StaticSiteDeployOptions
+  ): Promise<NotFoundPage> {
+    const hasNotFoundPage = localFiles.some(
+      (filePath) => this.toSitePath(buildDirectory, filePath) === NOT_FOUND_PATH
+    );
+
+    if (hasNotFoundPage) {
+      if (options.spa) {
+        log(`ℹ️  Using the build's own 404.html instead of the SPA fallback`);
+      }
+      return { notFoundMode: 'custom' };
+    }
+
+    if (!options.spa) {
+      console.warn(
+        '⚠️  No 404.html found - unknown paths will show the gateway error page. Use --spa for client-side routing'
+      );
+      return { notFoundMode: 'none' };
+    }
+
+    const indexHash = await this.blossom.hashFile(path.join(buildDirectory, 'index.html'));
+    return {
+      notFoundMode: 'spa',
+      spaFallback: { path: NOT_FOUND_PATH, sha256: indexHash },
+    };
+  }
+
+  /**
+   * Upload files to Blossom servers and publish kind 34128 events for the ones
+   * that reached at least one server, followed by the kind 10063 server list
+   */
+  private async uploadAndPublish(
+    buildDirectory: string,
+    filePaths: string[],
+    npubSubdomain: string,
+    options: StaticSiteDeployOptions
+  ): Promise<PublishedFiles> {
+    // Upload files to Blossom servers
+    log('📤 Uploading files to Blossom servers...');
+    const uploadResults = await this.blossom.uploadDirectory(buildDirectory, filePaths, {
+      concurrency: options.concurrency,
+    });
+
+    // Create static file info for Nostr events
+    log('📋 Preparing static file events...');
     const staticFiles: StaticFileInfo[] = [];
 
     for (const [filePath, blossomResult] of Object.entries(uploadResults)) {
@@ -75,16 +663,6 @@ export class DeploymentManager {
       throw new Error('No files were successfully uploaded to any Blossom server');
     }
 
-    // Step 5: Get successful Blossom servers for Nostr event
-    const config = await this.getConfig();
-    const userConfig = config.getConfig();
-    const configuredServers = userConfig.blossom?.servers || [
-      'https://cdn.hzrd149.com',
-      'https://blossom.primal.net',
-      'https://blossom.band',
-      'https://blossom.f7z.io',
-    ];
-
     // Only include servers that had at least one successful upload
     const successfulServers = new Set<string>();
     Object.values(uploadResults).forEach((result) => {
@@ -100,27 +678,54 @@ export class DeploymentManager {
       throw new Error('No Blossom servers had successful uploads');
     }
 
-    // Step 6: Publish to Nostr according to Pubkey Static Websites NIP
-    console.log('📡 Publishing to Nostr using Pubkey Static Websites NIP...');
+    // Publish to Nostr according to Pubkey Static Websites NIP
+    log('📡 Publishing to Nostr using Pubkey Static Websites NIP...');
     const nostrResult = await this.nostr.publishDeploymentMetadata({
       npubSubdomain,
+      site: options.site,
       files: staticFiles,
       blossomServers,
     });
 
-    console.log('✅ Deployment completed successfully!');
-
     return {
-      npubSubdomain,
-      fullUrl: `${npubSubdomain}.nostrdeploy.com`,
+      uploadResults,
+      staticFiles,
       staticFileEventResults: nostrResult.staticFileEventResults,
       userServersEventResult: nostrResult.userServersEventResult,
-      deployedAt: new Date(),
-      fileCount: staticFiles.length,
-      blossomResults: uploadResults,
     };
   }
 
+  /**
+   * Compare the local build with the kind 34128 events currently published for
+   * this pubkey, by matching each path and its sha256 hash
+   */
+  private async diffWithPublishedSite(
+    buildDirectory: string,
+    files: string[],
+    publishedState: Map<string, SiteFileState>
+  ): Promise<{ filesToUpload: string[]; changes: DeploymentChanges }> {
+    const filesToUpload: string[] = [];
+    const changes: DeploymentChanges = { added: [], changed: [], unchanged: [] };
+
+    for (const filePath of files) {
+      const sitePath = this.toSitePath(buildDirectory, filePath);
+      const sha256 = await this.blossom.hashFile(filePath);
+      const published = publishedState.get(sitePath);
+
+      if (!published) {
+        changes.added.push(sitePath);
+        filesToUpload.push(filePath);
+      } else if (published.sha256 !== sha256) {
+        changes.changed.push(sitePath);
+        filesToUpload.push(filePath);
+      } else {
+        changes.unchanged.push(sitePath);
+      }
+    }
+
+    return { filesToUpload, changes };
+  }
+
   /**
    * Normalize file path to absolute path format required by NIP
    * Ensures path starts with / and uses forward slashes
@@ -137,9 +742,16 @@ export class DeploymentManager {
     return normalizedPath;
   }
 
-  private async validateBuildDirectory(buildDirectory: string): Promise<void> {
-    const fs = await import('fs-extra');
+  /**
+   * Convert a file path inside the build directory to its absolute site path
+   */
+  private toSitePath(buildDirectory: string, filePath: string): string {
+    return this.normalizeFilePath(
+      filePath.replace(buildDirectory + '/', '').replace(buildDirectory + '\\', '')
+    );
+  }
 
+  private async validateBuildDirectory(buildDirectory: string): Promise<void> {
     if (!(await fs.pathExists(buildDirectory))) {
       throw new Error(`Build directory not found: ${buildDirectory}`);
     }
@@ -150,12 +762,11 @@ export class DeploymentManager {
     }
   }
 
-  public async getDeploymentStatus(npubSubdomain: string): Promise<{
-    status: 'active' | 'inactive' | 'error';
-    lastChecked: Date;
-    responseTime?: number;
-    fileCount?: number;
-  }> {
+  public async getDeploymentStatus(
+    npubSubdomain: string,
+    site?: string,
+    publicKey?: string
+  ): Promise<DeploymentStatus> {
     try {
       const startTime = Date.now();
       const baseDomain = await this.getBaseDomain();
@@ -165,13 +776,37 @@ export class DeploymentManager {
       });
       const responseTime = Date.now() - startTime;
 
-      // Try to get file count from Nostr events
+      // Try to get file count and fallback rules from Nostr events
       let fileCount: number | undefined;
+      let notFoundMode: NotFoundMode | undefined;
+      let rootPath: string | null | undefined;
+      let outboxRelays: string[] | undefined;
+      let missingOnOutbox: OutboxCoverage[] | undefined;
       try {
-        const events = await this.nostr.getStaticFileEvents();
-        fileCount = events.length;
+        const siteState = await this.nostr.getSiteState(publicKey, site);
+        const hashes = new Map(
+          Array.from(siteState.values()).map((file) => [file.path, file.sha256])
+        );
+        fileCount = siteState.size;
+        notFoundMode = getNotFoundMode(hashes);
+        rootPath = resolveSitePath('/', hashes)?.path ?? null;
+
+        // Gateways look the site up on the owner's outbox relays
+        outboxRelays = await this.nostr.getOutboxRelays(publicKey);
+        const eventIds = Array.from(siteState.values()).map((file) => file.eventId);
+        missingOnOutbox = (
+          await Promise.all(
+            outboxRelays.map(async (relay) => ({
+              relay,
+              missing:
+                eventIds.length -
+                (await this.nostr.countEventsOnRelay(relay, eventIds).catch(() => 0)),
+              total: eventIds.length,
+            }))
+          )
+        ).filter((coverage) => coverage.missing > 0);
       } catch (error) {
-        // Ignore errors when fetching file count
+        // Ignore errors when fetching the published site state
       }
 
       return {
@@ -179,6 +814,10 @@ export class DeploymentManager {
         lastChecked: new Date(),
         responseTime,
         fileCount,
+        notFoundMode,
+        rootPath,
+        outboxRelays,
+        missingOnOutbox,
       };
     } catch (error) {
       return {
@@ -188,13 +827,478 @@ export class DeploymentManager {
     }
   }
 
-  public async listUserDeployments(): Promise<any[]> {
+  public async listUserDeployments(site?: string): Promise<DeploymentHistoryEntry[]> {
+    return this.nostr.getDeploymentHistory(undefined, site);
+  }
+
+  /**
+   * Restore a previous deployment from its manifest: paths whose hash differs
+   * are republished as fresh kind 34128 events, paths the manifest doesn't list
+   * are deleted, and a new manifest records the restored state
+   */
+  public async rollbackToDeployment(
+    target: DeploymentHistoryEntry,
+    site?: string
+  ): Promise<RollbackResult> {
+    const snapshot: StaticFileInfo[] = target.files.map((file) => ({
+      path: file.path,
+      sha256: file.hash,
+    }));
+    if (snapshot.length === 0) {
+      throw new Error('The selected deployment does not contain any files');
+    }
+
+    // Step 1: Make sure every blob can still be served
+    log('🔍 Checking that the deployment blobs still exist on your Blossom servers...');
+    const servers = await this.getPublishedServers();
+
+    if (servers.length === 0) {
+      throw new Error('No Blossom server list (kind 10063) found for this pubkey');
+    }
+
+    const missingFiles = await this.findMissingBlobs(snapshot, servers);
+    if (missingFiles.length > 0) {
+      throw new Error(
+        `Blobs no longer available on any Blossom server: ${missingFiles
+          .map((file) => file.path)
+          .join(', ')}`
+      );
+    }
+
+    // Step 2: Compare the snapshot with the currently published site
+    const currentState = await this.nostr.getSiteState(undefined, site);
+    const snapshotPaths = new Set(snapshot.map((file) => file.path));
+    const restoredFiles = snapshot.filter(
+      (file) => currentState.get(file.path)?.sha256 !== file.sha256
+    );
+    const unchangedPaths = snapshot
+      .filter((file) => currentState.get(file.path)?.sha256 === file.sha256)
+      .map((file) => file.path);
+    const deletedPaths = Array.from(currentState.keys()).filter((p) => !snapshotPaths.has(p));
+
+    // Step 3: Republish the old mapping and delete the paths it did not contain
+    let staticFileEventResults: PublishResult[] = [];
+    if (restoredFiles.length > 0) {
+      log(`📡 Republishing ${restoredFiles.length} static file event(s)...`);
+      staticFileEventResults = await this.nostr.publishStaticFileEvents(restoredFiles, site);
+    }
+
+    let deletionEventResults: PublishResult[] = [];
+    if (deletedPaths.length > 0) {
+      log(`🧹 Deleting ${deletedPaths.length} path(s) the deployment did not contain...`);
+      deletionEventResults = await this.nostr.publishStaticFileDeletions(deletedPaths, site);
+    }
+
+    // Step 4: The restored state becomes the latest deployment
+    let manifestEventResults: PublishResult[] | undefined;
+    if (restoredFiles.length > 0 || deletedPaths.length > 0) {
+      log('📜 Publishing the deployment manifest...');
+      manifestEventResults = await this.publishManifest(snapshot, site);
+    }
+
+    return {
+      restoredFiles,
+      unchangedPaths,
+      deletedPaths,
+      staticFileEventResults,
+      deletionEventResults,
+      manifestEventResults,
+    };
+  }
+
+  /**
+   * Publish the manifest of the site as it now is. The site is already live at
+   * this point, so the error says the deployment can't be restored later.
+   */
+  private async publishManifest(files: StaticFileInfo[], site?: string): Promise<PublishResult[]> {
     try {
-      return await this.nostr.getDeploymentHistory();
+      return await this.nostr.publishDeploymentManifest(files, site);
     } catch (error) {
-      console.error('Failed to fetch deployment history:', error);
-      return [];
+      throw new Error(
+        `The site is published, but its deployment manifest is not, so rollback can't restore this deployment: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Copy every blob of the published sites to Blossom servers that are missing it,
+   * then add those servers to the kind 10063 server list
+   */
+  public async mirrorSite(targetServers?: string[]): Promise<MirrorResult> {
+    // The server list is shared by all sites of the pubkey, so mirror all of them
+    const siteState = await this.nostr.getSiteState(undefined, ALL_SITES);
+    const blobs = Array.from(new Set(Array.from(siteState.values()).map((file) => file.sha256)));
+    if (blobs.length === 0) {
+      throw new Error('No published files found for this pubkey');
+    }
+
+    const publishedServers = await this.getPublishedServers();
+    const configuredServers = await this.blossom.getServers();
+    const targets = (targetServers?.length ? targetServers : configuredServers).map((server) =>
+      server.replace(/\/+$/, '')
+    );
+    const sourceServers = Array.from(new Set([...publishedServers, ...configuredServers]));
+
+    log(`🔍 Checking ${blobs.length} blob(s) on ${targets.length} Blossom server(s)...`);
+
+    // Sources are looked up once per blob and shared between targets
+    const sources = new Map<string, Promise<string | undefined>>();
+    const findSource = (sha256: string) => {
+      if (!sources.has(sha256)) {
+        sources.set(sha256, this.findBlobSource(sha256, sourceServers));
+      }
+      return sources.get(sha256)!;
+    };
+
+    const unavailableBlobs = new Set<string>();
+    const servers = await Promise.all(
+      targets.map(async (server) => {
+        const result: MirrorServerResult = { server, alreadyStored: 0, mirrored: [], failed: [] };
+
+        for (const sha256 of blobs) {
+          try {
+            if (await this.blossom.hasBlob(sha256, server)) {
+              result.alreadyStored++;
+              continue;
+            }
+
+            const source = await findSource(sha256);
+            if (!source) {
+              unavailableBlobs.add(sha256);
+              result.failed.push({ sha256, error: 'Not available on any known server' });
+              continue;
+            }
+
+            const method = await this.blossom.mirrorBlob(sha256, `${source}/${sha256}`, server);
+            result.mirrored.push({ sha256, method, source });
+          } catch (error) {
+            result.failed.push({
+              sha256,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
+
+        return result;
+      })
+    );
+
+    // Only advertise servers that now hold the complete site
+    const addedServers = servers
+      .filter((result) => result.failed.length === 0 && !publishedServers.includes(result.server))
+      .map((result) => result.server);
+
+    let userServersEventResult: PublishResult | undefined;
+    if (addedServers.length > 0) {
+      log(`📡 Adding ${addedServers.length} server(s) to your Blossom server list...`);
+      userServersEventResult = await this.nostr.publishUserServersEvent([
+        ...publishedServers,
+        ...addedServers,
+      ]);
+    }
+
+    return {
+      blobCount: blobs.length,
+      servers,
+      unavailableBlobs: Array.from(unavailableBlobs),
+      addedServers,
+      userServersEventResult,
+    };
+  }
+
+  /**
+   * Download every published blob from every server in the kind 10063 list and
+   * check its hash, optionally comparing the published site with a local build
+   */
+  public async verifySite(options: SiteVerifyOptions = {}): Promise<VerifyResult> {
+    const siteState = await this.nostr.getSiteState(undefined, options.site);
+    if (siteState.size === 0) {
+      throw new Error('No published files found for this pubkey');
     }
+
+    const servers = await this.getPublishedServers();
+    if (servers.length === 0) {
+      throw new Error('No Blossom server list (kind 10063) found for this pubkey');
+    }
+
+    // Blobs shared by several paths are only downloaded once per server
+    const config = await this.getConfig();
+    const limiter = new ConcurrencyLimiter(config.getConfig().blossom?.concurrency || 8);
+    const checks = new Map<string, Promise<BlobServerCheck>>();
+    const checkBlob = (sha256: string, server: string) => {
+      const key = `${server}/${sha256}`;
+      if (!checks.has(key)) {
+        checks.set(
+          key,
+          limiter.run(async (): Promise<BlobServerCheck> => {
+            try {
+              const actualHash = await this.blossom.hashRemoteBlob(sha256, server);
+              if (actualHash === null) {
+                return { server, status: 'missing' };
+              }
+              return actualHash === sha256
+                ? { server, status: 'ok' }
+                : { server, status: 'mismatch', actualHash };
+            } catch (error) {
+              return {
+                server,
+                status: 'error',
+                error: error instanceof Error ? error.message : String(error),
+              };
+            }
+          })
+        );
+      }
+      return checks.get(key)!;
+    };
+
+    const publishedFiles = Array.from(siteState.values()).sort((a, b) =>
+      a.path.localeCompare(b.path)
+    );
+    log(`🔍 Verifying ${publishedFiles.length} file(s) on ${servers.length} Blossom server(s)...`);
+
+    const files: VerifiedFile[] = await Promise.all(
+      publishedFiles.map(async (file) => ({
+        path: file.path,
+        sha256: file.sha256,
+        servers: await Promise.all(servers.map((server) => checkBlob(file.sha256, server))),
+      }))
+    );
+
+    let unpublishedLocalPaths: string[] = [];
+    if (options.localDirectory) {
+      const localDirectory = path.resolve(options.localDirectory);
+      await this.validateBuildDirectory(localDirectory);
+
+      const { files: localFiles } = await collectFiles(localDirectory, options.ignore);
+      const localHashes = new Map<string, string>();
+      for (const filePath of localFiles) {
+        localHashes.set(
+          this.toSitePath(localDirectory, filePath),
+          await this.blossom.hashFile(filePath)
+        );
+      }
+
+      files.forEach((file) => {
+        const localHash = localHashes.get(file.path);
+        file.local = !localHash ? 'missing' : localHash === file.sha256 ? 'ok' : 'mismatch';
+      });
+      unpublishedLocalPaths = Array.from(localHashes.keys())
+        .filter((sitePath) => !siteState.has(sitePath))
+        .sort();
+    }
+
+    const hasDiscrepancies =
+      unpublishedLocalPaths.length > 0 ||
+      files.some(
+        (file) =>
+          (file.local !== undefined && file.local !== 'ok') ||
+          file.servers.some((check) => check.status !== 'ok')
+      );
+
+    return { servers, files, unpublishedLocalPaths, hasDiscrepancies };
+  }
+
+  /**
+   * List the blobs stored for this pubkey on every configured Blossom server
+   */
+  public async listStoredBlobs(): Promise<ServerBlobList[]> {
+    const config = await this.getConfig();
+    const publicKey = config.getConfig().nostr?.publicKey;
+    if (!publicKey) {
+      throw new Error('No public key configured. Run `nostr-deploy-cli auth` first.');
+    }
+
+    const servers = await this.blossom.getServers();
+    return Promise.all(
+      servers.map(async (server): Promise<ServerBlobList> => {
+        try {
+          return { server, blobs: await this.blossom.listBlobs(publicKey, server) };
+        } catch (error) {
+          return {
+            server,
+            blobs: [],
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      })
+    );
+  }
+
+  /**
+   * Find the blobs of earlier deployments that no current kind 34128 event
+   * references. Only blobs listed in a deployment manifest are candidates, other
+   * blobs stored with the same key are never ours to delete. Blobs listed in the
+   * last `keepLast` deployment manifests of each site are protected so they stay
+   * available for rollback.
+   */
+  public async planBlobGarbageCollection(keepLast = 0): Promise<BlobGcPlan> {
+    // Blobs are shared by all sites of the pubkey, a blob is only orphaned if no site uses it
+    const siteState = await this.nostr.getSiteState(undefined, ALL_SITES);
+    if (siteState.size === 0) {
+      // An empty result may just be unreachable relays, never treat every blob as orphaned
+      throw new Error('No published files found for this pubkey, refusing to collect blobs');
+    }
+
+    const referenced = new Set(Array.from(siteState.values()).map((file) => file.sha256));
+    const history = await this.nostr.getDeploymentHistory(undefined, ALL_SITES);
+    const deployed = new Set(history.flatMap((entry) => entry.files.map((file) => file.hash)));
+
+    // History is sorted newest first, count the deployments of every site separately
+    const protectedHashes = new Set<string>();
+    const keptPerSite = new Map<string, number>();
+    history.forEach((entry) => {
+      const site = entry.site || '';
+      const kept = keptPerSite.get(site) || 0;
+      if (kept >= keepLast) {
+        return;
+      }
+      keptPerSite.set(site, kept + 1);
+      entry.files
+        .filter((file) => !referenced.has(file.hash))
+        .forEach((file) => protectedHashes.add(file.hash));
+    });
+
+    const servers = await this.listStoredBlobs();
+    const unknown = new Set<string>();
+    const orphans = servers.flatMap((serverList) =>
+      serverList.blobs
+        .filter((blob) => {
+          if (referenced.has(blob.sha256) || protectedHashes.has(blob.sha256)) {
+            return false;
+          }
+          if (!deployed.has(blob.sha256)) {
+            unknown.add(blob.sha256);
+            return false;
+          }
+          return true;
+        })
+        .map((blob) => ({ server: serverList.server, blob }))
+    );
+
+    return {
+      servers,
+      referencedCount: referenced.size,
+      protectedCount: protectedHashes.size,
+      unknownCount: unknown.size,
+      orphans,
+    };
+  }
+
+  /**
+   * Delete blobs with a signed kind 24242 `t=delete` authorization
+   */
+  public async deleteBlobs(orphans: OrphanedBlob[]): Promise<BlobDeleteResult[]> {
+    const config = await this.getConfig();
+    const limiter = new ConcurrencyLimiter(config.getConfig().blossom?.concurrency || 8);
+
+    return Promise.all(
+      orphans.map(({ server, blob }) =>
+        limiter.run(async (): Promise<BlobDeleteResult> => {
+          try {
+            await this.blossom.deleteFile(blob.sha256, server);
+            return { server, sha256: blob.sha256, success: true };
+          } catch (error) {
+            return {
+              server,
+              sha256: blob.sha256,
+              success: false,
+              error: error instanceof Error ? error.message : String(error),
+            };
+          }
+        })
+      )
+    );
+  }
+
+  /**
+   * Static file events that didn't reach one of our own NIP-65 write relays
+   */
+  private async findMissingOnOutbox(
+    eventResults: PublishResult[]
+  ): Promise<OutboxCoverage[] | undefined> {
+    const outboxRelays = await this.nostr.getOutboxRelays();
+    if (outboxRelays.length === 0 || eventResults.length === 0) {
+      return undefined;
+    }
+
+    const missingOnOutbox = outboxRelays
+      .map((relay) => ({
+        relay,
+        missing: eventResults.filter(
+          (result) =>
+            !result.relayResults.some(
+              (relayResult) =>
+                relayResult.success &&
+                normalizeRelayUrl(relayResult.relay) === normalizeRelayUrl(relay)
+            )
+        ).length,
+        total: eventResults.length,
+      }))
+      .filter((coverage) => coverage.missing > 0);
+    return missingOnOutbox.length > 0 ? missingOnOutbox : undefined;
+  }
+
+  /**
+   * Events that needed proof of work for at least one relay
+   */
+  private summarizeProofOfWork(eventResults: PublishResult[]): DeploymentProofOfWork | undefined {
+    const minedResults = eventResults.filter((result) => result.miningTimeMs !== undefined);
+    if (minedResults.length === 0) {
+      return undefined;
+    }
+
+    return {
+      events: minedResults.length,
+      maxDifficulty: Math.max(
+        ...minedResults.flatMap((result) =>
+          result.relayResults.map((relayResult) => relayResult.powDifficulty || 0)
+        )
+      ),
+      miningTimeMs: minedResults.reduce((total, result) => total + (result.miningTimeMs || 0), 0),
+    };
+  }
+
+  /**
+   * Servers listed in the user's kind 10063 event
+   */
+  private async getPublishedServers(): Promise<string[]> {
+    const serversEvent = await this.nostr.getUserServersEvent();
+    return (serversEvent?.tags || [])
+      .filter((tag) => tag[0] === 'server' && tag[1])
+      .map((tag) => tag[1].replace(/\/+$/, ''));
+  }
+
+  private async findBlobSource(sha256: string, servers: string[]): Promise<string | undefined> {
+    for (const server of servers) {
+      try {
+        if (await this.blossom.hasBlob(sha256, server)) {
+          return server;
+        }
+      } catch {
+        // Server unreachable, try the next one
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Find files whose blob is not stored on any of the given servers
+   */
+  private async findMissingBlobs(
+    files: StaticFileInfo[],
+    servers: string[]
+  ): Promise<StaticFileInfo[]> {
+    const availability = new Map<string, boolean>();
+
+    for (const file of files) {
+      if (!availability.has(file.sha256)) {
+        const source = await this.findBlobSource(file.sha256, servers);
+        availability.set(file.sha256, source !== undefined);
+      }
+    }
+
+    return files.filter((file) => !availability.get(file.sha256));
   }
 
   private async getBaseDomain(): Promise<string> {
@@ -204,9 +1308,9 @@ export class DeploymentManager {
   }
 
   /**
-   * Get current user's npub subdomain for status checks
+   * Get current user's npub subdomain for status checks, scoped to a named site if given
    */
-  public async getCurrentNpubSubdomain(): Promise<string> {
-    return this.nostr.getNpubSubdomain();
+  public async getCurrentNpubSubdomain(site?: string): Promise<string> {
+    return getSiteSubdomain(await this.nostr.getNpubSubdomain(), site);
   }
 }
@@ -0,0 +1,60 @@
+export const INDEX_PATH = '/index.html';
+export const NOT_FOUND_PATH = '/404.html';
+
+/**
+ * How a site answers requests for paths it does not contain:
+ * - `spa`: /404.html points at the same blob as /index.html (client-side routing)
+ * - `custom`: the site has its own /404.html page
+ * - `none`: the gateway shows its default error page
+ */
+export type NotFoundMode = 'spa' | 'custom' | 'none';
+
+export interface ResolvedSitePath {
+  path: string;
+  fallback: boolean;
+}
+
+/**
+ * Resolve a request path to a published path the way gateways do: the exact
+ * path, then the directory's index.html, then the /404.html fallback
+ */
+export function resolveSitePath(
+  requestPath: string,
+  publishedPaths: { has(path: string): boolean }
+): ResolvedSitePath | null {
+  let sitePath = requestPath.split(/[?#]/)[0] || '/';
+  try {
+    sitePath = decodeURIComponent(sitePath);
+  } catch {
+    // Keep malformed escapes as they are
+  }
+  if (!sitePath.startsWith('/')) {
+    sitePath = '/' + sitePath;
+  }
+
+  const candidates = sitePath.endsWith('/')
+    ? [sitePath + 'index.html']
+    : [sitePath, sitePath + '/index.html'];
+
+  const match = candidates.find((candidate) => publishedPaths.has(candidate));
+  if (match) {
+    return { path: match, fallback: false };
+  }
+
+  if (publishedPaths.has(NOT_FOUND_PATH)) {
+    return { path: NOT_FOUND_PATH, fallback: true };
+  }
+
+  return null;
+}
+
+/**
+ * Work out the not-found behaviour of a site from its path → sha256 mapping
+ */
+export function getNotFoundMode(hashes: Map<string, string>): NotFoundMode {
+  const notFoundHash = hashes.get(NOT_FOUND_PATH);
+  if (!notFoundHash) {
+    return 'none';
+  }
+  return notFoundHash === hashes.get(INDEX_PATH) ? 'spa' : 'custom';
+}
@@ -0,0 +1,213 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+export const IGNORE_FILE = '.nostrdeployignore';
+
+/**
+ * Excluded unless re-included: dotfiles and folders (except .well-known)
+ * and operating system metadata
+ */
+export const DEFAULT_IGNORE_PATTERNS = [
+  '.*',
+  '!.well-known/',
+  'Thumbs.db',
+  'ehthumbs.db',
+  'desktop.ini',
+  '__MACOSX/',
+];
+
+interface IgnoreRule {
+  negate: boolean;
+  directoryOnly: boolean;
+  regex: RegExp;
+}
+
+/**
+ * Gitignore-style matcher for paths relative to the build directory.
+ * The last matching rule wins, and files inside an ignored directory stay
+ * ignored, except for files matching an include pattern.
+ */
+export class IgnoreMatcher {
+  private rules: IgnoreRule[] = [];
+  private includes: IgnoreRule[] = [];
+
+  constructor(patterns: string[] = [], includes: string[] = []) {
+    this.add(patterns);
+    this.include(includes);
+  }
+
+  /**
+   * Load the default excludes, the ignore files from the project root and the
+   * build directory, then the command line excludes and includes
+   */
+  public static async load(
+    projectRoot: string,
+    buildDirectory: string,
+    options: { exclude?: string[]; include?: string[] } = {}
+  ): Promise<IgnoreMatcher> {
+    const matcher = new IgnoreMatcher(DEFAULT_IGNORE_PATTERNS);
+
+    const ignoreFiles = [
+      path.join(projectRoot, IGNORE_FILE),
+      path.join(buildDirectory, IGNORE_FILE),
+    ];
+    const loadedFiles = new Set<string>();
+    for (const ignoreFile of ignoreFiles) {
+      const resolved = path.resolve(ignoreFile);
+      if (loadedFiles.has(resolved) || !(await fs.pathExists(resolved))) continue;
+      loadedFiles.add(resolved);
+
+      const content = await fs.readFile(resolved, 'utf-8');
+      matcher.add(content.split('\n'));
+    }
+
+    matcher.add(options.exclude || []);
+    matcher.include(options.include || []);
+    return matcher;
+  }
+
+  public add(patterns: string[]): void {
+    patterns.forEach((line) => {
+      const rule = this.parseRule(line);
+      if (rule) this.rules.push(rule);
+    });
+  }
+
+  public include(patterns: string[]): void {
+    patterns.forEach((line) => {
+      const rule = this.parseRule(line);
+      if (rule) this.includes.push({ ...rule, negate: true });
+    });
+  }
+
+  public hasIncludes(): boolean {
+    return this.includes.length > 0;
+  }
+
+  /**
+   * Check whether a path relative to the build directory is ignored
+   */
+  public ignores(relativePath: string, isDirectory = false): boolean {
+    const normalizedPath = relativePath.replace(/\\/g, '/').replace(/^\/+/, '');
+
+    if (!isDirectory && this.includes.some((rule) => rule.regex.test(normalizedPath))) {
+      return false;
+    }
+
+    // Files inside an ignored directory are ignored as well
+    const segments = normalizedPath.split('/');
+    for (let i = 1; i < segments.length; i++) {
+      if (this.matchRules(segments.slice(0, i).join('/'), true)) {
+        return true;
+      }
+    }
+
+    return this.matchRules(normalizedPath, isDirectory);
+  }
+
+  private matchRules(relativePath: string, isDirectory: boolean): boolean {
+    let ignored = false;
+    for (const rule of this.rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (rule.regex.test(relativePath)) {
+        ignored = !rule.negate;
+      }
+    }
+    return ignored;
+  }
+
+  private parseRule(line: string): IgnoreRule | null {
+    let pattern = line.trim();
+    if (!pattern || pattern.startsWith('#')) return null;
+
+    const negate = pattern.startsWith('!');
+    if (negate) pattern = pattern.slice(1);
+
+    const directoryOnly = pattern.endsWith('/');
+    if (directoryOnly) pattern = pattern.replace(/\/+$/, '');
+
+    // Patterns with a slash are relative to the build directory root,
+    // others match a file or directory name at any depth
+    const anchored = pattern.includes('/');
+    pattern = pattern.replace(/^\/+/, '');
+    if (!pattern) return null;
+
+    const body = globToRegex(pattern);
+    const regex = new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`);
+
+    return { negate, directoryOnly, regex };
+  }
+}
+
+function globToRegex(glob: string): string {
+  let regex = '';
+  let i = 0;
+
+  while (i < glob.length) {
+    const char = glob[i];
+
+    if (glob.startsWith('**/', i)) {
+      regex += '(?:.*/)?';
+      i += 3;
+    } else if (glob.startsWith('**', i)) {
+      regex += '.*';
+      i += 2;
+    } else if (char === '*') {
+      regex += '[^/]*';
+      i++;
+    } else if (char === '?') {
+      regex += '[^/]';
+      i++;
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        regex += '\\[';
+        i++;
+      } else {
+        regex += '[' + glob.slice(i + 1, end).replace(/^!/, '^') + ']';
+        i = end + 1;
+      }
+    } else {
+      regex += char.replace(/[.+^${}()|\\]/g, '\\$&');
+      i++;
+    }
+  }
+
+  return regex;
+}
+
+/**
+ * Recursively collect the files of a directory, skipping ignored paths
+ */
+export async function collectFiles(
+  dirPath: string,
+  matcher?: IgnoreMatcher
+): Promise<{ files: string[]; ignored: string[] }> {
+  const files: string[] = [];
+  const ignored: string[] = [];
+
+  const walk = async (currentPath: string, relativeDir: string): Promise<void> => {
+    const items = await fs.readdir(currentPath, { withFileTypes: true });
+
+    for (const item of items) {
+      const fullPath = `${currentPath}/${item.name}`;
+      const relativePath = relativeDir ? `${relativeDir}/${item.name}` : item.name;
+
+      if (item.isDirectory()) {
+        // Ignored directories can only be skipped when no include pattern could match inside them
+        if (matcher && !matcher.hasIncludes() && matcher.ignores(relativePath, true)) {
+          ignored.push(`${fullPath}/`);
+          continue;
+        }
+        await walk(fullPath, relativePath);
+      } else if (matcher && matcher.ignores(relativePath)) {
+        ignored.push(fullPath);
+      } else {
+        files.push(fullPath);
+      }
+    }
+  };
+
+  await walk(dirPath, '');
+  return { files, ignored };
+}
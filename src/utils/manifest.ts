@@ -0,0 +1,104 @@
+import { randomBytes } from 'crypto';
+import { ALL_SITES } from './site';
+
+/**
+ * Deployment manifests: every deploy and rollback publishes regular
+ * (non-replaceable) events listing each path of the site with its sha256.
+ * Relays replace kind 34128 events per path, so the manifests are the only
+ * complete record of what earlier deployments contained. Large sites are
+ * split over several events, tagged `part <manifest id> <n> <total>`.
+ */
+
+export const DEPLOYMENT_MANIFEST_KIND = 1128;
+
+// Keep each event far below common relay limits (strfry accepts 64 KiB by default)
+const MANIFEST_PART_MAX_BYTES = 32 * 1024;
+const MANIFEST_PART_MAX_PATHS = 250;
+
+export interface ManifestFile {
+  path: string;
+  hash: string;
+}
+
+export interface ManifestPart {
+  id: string;
+  index: number;
+  total: number;
+}
+
+export interface DeploymentManifest {
+  site?: string;
+  files: ManifestFile[];
+  // Set on the events of a manifest split over several events
+  part?: ManifestPart;
+}
+
+/**
+ * Build the tags of the manifest events: one `path` tag per file, plus a `site`
+ * tag for named sites. Returns one tag list per event; manifests that don't fit
+ * in one event get a `part` tag on each of them.
+ */
+export function toManifestParts(
+  files: { path: string; sha256: string }[],
+  site?: string
+): string[][][] {
+  const chunks: string[][][] = [[]];
+  let chunkBytes = 0;
+  [...files]
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .forEach((file) => {
+      const tag = ['path', file.path, file.sha256];
+      const tagBytes = Buffer.byteLength(JSON.stringify(tag));
+      const chunk = chunks[chunks.length - 1];
+      if (
+        chunk.length > 0 &&
+        (chunk.length >= MANIFEST_PART_MAX_PATHS || chunkBytes + tagBytes > MANIFEST_PART_MAX_BYTES)
+      ) {
+        chunks.push([tag]);
+        chunkBytes = tagBytes;
+      } else {
+        chunk.push(tag);
+        chunkBytes += tagBytes;
+      }
+    });
+
+  const id = randomBytes(8).toString('hex');
+  return chunks.map((pathTags, index) => [
+    ...(site ? [['site', site]] : []),
+    ...(chunks.length > 1 ? [['part', id, String(index + 1), String(chunks.length)]] : []),
+    ...pathTags,
+  ]);
+}
+
+/**
+ * Read a manifest event, or return null when it belongs to another site.
+ * `ALL_SITES` accepts the manifests of every site.
+ */
+export function parseManifest(
+  event: { tags: string[][] },
+  site?: string
+): DeploymentManifest | null {
+  const manifestSite = event.tags.find((tag) => tag[0] === 'site')?.[1];
+  if (site !== ALL_SITES && manifestSite !== site) {
+    return null;
+  }
+
+  const files = new Map<string, string>();
+  event.tags.forEach(([name, filePath, hash]) => {
+    if (name === 'path' && filePath?.startsWith('/') && /^[0-9a-f]{64}$/.test(hash || '')) {
+      files.set(filePath, hash);
+    }
+  });
+
+  const [, id, index, total] = event.tags.find((tag) => tag[0] === 'part') || [];
+  const part =
+    id && /^\d+$/.test(index || '') && /^\d+$/.test(total || '')
+      ? { id, index: parseInt(index, 10), total: parseInt(total, 10) }
+      : undefined;
+
+  return {
+    site: manifestSite,
+    files: Array.from(files.entries()).map(([filePath, hash]) => ({ path: filePath, hash })),
+    ...(part && part.index >= 1 && part.index <= part.total && { part }),
+  };
+}
@@ -0,0 +1,80 @@
+import chalk from 'chalk';
+import * as nip49 from 'nostr-tools/nip49';
+import { log } from './output';
+import { prompt } from './prompt';
+
+/**
+ * NIP-49 private key encryption. A stored key is an `ncryptsec1...` string: the
+ * key encrypted with XChaCha20-Poly1305 under a scrypt hash of the passphrase.
+ */
+
+export const PASSPHRASE_ENV = 'NOSTR_DEPLOY_PASSPHRASE';
+
+const MAX_PASSPHRASE_ATTEMPTS = 3;
+
+export function isEncryptedKey(key?: string): key is string {
+  return !!key && key.trim().startsWith('ncryptsec1');
+}
+
+export function encryptPrivateKey(privateKeyHex: string, passphrase: string): string {
+  return nip49.encrypt(new Uint8Array(Buffer.from(privateKeyHex, 'hex')), passphrase);
+}
+
+export function decryptPrivateKey(ncryptsec: string, passphrase: string): string {
+  try {
+    return Buffer.from(nip49.decrypt(ncryptsec.trim(), passphrase)).toString('hex');
+  } catch {
+    throw new Error('Could not decrypt the private key: wrong passphrase or invalid ncryptsec');
+  }
+}
+
+/**
+ * The passphrase from NOSTR_DEPLOY_PASSPHRASE, otherwise asked for on the
+ * terminal. A new passphrase has to be typed twice.
+ */
+export async function readPassphrase(message: string, isNew = false): Promise<string> {
+  const fromEnv = process.env[PASSPHRASE_ENV];
+  if (fromEnv) {
+    return fromEnv;
+  }
+
+  const answers = await prompt(
+    [
+      {
+        type: 'password',
+        name: 'passphrase',
+        message,
+        mask: '*',
+        validate: (input: string) => input.length > 0 || 'The passphrase cannot be empty',
+      },
+      {
+        type: 'password',
+        name: 'confirmation',
+        message: 'Repeat the passphrase:',
+        mask: '*',
+        when: () => isNew,
+        validate: (input: string, previous?: { passphrase: string }) =>
+          input === previous?.passphrase || 'The passphrases do not match',
+      },
+    ],
+    { hint: `set ${PASSPHRASE_ENV}` }
+  );
+  return answers.passphrase;
+}
+
+/**
+ * Decrypt a stored key, asking again when a passphrase typed at the terminal is wrong
+ */
+export async function unlockPrivateKey(ncryptsec: string): Promise<string> {
+  for (let attempt = 1; ; attempt++) {
+    const passphrase = await readPassphrase('Passphrase for the encrypted private key:');
+    try {
+      return decryptPrivateKey(ncryptsec, passphrase);
+    } catch (error) {
+      if (process.env[PASSPHRASE_ENV] || attempt >= MAX_PASSPHRASE_ATTEMPTS) {
+        throw error;
+      }
+      log(chalk.red('❌ Wrong passphrase, try again.'));
+    }
+  }
+}
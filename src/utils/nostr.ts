@@ -1,22 +1,104 @@
 import {
-  finalizeEvent,
+  Filter,
   generateSecretKey,
   getPublicKey,
   nip19,
   Event as NostrEvent,
+  Relay,
   SimplePool,
 } from 'nostr-tools';
 import 'websocket-polyfill';
+import { ConcurrencyLimiter } from './concurrency';
 import { ConfigManager } from './config';
+import {
+  DEPLOYMENT_MANIFEST_KIND,
+  DeploymentManifest,
+  ManifestFile,
+  parseManifest,
+  toManifestParts,
+} from './manifest';
+import { log } from './output';
+import { MinedEvent, PowMiner } from './pow';
+import { RelayProgress, RelayPublisher } from './publisher';
+import { fetchRelayInformation, normalizeRelayUrl, RelayInformation } from './relay-info';
+import {
+  getWriteRelays,
+  mergeRelayUrls,
+  parseRelayList,
+  RELAY_LIST_INDEXERS,
+  RELAY_LIST_KIND,
+  RelayListEntry,
+  toRelayListTags,
+} from './relay-list';
+import { resolveRetryPolicy } from './retry';
+import { getSigner } from './signer';
+import { matchSitePath, toEventPath } from './site';
+
+const SIGNING_CONCURRENCY = 8;
+
+export interface EventTemplate {
+  kind: number;
+  content: string;
+  tags: string[][];
+}
 
 export interface StaticFileInfo {
   path: string;
   sha256: string;
 }
 
+export interface RelayResult {
+  relay: string;
+  success: boolean;
+  error?: string;
+  retries?: number;
+  authenticated?: boolean;
+  powDifficulty?: number;
+  // Set when this relay stores a copy of the event mined for proof of work, under another id
+  eventId?: string;
+}
+
+export interface PublishResult {
+  // The id of the event on the first relay that accepted it
+  eventId: string;
+  relayResults: RelayResult[];
+  // Time the worker threads spent mining proof of work for this event
+  miningTimeMs?: number;
+}
+
+export interface RelayCheckResult {
+  relay: string;
+  reachable: boolean;
+  connectMs?: number;
+  // Time from sending a REQ to receiving its EOSE
+  roundTripMs?: number;
+  information: RelayInformation | null;
+  // Static file events of the published site the relay returned
+  deploymentEvents?: { found: number; total: number };
+  error?: string;
+}
+
+// A deployment, as recorded by its manifest events
+export interface DeploymentHistoryEntry {
+  site?: string;
+  files: ManifestFile[];
+  createdAt: Date;
+  // The manifest event, or its first part
+  eventId: string;
+}
+
+export interface SiteFileState {
+  path: string;
+  sha256: string;
+  eventId: string;
+  createdAt: number;
+}
+
 export class NostrManager {
   private pool: SimplePool;
   private config: ConfigManager | null = null;
+  // NIP-65 relay lists looked up during this run, by pubkey
+  private relayLists = new Map<string, Promise<RelayListEntry[] | null>>();
 
   constructor() {
     this.pool = new SimplePool();
@@ -57,125 +139,171 @@ export class NostrManager {
     content: string,
     kind: number = 1,
     tags: string[][] = []
-  ): Promise<{
-    eventId: string;
-    relayResults: { relay: string; success: boolean; error?: string }[];
-  }> {
+  ): Promise<PublishResult> {
+    const [result] = await this.publishEvents([{ kind, content, tags }]);
+    return result;
+  }
+
+  /**
+   * Sign all events up front, then publish them over persistent relay connections.
+   * Each relay gets a sliding window of unacknowledged events that adapts to its
+   * NIP-11 limits and `rate-limited:` answers; transient failures are retried with backoff.
+   * Events go to the configured relays plus our NIP-65 write relays unless `targetRelays` is given.
+   */
+  public async publishEvents(
+    templates: EventTemplate[],
+    targetRelays?: string[]
+  ): Promise<PublishResult[]> {
     const config = await this.getConfig();
     const userConfig = config.getConfig();
 
-    if (!userConfig.nostr?.privateKey) {
-      throw new Error('No private key configured. Run `nostr-deploy-cli auth` first.');
-    }
-
-    const privateKeyBytes = new Uint8Array(Buffer.from(userConfig.nostr.privateKey, 'hex'));
-
-    // Create unsigned event
-    const unsignedEvent = {
-      kind,
-      created_at: Math.floor(Date.now() / 1000),
-      tags: [...tags], // Create a copy to avoid mutating original tags
-      content,
-      pubkey: getPublicKey(privateKeyBytes),
-    };
-
-    // Finalize the event (add id and signature)
-    const event = finalizeEvent(unsignedEvent, privateKeyBytes);
-
-    const relays = userConfig.nostr.relays || [];
+    const signer = getSigner(userConfig.nostr);
+    const relays = targetRelays || (await this.getRelaysFor(userConfig.nostr?.publicKey));
     if (relays.length === 0) {
       throw new Error('No relays configured');
     }
 
-    // Publish to each relay individually and collect results
-    const relayResults = await Promise.allSettled(
-      relays.map(async (relay) => {
-        try {
-          const publishPromises = this.pool.publish([relay], event);
-          // Wait for all publish promises to resolve/reject
-          await Promise.all(publishPromises);
-          return { relay, success: true };
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          return {
-            relay,
-            success: false,
-            error: errorMessage,
-          };
-        }
-      })
+    // A remote signer answers one request per event, so only a few are sent at once
+    const signing = new ConcurrencyLimiter(SIGNING_CONCURRENCY);
+    const createdAt = Math.floor(Date.now() / 1000);
+    const events = await Promise.all(
+      templates.map((template) =>
+        signing.run(() =>
+          signer.signEvent({
+            kind: template.kind,
+            created_at: createdAt,
+            tags: [...template.tags], // Create a copy to avoid mutating original tags
+            content: template.content,
+          })
+        )
+      )
     );
 
-    // Process the settled results
-    const processedResults = relayResults.map((result, index) => {
-      const relay = relays[index];
-      if (result.status === 'fulfilled') {
-        return result.value;
-      } else {
-        // Handle rejected promises (uncaught errors)
-        const errorMessage =
-          result.reason instanceof Error ? result.reason.message : String(result.reason);
-
-        // Categorize common relay errors for better user feedback
-        let categorizedError = errorMessage;
-        if (
-          errorMessage.includes('pow:') ||
-          errorMessage.includes('POW') ||
-          errorMessage.includes('bits needed')
-        ) {
-          categorizedError = `POW required: ${errorMessage}`;
-        } else if (errorMessage.includes('rate limit') || errorMessage.includes('too many')) {
-          categorizedError = `Rate limited: ${errorMessage}`;
-        } else if (errorMessage.includes('blocked') || errorMessage.includes('banned')) {
-          categorizedError = `Blocked: ${errorMessage}`;
-        } else if (errorMessage.includes('timeout') || errorMessage.includes('TIMEOUT')) {
-          categorizedError = `Connection timeout: ${errorMessage}`;
-        }
-
-        return {
-          relay,
-          success: false,
-          error: categorizedError,
-        };
+    // Only answer NIP-42 AUTH challenges of relays the user explicitly trusts
+    const authRelays = new Set((userConfig.nostr?.authRelays || []).map(normalizeRelayUrl));
+
+    // Proof of work is mined once per event and difficulty, and shared by every
+    // relay that asks for that difficulty or less
+    const miner = new PowMiner();
+    const mined = new Map<string, { difficulty: number; event: Promise<NostrEvent> }>();
+    const miningTimes = new Map<string, number>();
+    const mineEvent = (event: NostrEvent, difficulty: number): Promise<NostrEvent> => {
+      const cached = mined.get(event.id);
+      if (cached && cached.difficulty >= difficulty) {
+        return cached.event;
       }
+
+      const minedEvent = miner.mine(event, difficulty).then((result: MinedEvent) => {
+        miningTimes.set(event.id, (miningTimes.get(event.id) || 0) + result.miningTimeMs);
+        return signer.signEvent({
+          kind: result.event.kind,
+          created_at: result.event.created_at,
+          tags: result.event.tags,
+          content: result.event.content,
+        });
+      });
+      mined.set(event.id, { difficulty, event: minedEvent });
+      return minedEvent;
+    };
+
+    const publisher = new RelayPublisher(relays, {
+      retryPolicy: resolveRetryPolicy(userConfig.retry),
+      connect: (relay) => this.pool.ensureRelay(relay, { connectionTimeout: 10000 }),
+      getRelayInformation: (relay) => fetchRelayInformation(relay),
+      canAuthenticate: (relay) => authRelays.has(normalizeRelayUrl(relay)),
+      signAuthEvent: (template) => signer.signEvent(template),
+      mineEvent,
+      maxPowDifficulty: userConfig.nostr?.maxPowDifficulty,
+      onProgress: events.length > 1 ? this.createProgressLogger() : undefined,
+    });
+    const outcomes = await publisher.publishAll(events).finally(() => miner.close());
+
+    const results = events.map((event, index): PublishResult => {
+      const relayResults: RelayResult[] = relays.map((relay) => ({
+        relay,
+        ...(outcomes.get(relay)?.[index] || { success: false, error: 'Not published', retries: 0 }),
+      }));
+      return {
+        eventId: relayResults.find((relayResult) => relayResult.success)?.eventId || event.id,
+        relayResults,
+        ...(miningTimes.has(event.id) && { miningTimeMs: miningTimes.get(event.id) }),
+      };
     });
 
-    // Log relay results for debugging
-    const successCount = processedResults.filter((r) => r.success).length;
-    const totalCount = processedResults.length;
+    // Log relays that rejected events, with the first error as an example
+    relays.forEach((relay) => {
+      const failures = results
+        .map((result) => result.relayResults.find((r) => r.relay === relay))
+        .filter((relayResult) => relayResult && !relayResult.success);
+      if (failures.length > 0) {
+        log(
+          `⚠️  ${relay}: ${failures.length}/${events.length} event(s) failed - ${failures[0]?.error}`
+        );
+      }
+    });
 
-    if (successCount < totalCount) {
-      console.log(`⚠️  Published to ${successCount}/${totalCount} relays`);
-      processedResults.forEach((result) => {
-        if (!result.success) {
-          console.log(`   ❌ ${result.relay}: ${result.error}`);
-        }
-      });
+    // Check if at least one relay accepted each event
+    const unpublished = results.filter(
+      (result) => !result.relayResults.some((relayResult) => relayResult.success)
+    );
+    if (unpublished.length > 0) {
+      throw new Error(
+        unpublished.length === 1 && results.length === 1
+          ? 'Failed to publish event to any relay'
+          : `Failed to publish ${unpublished.length} event(s) to any relay`
+      );
     }
 
-    // Check if at least one relay accepted the event
-    const hasSuccess = processedResults.some((result) => result.success);
-    if (!hasSuccess) {
-      throw new Error('Failed to publish event to any relay');
-    }
+    return results;
+  }
 
-    return {
-      eventId: event.id,
-      relayResults: processedResults,
+  /**
+   * Log per-relay progress every 10% of acknowledged events
+   */
+  private createProgressLogger(): (progress: RelayProgress) => void {
+    const lastReported = new Map<string, number>();
+
+    return (progress) => {
+      const done = progress.acknowledged + progress.failed;
+      const step = Math.floor((done / progress.total) * 10);
+      if (step <= (lastReported.get(progress.relay) ?? 0)) {
+        return;
+      }
+      lastReported.set(progress.relay, step);
+
+      log(
+        `   📡 ${progress.relay}: ${progress.acknowledged}/${progress.total} acknowledged` +
+          (progress.failed > 0 ? `, ${progress.failed} failed` : '') +
+          ` (window ${progress.window})`
+      );
     };
   }
 
+  /**
+   * Query events from the given relays. By default the configured relays are used,
+   * plus the NIP-65 write relays of the author when the filter names a single author.
+   */
   public async fetchEvents(filter: any, relays?: string[]): Promise<NostrEvent[]> {
-    const config = await this.getConfig();
-    const userConfig = config.getConfig();
-    const targetRelays = relays || userConfig.nostr?.relays || [];
+    const author = filter.authors?.length === 1 ? filter.authors[0] : undefined;
+    const targetRelays = relays || (await this.getRelaysFor(author));
 
     if (targetRelays.length === 0) {
       throw new Error('No relays available');
     }
 
+    // A query answers "no events" for relays it can't reach, so the relays are
+    // connected first and the fetch fails when none of them answers
+    const connections = await Promise.allSettled(
+      targetRelays.map((relay) => this.pool.ensureRelay(relay, { connectionTimeout: 10000 }))
+    );
+    const reachable = targetRelays.filter((_, index) => connections[index].status === 'fulfilled');
+    if (reachable.length === 0) {
+      const [failure] = connections as PromiseRejectedResult[];
+      throw new Error(`Failed to fetch events: no relay could be reached (${failure.reason})`);
+    }
+
     try {
-      const events = await this.pool.querySync(targetRelays, filter);
+      const events = await this.pool.querySync(reachable, filter);
       return Array.from(events);
     } catch (error) {
       throw new Error(`Failed to fetch events: ${error}`);
@@ -184,43 +312,63 @@ export class NostrManager {
 
   /**
    * Publish static file events according to Pubkey Static Websites NIP
-   * Kind 34128 events with d (absolute path) and x (sha256 hash) tags
+   * Kind 34128 events with d (absolute path, scoped by site name) and x (sha256 hash) tags
    */
   public async publishStaticFileEvents(
-    files: StaticFileInfo[]
-  ): Promise<
-    { eventId: string; relayResults: { relay: string; success: boolean; error?: string }[] }[]
-  > {
-    const eventResults = [];
-
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-      const result = await this.publishEvent(
-        '', // Empty content as per NIP
-        34128, // Kind for static file definition
-        [
-          ['d', file.path], // Absolute path ending with filename and extension
+    files: StaticFileInfo[],
+    site?: string
+  ): Promise<PublishResult[]> {
+    return this.publishEvents(
+      files.map((file) => ({
+        kind: 34128, // Kind for static file definition
+        content: '', // Empty content as per NIP
+        tags: [
+          ['d', toEventPath(file.path, site)], // Absolute path ending with filename and extension
           ['x', file.sha256], // SHA256 hash of the file
-        ]
-      );
-      eventResults.push(result);
+        ],
+      }))
+    );
+  }
 
-      // Add delay between publishing events to avoid rate limits on nostr relays
-      if (i < files.length - 1) {
-        await new Promise((resolve) => setTimeout(resolve, 300));
-      }
+  /**
+   * Publish NIP-09 deletion requests (kind 5) for static file events
+   * Addressable events are referenced with `a` tags (34128:<pubkey>:<path>)
+   */
+  public async publishStaticFileDeletions(
+    paths: string[],
+    site?: string
+  ): Promise<PublishResult[]> {
+    const config = await this.getConfig();
+    const userConfig = config.getConfig();
+
+    if (!userConfig.nostr?.publicKey) {
+      throw new Error('No public key configured. Run `nostr-deploy-cli auth` first.');
     }
 
-    return eventResults;
+    const publicKey = userConfig.nostr.publicKey;
+    const templates: EventTemplate[] = [];
+
+    // Keep deletion events small enough for relay message size limits
+    const batchSize = 100;
+    for (let i = 0; i < paths.length; i += batchSize) {
+      const batch = paths.slice(i, i + batchSize);
+      templates.push({
+        kind: 5,
+        content: 'Removed from static site',
+        tags: [
+          ['k', '34128'],
+          ...batch.map((path) => ['a', `34128:${publicKey}:${toEventPath(path, site)}`]),
+        ],
+      });
+    }
+
+    return this.publishEvents(templates);
   }
 
   /**
    * Publish a BUD-03 user servers event (kind 10063) to specify Blossom servers
    */
-  public async publishUserServersEvent(blossomServers: string[]): Promise<{
-    eventId: string;
-    relayResults: { relay: string; success: boolean; error?: string }[];
-  }> {
+  public async publishUserServersEvent(blossomServers: string[]): Promise<PublishResult> {
     const content = '';
     const tags = blossomServers.map((server) => ['server', server]);
 
@@ -255,20 +403,18 @@ export class NostrManager {
     npubSubdomain: string;
     files: StaticFileInfo[];
     blossomServers: string[];
+    site?: string;
   }): Promise<{
-    staticFileEventResults: {
-      eventId: string;
-      relayResults: { relay: string; success: boolean; error?: string }[];
-    }[];
-    userServersEventResult: {
-      eventId: string;
-      relayResults: { relay: string; success: boolean; error?: string }[];
-    };
+    staticFileEventResults: PublishResult[];
+    userServersEventResult: PublishResult;
   }> {
-    console.log('📡 Publishing static file events (kind 34128)...');
-    const staticFileEventResults = await this.publishStaticFileEvents(deploymentInfo.files);
+    log('📡 Publishing static file events (kind 34128)...');
+    const staticFileEventResults = await this.publishStaticFileEvents(
+      deploymentInfo.files,
+      deploymentInfo.site
+    );
 
-    console.log('📡 Publishing user servers event (kind 10063)...');
+    log('📡 Publishing user servers event (kind 10063)...');
     const userServersEventResult = await this.publishUserServersEvent(
       deploymentInfo.blossomServers
     );
@@ -300,6 +446,40 @@ export class NostrManager {
     return this.fetchEvents(filter);
   }
 
+  /**
+   * Get the current state of a site: the latest kind 34128 event for each path
+   * Relays may still hold older versions of an addressable event, so only the
+   * newest event per `d` tag is kept. Without a site name the default site is
+   * returned, `ALL_SITES` returns every site keyed by the raw `d` tag.
+   */
+  public async getSiteState(
+    publicKey?: string,
+    site?: string
+  ): Promise<Map<string, SiteFileState>> {
+    const events = await this.getStaticFileEvents(publicKey);
+    const state = new Map<string, SiteFileState>();
+
+    events.forEach((event) => {
+      const dTag = event.tags.find((t) => t[0] === 'd')?.[1];
+      const xTag = event.tags.find((t) => t[0] === 'x')?.[1];
+      const sitePath = dTag ? matchSitePath(dTag, site) : null;
+
+      if (sitePath && xTag) {
+        const existing = state.get(sitePath);
+        if (!existing || event.created_at > existing.createdAt) {
+          state.set(sitePath, {
+            path: sitePath,
+            sha256: xTag,
+            eventId: event.id,
+            createdAt: event.created_at,
+          });
+        }
+      }
+    });
+
+    return state;
+  }
+
   public async getUserServersEvent(publicKey?: string): Promise<NostrEvent | null> {
     const config = await this.getConfig();
     const userConfig = config.getConfig();
@@ -320,9 +500,31 @@ export class NostrManager {
   }
 
   /**
-   * Legacy method - kept for compatibility but should transition to new NIP
+   * Publish the manifest of a deployment: every path the site serves once the
+   * deployment's static file events and deletions are in place. Large manifests
+   * are published as several events.
+   */
+  public async publishDeploymentManifest(
+    files: StaticFileInfo[],
+    site?: string
+  ): Promise<PublishResult[]> {
+    return this.publishEvents(
+      toManifestParts(files, site).map((tags) => ({
+        kind: DEPLOYMENT_MANIFEST_KIND,
+        content: '',
+        tags,
+      }))
+    );
+  }
+
+  /**
+   * Get the deployments of a site from their manifest events, newest first.
+   * `ALL_SITES` returns the deployments of every site.
    */
-  public async getDeploymentHistory(publicKey?: string): Promise<any[]> {
+  public async getDeploymentHistory(
+    publicKey?: string,
+    site?: string
+  ): Promise<DeploymentHistoryEntry[]> {
     const config = await this.getConfig();
     const userConfig = config.getConfig();
     const targetPubkey = publicKey || userConfig.nostr?.publicKey;
@@ -331,39 +533,204 @@ export class NostrManager {
       throw new Error('No public key provided');
     }
 
-    // Look for static file events instead of deployment metadata
-    const events = await this.getStaticFileEvents(targetPubkey);
-
-    // Group by deployment (could be based on timestamp proximity)
-    const deployments = new Map();
+    const events = await this.fetchEvents({
+      authors: [targetPubkey],
+      kinds: [DEPLOYMENT_MANIFEST_KIND],
+    });
 
+    // Relays may return the same event more than once. Manifests split over
+    // several events are joined by their part id, and left out while a part is missing.
+    const manifests = new Map<
+      string,
+      Map<number, { event: { id: string; created_at: number }; manifest: DeploymentManifest }>
+    >();
     events.forEach((event) => {
-      const dTag = event.tags.find((t) => t[0] === 'd')?.[1];
-      const xTag = event.tags.find((t) => t[0] === 'x')?.[1];
+      const manifest = parseManifest(event, site);
+      if (!manifest) return;
 
-      if (dTag && xTag) {
-        const deploymentKey = Math.floor(event.created_at / 3600); // Group by hour
-        if (!deployments.has(deploymentKey)) {
-          deployments.set(deploymentKey, {
-            files: [],
-            createdAt: new Date(event.created_at * 1000),
-            eventId: event.id,
-          });
-        }
-        deployments.get(deploymentKey).files.push({ path: dTag, hash: xTag });
-      }
+      const key = manifest.part ? `part:${manifest.part.id}` : event.id;
+      const parts = manifests.get(key) || new Map();
+      parts.set(manifest.part?.index || 1, { event, manifest });
+      manifests.set(key, parts);
     });
 
-    return Array.from(deployments.values());
+    const deployments: DeploymentHistoryEntry[] = [];
+    manifests.forEach((parts) => {
+      const first = parts.get(1);
+      const total = first?.manifest.part?.total || 1;
+      const complete = Array.from({ length: total }, (_, index) => parts.get(index + 1));
+      if (!first || complete.some((part) => !part)) return;
+
+      deployments.push({
+        site: first.manifest.site,
+        files: complete.flatMap((part) => part!.manifest.files),
+        createdAt: new Date(first.event.created_at * 1000),
+        eventId: first.event.id,
+      });
+    });
+
+    return deployments.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
-  public async close(): Promise<void> {
-    if (this.config) {
-      const userConfig = this.config.getConfig();
-      const relays = userConfig.nostr?.relays || [];
-      this.pool.close(relays);
-    } else {
-      this.pool.close([]);
+  /**
+   * Check a single relay on its own connection: connect latency, REQ/EOSE round trip,
+   * its NIP-11 document and, when event ids are given, which of them it stores
+   */
+  public async checkRelay(
+    relayUrl: string,
+    eventIds: string[] = [],
+    timeoutMs = 10000
+  ): Promise<RelayCheckResult> {
+    const informationRequest = fetchRelayInformation(relayUrl, timeoutMs);
+    const relay = new Relay(relayUrl);
+    relay.connectionTimeout = timeoutMs;
+
+    try {
+      const connectStartedAt = Date.now();
+      await relay.connect();
+      const connectMs = Date.now() - connectStartedAt;
+
+      // Asking for the deployment's events doubles as the round-trip probe
+      const filter: Filter = eventIds.length > 0 ? { ids: eventIds } : { kinds: [34128], limit: 1 };
+      const requestStartedAt = Date.now();
+      const events = await this.queryRelay(relay, filter, timeoutMs);
+      const roundTripMs = Date.now() - requestStartedAt;
+
+      return {
+        relay: relayUrl,
+        reachable: true,
+        connectMs,
+        roundTripMs,
+        information: await informationRequest,
+        ...(eventIds.length > 0 && {
+          deploymentEvents: { found: events.length, total: eventIds.length },
+        }),
+      };
+    } catch (error) {
+      return {
+        relay: relayUrl,
+        reachable: false,
+        information: await informationRequest,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      relay.close();
+    }
+  }
+
+  /**
+   * Collect the events a relay returns for a filter until it sends EOSE
+   */
+  private queryRelay(relay: Relay, filter: Filter, timeoutMs: number): Promise<NostrEvent[]> {
+    return new Promise((resolve, reject) => {
+      const events: NostrEvent[] = [];
+      const timer = setTimeout(() => {
+        subscription.close();
+        reject(new Error('timed out waiting for EOSE'));
+      }, timeoutMs);
+
+      const subscription = relay.subscribe([filter], {
+        onevent: (event) => events.push(event),
+        oneose: () => {
+          clearTimeout(timer);
+          subscription.close();
+          resolve(events);
+        },
+        onclose: (reason) => {
+          clearTimeout(timer);
+          reject(new Error(reason));
+        },
+      });
+    });
+  }
+
+  /**
+   * Look up the latest NIP-65 relay list (kind 10002) of a pubkey on the configured
+   * relays and the relay list indexers. Returns null if none is published.
+   */
+  public async getRelayList(publicKey?: string): Promise<RelayListEntry[] | null> {
+    const config = await this.getConfig();
+    const userConfig = config.getConfig();
+    const targetPubkey = publicKey || userConfig.nostr?.publicKey;
+
+    if (!targetPubkey) {
+      throw new Error('No public key provided');
+    }
+
+    if (!this.relayLists.has(targetPubkey)) {
+      const lookupRelays = mergeRelayUrls(userConfig.nostr?.relays || [], RELAY_LIST_INDEXERS);
+      this.relayLists.set(
+        targetPubkey,
+        this.fetchEvents({ authors: [targetPubkey], kinds: [RELAY_LIST_KIND] }, lookupRelays).then(
+          (events) => {
+            const latest = events.sort((a, b) => b.created_at - a.created_at)[0];
+            return latest ? parseRelayList(latest) : null;
+          }
+        )
+      );
     }
+
+    return this.relayLists.get(targetPubkey)!;
+  }
+
+  /**
+   * Publish our NIP-65 relay list. It goes to the configured relays and to every
+   * relay on the old and the new list, so clients find the update wherever they look.
+   */
+  public async publishRelayList(entries: RelayListEntry[]): Promise<PublishResult> {
+    const config = await this.getConfig();
+    const userConfig = config.getConfig();
+    const previous = (await this.getRelayList().catch(() => null)) || [];
+
+    const [result] = await this.publishEvents(
+      [{ kind: RELAY_LIST_KIND, content: '', tags: toRelayListTags(entries) }],
+      mergeRelayUrls(
+        userConfig.nostr?.relays || [],
+        getWriteRelays(previous),
+        getWriteRelays(entries),
+        RELAY_LIST_INDEXERS
+      )
+    );
+    // Later lookups during this run must see the new list
+    this.relayLists.clear();
+    return result;
+  }
+
+  /**
+   * The NIP-65 write (outbox) relays of a pubkey, empty when it has no relay list
+   */
+  public async getOutboxRelays(publicKey?: string): Promise<string[]> {
+    const relayList = await this.getRelayList(publicKey).catch(() => null);
+    return relayList ? getWriteRelays(relayList) : [];
+  }
+
+  /**
+   * Count how many of the given events a single relay returns
+   */
+  public async countEventsOnRelay(relay: string, eventIds: string[]): Promise<number> {
+    if (eventIds.length === 0) return 0;
+
+    const events = await this.pool.querySync([relay], { ids: eventIds }, { maxWait: 10000 });
+    return new Set(events.map((event) => event.id)).size;
+  }
+
+  /**
+   * Relays to read a pubkey's events from and publish ours to: the configured relays
+   * plus the pubkey's write relays, unless NOSTR_USE_RELAY_LIST is turned off
+   */
+  private async getRelaysFor(publicKey?: string): Promise<string[]> {
+    const config = await this.getConfig();
+    const userConfig = config.getConfig();
+    const configured = userConfig.nostr?.relays || [];
+
+    if (!publicKey || userConfig.nostr?.useRelayList === false) {
+      return configured;
+    }
+    return mergeRelayUrls(configured, await this.getOutboxRelays(publicKey));
+  }
+
+  public async close(): Promise<void> {
+    // Closes the configured relays as well as any outbox relays we connected to
+    this.pool.close(Array.from(this.pool.listConnectionStatus().keys()));
   }
 }
@@ -0,0 +1,178 @@
+import { UserConfig } from '../types';
+import { DeploymentPlan, DeploymentResult, DeploymentStatus } from './deployment';
+import { DeploymentHistoryEntry } from './nostr';
+
+/**
+ * Machine-readable output for --json. stdout carries exactly one JSON document,
+ * everything a command logs (text, spinners, prompts) goes to stderr instead.
+ *
+ * Bump JSON_SCHEMA_VERSION when a field is removed or changes meaning; new
+ * fields may be added without a bump.
+ */
+
+export const JSON_SCHEMA_VERSION = 1;
+
+// Commands that put a result in their document, the others only report success
+const RESULT_COMMANDS = ['deploy', 'status', 'info', 'config get', 'config list'];
+
+const REDACTED = '[redacted]';
+
+export interface JsonDocument<T = unknown> {
+  schemaVersion: number;
+  command: string;
+  success: boolean;
+  result?: T;
+  error?: string;
+}
+
+// `deploy --json`; `deploy --dry-run --json` returns the DeploymentPlan instead
+export type DeployJsonResult = DeploymentResult;
+
+export type StatusJsonResult =
+  | {
+      subdomain: string;
+      url: string;
+      deploymentStatus: DeploymentStatus;
+    }
+  | {
+      npubSubdomain: string;
+      url: string;
+      deployments: DeploymentHistoryEntry[];
+    };
+
+export interface InfoJsonResult {
+  project: {
+    name: string;
+    path: string;
+    configPath: string;
+    configExists: boolean;
+    environmentOverrides: string[];
+    profile: string | null;
+    // Config files, lowest precedence first
+    layers: { name: string; path: string; exists: boolean }[];
+  };
+  identity: {
+    publicKey: string | null;
+    npub: string | null;
+    signer: 'local-key' | 'encrypted-key' | 'bunker' | null;
+  };
+  // The configuration in effect, private keys and bunker secrets redacted
+  config: Partial<UserConfig>;
+  // The layer each value comes from, by key path such as `nostr.relays`
+  sources: { [keyPath: string]: string };
+  ready: boolean;
+}
+
+export type DryRunJsonResult = DeploymentPlan;
+
+export interface ConfigValueJsonResult {
+  key: string;
+  value: unknown;
+  // The layer the value comes from, or `default`
+  source: string;
+}
+
+export type ConfigGetJsonResult = ConfigValueJsonResult;
+
+// Every effective value, the private key and bunker secret redacted
+export type ConfigListJsonResult = ConfigValueJsonResult[];
+
+let command: string | null = null;
+let written = false;
+let failed = false;
+
+/**
+ * Switch to JSON output for the rest of the run
+ */
+export function enableJsonOutput(commandName: string): void {
+  command = commandName;
+}
+
+export function isJsonOutput(): boolean {
+  return command !== null;
+}
+
+/**
+ * Text output for people: stdout, or stderr with --json so stdout only carries the document
+ */
+export function log(...args: unknown[]): void {
+  if (isJsonOutput()) {
+    console.error(...args);
+  } else {
+    console.log(...args);
+  }
+}
+
+/**
+ * Write the document of a command that ended without one, so commands that stop
+ * early still leave a valid document behind. Returns the exit code to use, 1 when
+ * the document reports a failure.
+ */
+export function finishJsonOutput(code: number): number {
+  if (!isJsonOutput()) return code;
+
+  if (!written) {
+    const success = code === 0 && !RESULT_COMMANDS.includes(command!);
+    writeDocument({
+      success,
+      error: success
+        ? undefined
+        : code === 0
+          ? 'The command ended without a result, see stderr for details'
+          : 'The command failed, see stderr for details',
+    });
+  }
+  return failed && code === 0 ? 1 : code;
+}
+
+/**
+ * End the command, writing its JSON document first
+ */
+export function exitCommand(code: number): never {
+  return process.exit(finishJsonOutput(code));
+}
+
+export function emitJsonResult<T>(result: T): void {
+  if (isJsonOutput()) {
+    writeDocument({ success: true, result });
+  }
+}
+
+export function emitJsonError(error: unknown): void {
+  if (isJsonOutput()) {
+    writeDocument({
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * A copy of the configuration that is safe to print
+ */
+export function redactConfig(config: Partial<UserConfig>): Partial<UserConfig> {
+  if (!config.nostr) {
+    return config;
+  }
+
+  const nostr = { ...config.nostr };
+  if (nostr.privateKey) {
+    nostr.privateKey = REDACTED;
+  }
+  if (nostr.bunker) {
+    nostr.bunker = nostr.bunker.replace(/([?&]secret=)[^&]*/, `$1${REDACTED}`);
+  }
+  return { ...config, nostr };
+}
+
+function writeDocument(document: Omit<JsonDocument, 'schemaVersion' | 'command'>): void {
+  if (written) return;
+  written = true;
+  failed = !document.success;
+  const output: JsonDocument = {
+    schemaVersion: JSON_SCHEMA_VERSION,
+    command: command!,
+    ...document,
+  };
+  process.stdout.write(JSON.stringify(output, null, 2) + '\n');
+}
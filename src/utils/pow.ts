@@ -0,0 +1,118 @@
+import * as os from 'os';
+import { Worker } from 'worker_threads';
+import { Event as NostrEvent, UnsignedEvent } from 'nostr-tools';
+
+// Highest NIP-13 difficulty mined unless NOSTR_MAX_POW_DIFFICULTY says otherwise.
+// Every extra bit doubles the expected mining time.
+export const DEFAULT_MAX_POW_DIFFICULTY = 24;
+
+export interface MinedEvent {
+  event: Omit<NostrEvent, 'sig'>;
+  miningTimeMs: number;
+}
+
+interface MiningJob {
+  event: UnsignedEvent;
+  difficulty: number;
+  resolve: (mined: MinedEvent) => void;
+  reject: (error: Error) => void;
+}
+
+// Runs as an eval worker, so it loads nostr-tools from the path resolved by the CLI
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const { minePow } = require(workerData.nip13Path);
+parentPort.on('message', ({ event, difficulty }) => {
+  const startedAt = Date.now();
+  const mined = minePow(event, difficulty);
+  parentPort.postMessage({ event: mined, miningTimeMs: Date.now() - startedAt });
+});
+`;
+
+/**
+ * Read the difficulty a relay asks for from its `pow:` rejection, e.g.
+ * `pow: difficulty 12 is less than 20`. The required difficulty is the largest number.
+ */
+export function parsePowDifficulty(message: string): number | null {
+  if (!message.startsWith('pow:')) return null;
+
+  const numbers = (message.match(/\d+/g) || []).map(Number);
+  return numbers.length > 0 ? Math.max(...numbers) : null;
+}
+
+/**
+ * Mines NIP-13 proof of work on a pool of worker threads, so hashing doesn't block
+ * publishing to other relays. Workers are started on demand, one job at a time each.
+ */
+export class PowMiner {
+  private readonly idle: Worker[] = [];
+  private readonly queue: MiningJob[] = [];
+  private workerCount = 0;
+
+  constructor(private readonly maxWorkers = Math.max(1, os.cpus().length - 1)) {}
+
+  /**
+   * Mine an event up to the given difficulty. Existing nonce tags are replaced and
+   * `created_at` is moved forward while mining, so the event must be signed afterwards.
+   */
+  public mine(event: UnsignedEvent, difficulty: number): Promise<MinedEvent> {
+    const unsigned: UnsignedEvent = {
+      ...event,
+      tags: event.tags.filter(([name]) => name !== 'nonce'),
+    };
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ event: unsigned, difficulty, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stop all workers. Pending jobs are rejected.
+   */
+  public async close(): Promise<void> {
+    this.queue.splice(0).forEach((job) => job.reject(new Error('Proof of work miner closed')));
+    await Promise.all(this.idle.splice(0).map((worker) => worker.terminate()));
+    this.workerCount = 0;
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const worker = this.idle.pop() || this.startWorker();
+      if (!worker) return;
+      this.run(worker, this.queue.shift()!);
+    }
+  }
+
+  private startWorker(): Worker | null {
+    if (this.workerCount >= this.maxWorkers) return null;
+
+    this.workerCount++;
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { nip13Path: require.resolve('nostr-tools/nip13') },
+    });
+    // Idle workers must not keep the CLI alive
+    worker.unref();
+    return worker;
+  }
+
+  private run(worker: Worker, job: MiningJob): void {
+    const onMessage = (mined: MinedEvent) => {
+      worker.off('error', onError);
+      this.idle.push(worker);
+      job.resolve(mined);
+      this.dispatch();
+    };
+    const onError = (error: Error) => {
+      worker.off('message', onMessage);
+      this.workerCount--;
+      job.reject(error);
+      this.dispatch();
+    };
+
+    worker.once('message', onMessage);
+    worker.once('error', onError);
+    worker.postMessage({ event: job.event, difficulty: job.difficulty });
+  }
+}
@@ -0,0 +1,149 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { ProjectConfig } from '../types';
+import { CONFIG_VERSION } from './config-migrations';
+import {
+  CONFIG_SCHEMA,
+  isPlainObject,
+  isSecretKey,
+  suggest,
+  validateConfigValue,
+} from './config-schema';
+
+/**
+ * The project config file: settings without secrets that can be committed to
+ * git, next to the gitignored .env.nostr-deploy.local that keeps the key.
+ */
+
+// In order of preference when a project has more than one
+export const PROJECT_CONFIG_FILES = [
+  'nostr-deploy.config.json',
+  'nostr-deploy.config.ts',
+  'nostr-deploy.config.mjs',
+];
+
+/**
+ * Check a loaded project config against the schema, reporting every problem at once
+ */
+export function validateProjectConfig(config: unknown, fileName: string): ProjectConfig {
+  const problems: string[] = [];
+
+  if (!isPlainObject(config)) {
+    throw new Error(`Invalid ${fileName}: expected an object`);
+  }
+
+  Object.entries(config).forEach(([section, values]) => {
+    if (section === '$schema') return;
+    if (section === 'version') {
+      if (!Number.isInteger(values) || (values as number) > CONFIG_VERSION) {
+        problems.push(`version must be a config version up to ${CONFIG_VERSION}`);
+      }
+      return;
+    }
+
+    if (!CONFIG_SCHEMA[section]) {
+      const suggestion = suggest(section, Object.keys(CONFIG_SCHEMA));
+      problems.push(
+        `unknown section "${section}"${suggestion ? `, did you mean "${suggestion}"?` : ''}`
+      );
+      return;
+    }
+    if (!isPlainObject(values)) {
+      problems.push(`${section} must be an object`);
+      return;
+    }
+
+    Object.entries(values).forEach(([key, value]) => {
+      const keyPath = `${section}.${key}`;
+      const problem = isSecretKey(keyPath)
+        ? `${keyPath} must not be committed, keep it in .env.nostr-deploy.local`
+        : validateConfigValue(keyPath, value);
+      if (problem) {
+        problems.push(problem);
+      }
+    });
+  });
+
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid ${fileName}:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`
+    );
+  }
+
+  const projectConfig = { ...config };
+  delete projectConfig.$schema;
+  delete projectConfig.version;
+  return projectConfig as ProjectConfig;
+}
+
+/**
+ * The project config file in a directory, if there is one
+ */
+export async function findProjectConfigFile(projectPath: string): Promise<string | undefined> {
+  for (const fileName of PROJECT_CONFIG_FILES) {
+    const filePath = path.join(projectPath, fileName);
+    if (await fs.pathExists(filePath)) {
+      return filePath;
+    }
+  }
+  return undefined;
+}
+
+export function isJsonConfigFile(filePath: string): boolean {
+  return path.extname(filePath) === '.json';
+}
+
+/**
+ * Load and validate a project config file. `.ts` and `.mjs` files default-export the config.
+ */
+export async function loadProjectConfig(filePath: string): Promise<ProjectConfig> {
+  const fileName = path.basename(filePath);
+  let config: unknown;
+
+  if (isJsonConfigFile(filePath)) {
+    try {
+      config = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Invalid ${fileName}: ${error instanceof Error ? error.message : error}`);
+    }
+  } else if (path.extname(filePath) === '.ts') {
+    registerTypeScript(filePath);
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const loaded = require(filePath);
+    config = loaded.default ?? loaded;
+  } else {
+    const loaded = await importModule(pathToFileURL(filePath).href);
+    config = loaded.default ?? loaded;
+  }
+
+  return validateProjectConfig(config, fileName);
+}
+
+export function serializeProjectConfig(config: ProjectConfig): string {
+  return JSON.stringify({ version: CONFIG_VERSION, ...config }, null, 2) + '\n';
+}
+
+// A real import(), which TypeScript would otherwise compile to require() for CommonJS
+const importModule = new Function('specifier', 'return import(specifier)') as (
+  specifier: string
+) => Promise<{ default?: unknown }>;
+
+/**
+ * Let require() load TypeScript, with the project's ts-node or our own
+ */
+function registerTypeScript(filePath: string): void {
+  if ((process as unknown as { [key: symbol]: unknown })[Symbol.for('ts-node.register.instance')]) {
+    return;
+  }
+
+  let tsNode: string;
+  try {
+    tsNode = require.resolve('ts-node', { paths: [path.dirname(filePath), __dirname] });
+  } catch {
+    throw new Error(
+      `Loading ${path.basename(filePath)} requires ts-node (npm install --save-dev ts-node), or use nostr-deploy.config.json`
+    );
+  }
+  require(tsNode).register({ transpileOnly: true, compilerOptions: { module: 'commonjs' } });
+}
@@ -0,0 +1,47 @@
+import inquirer, { Answers, QuestionCollection } from 'inquirer';
+import { isJsonOutput } from './output';
+
+/**
+ * Terminal prompts that can be turned off with --yes/--non-interactive, for CI
+ * where nobody can answer them.
+ */
+
+let interactive = true;
+
+export function setInteractive(value: boolean): void {
+  interactive = value;
+}
+
+export function isInteractive(): boolean {
+  return interactive;
+}
+
+export interface PromptOptions<T> {
+  // Answers used in non-interactive mode, e.g. to confirm because of --yes
+  fallback?: T;
+  // What to pass instead of answering, shown when there is no fallback
+  hint?: string;
+}
+
+/**
+ * Ask questions on the terminal. In non-interactive mode the fallback answers
+ * are returned, or an error says how to provide the answer without a prompt.
+ */
+export async function prompt<T extends Answers = Answers>(
+  questions: QuestionCollection<T>,
+  options: PromptOptions<T> = {}
+): Promise<T> {
+  if (interactive) {
+    // With --json stdout is reserved for the result document
+    const ask = isJsonOutput()
+      ? inquirer.createPromptModule({ output: process.stderr })
+      : inquirer.prompt;
+    return ask<T>(questions);
+  }
+  if (options.fallback) {
+    return options.fallback;
+  }
+  throw new Error(
+    `Input is required but prompts are disabled (--non-interactive)${options.hint ? `: ${options.hint}` : ''}`
+  );
+}
@@ -0,0 +1,267 @@
+import { Event as NostrEvent, EventTemplate, nip13, VerifiedEvent } from 'nostr-tools';
+import { DEFAULT_MAX_POW_DIFFICULTY, parsePowDifficulty } from './pow';
+import { checkEventLimits, RelayInformation } from './relay-info';
+import { classifyRelayError, getBackoffDelay, RetryPolicy } from './retry';
+
+export interface RelayConnection {
+  publish(event: NostrEvent): Promise<string>;
+  // Answers the relay's last NIP-42 AUTH challenge with the event built by `signAuthEvent`
+  auth?(signAuthEvent: (template: EventTemplate) => Promise<VerifiedEvent>): Promise<string>;
+}
+
+export interface RelayPublishOutcome {
+  success: boolean;
+  error?: string;
+  retries: number;
+  authenticated?: boolean;
+  // Difficulty of the proof of work mined for this relay, and the id of the mined event
+  powDifficulty?: number;
+  eventId?: string;
+}
+
+export interface RelayProgress {
+  relay: string;
+  acknowledged: number;
+  failed: number;
+  total: number;
+  window: number;
+}
+
+export interface RelayPublisherOptions {
+  retryPolicy: RetryPolicy;
+  connect: (relay: string) => Promise<RelayConnection>;
+  getRelayInformation?: (relay: string) => Promise<RelayInformation | null>;
+  onProgress?: (progress: RelayProgress) => void;
+  // NIP-42: relays we may authenticate to, and how to sign the kind 22242 event
+  canAuthenticate?: (relay: string) => boolean;
+  signAuthEvent?: (template: EventTemplate) => Promise<VerifiedEvent>;
+  // NIP-13: returns the event signed again with a nonce tag of at least `difficulty`
+  mineEvent?: (event: NostrEvent, difficulty: number) => Promise<NostrEvent>;
+  maxPowDifficulty?: number;
+  initialWindow?: number;
+  maxWindow?: number;
+}
+
+interface QueuedEvent {
+  index: number;
+  attempt: number;
+  authAttempted?: boolean;
+  powAttempted?: boolean;
+}
+
+// Relays that publish a NIP-11 document start with a few events in flight,
+// unknown relays start with one. The window then adapts to how the relay answers.
+// NIP-11 defines no write rate, the closest advertised limit is `max_subscriptions`,
+// the number of requests a relay serves at once per connection, which caps the window.
+// The publish rate itself only follows `rate-limited:` answers.
+const DEFAULT_INITIAL_WINDOW = 4;
+const UNKNOWN_RELAY_WINDOW = 1;
+const DEFAULT_MAX_WINDOW = 16;
+
+/**
+ * Publishes pre-signed events over one persistent connection per relay, keeping
+ * a sliding window of unacknowledged events. The window grows by one event per
+ * acknowledged window and is halved whenever the relay answers `rate-limited:`.
+ */
+export class RelayPublisher {
+  constructor(
+    private readonly relays: string[],
+    private readonly options: RelayPublisherOptions
+  ) {}
+
+  /**
+   * Publish all events to all relays. Returns, for each relay, one outcome per event
+   * in the order of `events`.
+   */
+  public async publishAll(events: NostrEvent[]): Promise<Map<string, RelayPublishOutcome[]>> {
+    const results = await Promise.all(
+      this.relays.map(async (relay) => [relay, await this.publishToRelay(relay, events)] as const)
+    );
+    return new Map(results);
+  }
+
+  private async publishToRelay(
+    relay: string,
+    events: NostrEvent[]
+  ): Promise<RelayPublishOutcome[]> {
+    const { retryPolicy } = this.options;
+    const outcomes: RelayPublishOutcome[] = new Array(events.length);
+    const progress: RelayProgress = {
+      relay,
+      acknowledged: 0,
+      failed: 0,
+      total: events.length,
+      window: UNKNOWN_RELAY_WINDOW,
+    };
+
+    const info = this.options.getRelayInformation
+      ? await this.options.getRelayInformation(relay)
+      : null;
+    const maxWindow = Math.min(
+      this.options.maxWindow || DEFAULT_MAX_WINDOW,
+      info?.limitation?.max_subscriptions || Infinity
+    );
+    let window = info
+      ? Math.min(maxWindow, this.options.initialWindow || DEFAULT_INITIAL_WINDOW)
+      : UNKNOWN_RELAY_WINDOW;
+
+    // Events the relay would reject because of its advertised limits are never sent
+    const queue: QueuedEvent[] = [];
+    events.forEach((event, index) => {
+      const limitError = checkEventLimits(event, info?.limitation);
+      if (limitError) {
+        outcomes[index] = { success: false, error: limitError, retries: 0 };
+        progress.failed++;
+      } else {
+        queue.push({ index, attempt: 1 });
+      }
+    });
+
+    let connection: RelayConnection;
+    try {
+      connection = await this.options.connect(relay);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      queue.forEach(({ index }) => {
+        outcomes[index] = { success: false, error: message, retries: 0 };
+      });
+      progress.failed = events.length;
+      this.options.onProgress?.(progress);
+      return outcomes;
+    }
+
+    let inFlight = 0;
+    let authenticated = false;
+
+    // Events are mined for this relay only when it asks for proof of work,
+    // up front through NIP-11 or later with a `pow:` rejection
+    const relayEvents = [...events];
+    let powDifficulty = info?.limitation?.min_pow_difficulty || 0;
+    const prepare = async (index: number): Promise<NostrEvent> => {
+      if (powDifficulty === 0 || nip13.getPow(relayEvents[index].id) >= powDifficulty) {
+        return relayEvents[index];
+      }
+
+      const maxDifficulty = this.options.maxPowDifficulty || DEFAULT_MAX_POW_DIFFICULTY;
+      if (!this.options.mineEvent || powDifficulty > maxDifficulty) {
+        throw new Error(
+          `pow: relay requires difficulty ${powDifficulty}, above the configured maximum of ${maxDifficulty}`
+        );
+      }
+      relayEvents[index] = await this.options.mineEvent(events[index], powDifficulty);
+      return relayEvents[index];
+    };
+
+    return new Promise((resolve) => {
+      const report = () => this.options.onProgress?.({ ...progress, window: Math.floor(window) });
+
+      const send = (item: QueuedEvent) => {
+        inFlight++;
+        prepare(item.index)
+          .then((event) => connection.publish(event))
+          .then(
+            () => {
+              const mined = relayEvents[item.index] !== events[item.index];
+              outcomes[item.index] = {
+                success: true,
+                retries: item.attempt - 1,
+                ...(authenticated && { authenticated: true }),
+                ...(mined && {
+                  powDifficulty: nip13.getPow(relayEvents[item.index].id),
+                  eventId: relayEvents[item.index].id,
+                }),
+              };
+              progress.acknowledged++;
+              // Additive increase: one more slot per fully acknowledged window
+              window = Math.min(maxWindow, window + 1 / Math.floor(window));
+            },
+            async (error) => {
+              let message = error instanceof Error ? error.message : String(error);
+
+              if (message.startsWith('auth-required:')) {
+                if (!this.canAuthenticate(relay, connection)) {
+                  message = `${message} (authentication not allowed for this relay)`;
+                } else if (!item.authAttempted) {
+                  try {
+                    // Relays answer AUTH once per connection, concurrent rejections share it
+                    await connection.auth!(this.options.signAuthEvent!);
+                    authenticated = true;
+                    // Authenticating isn't a retry, send the event again right away
+                    queue.unshift({ ...item, authAttempted: true });
+                    return;
+                  } catch (authError) {
+                    const reason =
+                      authError instanceof Error ? authError.message : String(authError);
+                    message = `${message} (authentication failed: ${reason})`;
+                  }
+                }
+                outcomes[item.index] = {
+                  success: false,
+                  error: message,
+                  retries: item.attempt - 1,
+                };
+                progress.failed++;
+                return;
+              }
+
+              const requiredPow = parsePowDifficulty(message);
+              if (requiredPow !== null && requiredPow > powDifficulty && !item.powAttempted) {
+                // Mining isn't a retry either, the event goes out again once it has enough work
+                powDifficulty = requiredPow;
+                queue.unshift({ ...item, powAttempted: true });
+                return;
+              }
+
+              if (message.startsWith('rate-limited:')) {
+                // Multiplicative decrease
+                window = Math.max(1, window / 2);
+              }
+
+              // Retried events keep their slot while backing off, which slows the relay down too
+              const decision = classifyRelayError(error);
+              if (decision.retry && item.attempt < retryPolicy.attempts) {
+                const delayMs = Math.min(
+                  retryPolicy.maxDelayMs,
+                  decision.delayMs ?? getBackoffDelay(item.attempt, retryPolicy)
+                );
+                await new Promise((wait) => setTimeout(wait, delayMs));
+                try {
+                  // Reconnects if the connection dropped in the meantime
+                  connection = await this.options.connect(relay);
+                } catch {
+                  // Keep the old connection, the next publish attempt fails and is retried
+                }
+                queue.unshift({ ...item, attempt: item.attempt + 1 });
+                return;
+              }
+
+              outcomes[item.index] = { success: false, error: message, retries: item.attempt - 1 };
+              progress.failed++;
+            }
+          )
+          .finally(() => {
+            inFlight--;
+            report();
+            pump();
+          });
+      };
+
+      const pump = () => {
+        while (queue.length > 0 && inFlight < Math.floor(window)) {
+          send(queue.shift()!);
+        }
+        if (queue.length === 0 && inFlight === 0) {
+          resolve(outcomes);
+        }
+      };
+
+      pump();
+    });
+  }
+
+  private canAuthenticate(relay: string, connection: RelayConnection): boolean {
+    return Boolean(
+      connection.auth && this.options.signAuthEvent && this.options.canAuthenticate?.(relay)
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import axios from 'axios';
+
+// NIP-11 `limitation` fields used by the CLI
+export interface RelayLimitation {
+  max_message_length?: number;
+  max_content_length?: number;
+  max_event_tags?: number;
+  max_subscriptions?: number;
+  min_pow_difficulty?: number;
+  auth_required?: boolean;
+  payment_required?: boolean;
+  restricted_writes?: boolean;
+}
+
+export interface RelayInformation {
+  name?: string;
+  description?: string;
+  software?: string;
+  version?: string;
+  supported_nips?: number[];
+  limitation?: RelayLimitation;
+}
+
+/**
+ * Normalize a relay URL for comparisons: lowercase, without trailing slashes
+ */
+export function normalizeRelayUrl(relayUrl: string): string {
+  return relayUrl.trim().toLowerCase().replace(/\/+$/, '');
+}
+
+/**
+ * Fetch a relay information document (NIP-11) over HTTP(S).
+ * Returns null when the relay doesn't serve one.
+ */
+export async function fetchRelayInformation(
+  relayUrl: string,
+  timeoutMs = 5000
+): Promise<RelayInformation | null> {
+  const httpUrl = relayUrl.replace(/^ws(s?):\/\//, 'http$1://');
+
+  try {
+    const response = await axios.get(httpUrl, {
+      headers: { Accept: 'application/nostr+json' },
+      timeout: timeoutMs,
+    });
+    return response.data && typeof response.data === 'object' ? response.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check an event against the size limits a relay advertises, so oversized events
+ * fail fast instead of being rejected after they were sent
+ */
+export function checkEventLimits(
+  event: { content: string; tags: string[][] },
+  limitation?: RelayLimitation
+): string | null {
+  if (!limitation) return null;
+
+  if (limitation.max_event_tags && event.tags.length > limitation.max_event_tags) {
+    return `invalid: event has ${event.tags.length} tags, relay allows ${limitation.max_event_tags}`;
+  }
+
+  if (limitation.max_content_length && event.content.length > limitation.max_content_length) {
+    return `invalid: content exceeds relay max_content_length (${limitation.max_content_length})`;
+  }
+
+  const messageLength = Buffer.byteLength(JSON.stringify(['EVENT', event]));
+  if (limitation.max_message_length && messageLength > limitation.max_message_length) {
+    return `invalid: message exceeds relay max_message_length (${limitation.max_message_length})`;
+  }
+
+  return null;
+}
@@ -0,0 +1,65 @@
+import { normalizeRelayUrl } from './relay-info';
+
+/**
+ * NIP-65 relay lists (kind 10002). Each `r` tag names a relay, optionally marked
+ * `read` or `write`; unmarked relays are used for both. Clients look up a user's
+ * events on their write (outbox) relays.
+ */
+
+export const RELAY_LIST_KIND = 10002;
+
+// Relays that index kind 10002 events, queried in addition to the configured ones
+export const RELAY_LIST_INDEXERS = ['wss://purplepag.es'];
+
+export interface RelayListEntry {
+  url: string;
+  read: boolean;
+  write: boolean;
+}
+
+/**
+ * Read the `r` tags of a kind 10002 event. Duplicate relays are merged.
+ */
+export function parseRelayList(event: { tags: string[][] }): RelayListEntry[] {
+  const entries = new Map<string, RelayListEntry>();
+
+  event.tags.forEach(([name, url, marker]) => {
+    if (name !== 'r' || !url || !/^wss?:\/\//i.test(url)) return;
+
+    const key = normalizeRelayUrl(url);
+    const entry = entries.get(key) || { url: url.replace(/\/+$/, ''), read: false, write: false };
+    entry.read = entry.read || marker !== 'write';
+    entry.write = entry.write || marker !== 'read';
+    entries.set(key, entry);
+  });
+
+  return Array.from(entries.values());
+}
+
+/**
+ * Build the `r` tags of a kind 10002 event
+ */
+export function toRelayListTags(entries: RelayListEntry[]): string[][] {
+  return entries
+    .filter((entry) => entry.read || entry.write)
+    .map((entry) => {
+      if (entry.read && entry.write) return ['r', entry.url];
+      return ['r', entry.url, entry.read ? 'read' : 'write'];
+    });
+}
+
+export function getWriteRelays(entries: RelayListEntry[]): string[] {
+  return entries.filter((entry) => entry.write).map((entry) => entry.url);
+}
+
+/**
+ * Combine relay lists, keeping the first spelling of each relay
+ */
+export function mergeRelayUrls(...lists: string[][]): string[] {
+  const merged = new Map<string, string>();
+  lists.flat().forEach((url) => {
+    const key = normalizeRelayUrl(url);
+    if (!merged.has(key)) merged.set(key, url);
+  });
+  return Array.from(merged.values());
+}
@@ -0,0 +1,133 @@
+import axios from 'axios';
+
+export interface RetryPolicy {
+  attempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RetryDecision {
+  retry: boolean;
+  delayMs?: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Build a retry policy from the project config, falling back to the defaults
+ */
+export function resolveRetryPolicy(config?: {
+  attempts?: number;
+  baseDelayMs?: number;
+}): RetryPolicy {
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...(config?.attempts ? { attempts: config.attempts } : {}),
+    ...(config?.baseDelayMs ? { baseDelayMs: config.baseDelayMs } : {}),
+  };
+}
+
+/**
+ * Exponential backoff with equal jitter: half of the delay is fixed,
+ * the other half is random so concurrent retries spread out
+ */
+export function getBackoffDelay(retry: number, policy: RetryPolicy): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+/**
+ * Run a task, retrying failures the classifier considers transient.
+ * `policy.attempts` is the total number of attempts, including the first one.
+ */
+export async function withRetry<T>(
+  task: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  classify: (error: unknown) => RetryDecision,
+  onRetry?: (retry: number, error: unknown, delayMs: number) => void
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      const decision = classify(error);
+      if (!decision.retry || attempt >= policy.attempts) {
+        throw error;
+      }
+
+      const delayMs = Math.min(
+        policy.maxDelayMs,
+        decision.delayMs ?? getBackoffDelay(attempt, policy)
+      );
+      onRetry?.(attempt, error, delayMs);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+/**
+ * Parse a Retry-After header, given either in seconds or as an HTTP date
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Blossom HTTP failures: network errors, timeouts, 408, 429 and 5xx are transient.
+ * Other 4xx answers, such as 403, 413 and 415, are permanent.
+ */
+export function classifyHttpError(error: unknown): RetryDecision {
+  if (!axios.isAxiosError(error)) {
+    return { retry: false };
+  }
+
+  const status = error.response?.status;
+  if (status === undefined) {
+    return { retry: true };
+  }
+
+  if (status === 408 || status === 429 || status >= 500) {
+    return { retry: true, delayMs: parseRetryAfter(error.response?.headers?.['retry-after']) };
+  }
+
+  return { retry: false };
+}
+
+/**
+ * Relay OK/connection failures: `rate-limited:` rejections, timeouts and dropped
+ * connections are transient, other machine-readable prefixes are permanent
+ */
+export function classifyRelayError(error: unknown): RetryDecision {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (message.startsWith('rate-limited:')) {
+    return { retry: true };
+  }
+
+  const permanentPrefixes = [
+    'blocked:',
+    'invalid:',
+    'pow:',
+    'restricted:',
+    'duplicate:',
+    'auth-required:',
+    'mute:',
+  ];
+  if (permanentPrefixes.some((prefix) => message.startsWith(prefix))) {
+    return { retry: false };
+  }
+
+  return { retry: true };
+}
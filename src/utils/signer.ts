@@ -0,0 +1,113 @@
+import { EventTemplate, finalizeEvent, getPublicKey, VerifiedEvent } from 'nostr-tools';
+import { NostrConfig } from '../types';
+import { BunkerSigner } from './bunker';
+import { isEncryptedKey, unlockPrivateKey } from './ncryptsec';
+
+/**
+ * Signs events for the project's Nostr identity. The key either lives in the
+ * project configuration, plain or NIP-49 encrypted, or stays with a NIP-46
+ * remote signer (bunker).
+ */
+export interface NostrSigner {
+  getPublicKey(): Promise<string>;
+  signEvent(template: EventTemplate): Promise<VerifiedEvent>;
+  close(): Promise<void>;
+}
+
+/**
+ * Signs with a private key held in memory
+ */
+export class LocalKeySigner implements NostrSigner {
+  private readonly secretKey: Uint8Array;
+
+  constructor(privateKey: string | Uint8Array) {
+    this.secretKey =
+      typeof privateKey === 'string' ? new Uint8Array(Buffer.from(privateKey, 'hex')) : privateKey;
+  }
+
+  public async getPublicKey(): Promise<string> {
+    return getPublicKey(this.secretKey);
+  }
+
+  public async signEvent(template: EventTemplate): Promise<VerifiedEvent> {
+    return finalizeEvent(template, this.secretKey);
+  }
+
+  public async close(): Promise<void> {}
+}
+
+/**
+ * Signs with a NIP-49 encrypted key, asking for the passphrase on first use
+ */
+export class EncryptedKeySigner implements NostrSigner {
+  private signer: Promise<LocalKeySigner> | null = null;
+
+  constructor(private readonly ncryptsec: string) {}
+
+  public async getPublicKey(): Promise<string> {
+    return (await this.unlock()).getPublicKey();
+  }
+
+  public async signEvent(template: EventTemplate): Promise<VerifiedEvent> {
+    return (await this.unlock()).signEvent(template);
+  }
+
+  public async close(): Promise<void> {}
+
+  private unlock(): Promise<LocalKeySigner> {
+    if (!this.signer) {
+      this.signer = unlockPrivateKey(this.ncryptsec).then(
+        (privateKey) => new LocalKeySigner(privateKey),
+        (error) => {
+          this.signer = null;
+          throw error;
+        }
+      );
+    }
+    return this.signer;
+  }
+}
+
+// One signer per identity, so a bunker is connected to once per run
+const signers = new Map<string, NostrSigner>();
+
+/**
+ * Whether the configuration can sign events, with a bunker or a private key
+ */
+export function canSign(nostrConfig?: Partial<NostrConfig>): boolean {
+  return !!(nostrConfig?.bunker || nostrConfig?.privateKey);
+}
+
+/**
+ * The signer for the configured identity. A bunker connection string takes
+ * precedence over a private key.
+ */
+export function getSigner(nostrConfig?: Partial<NostrConfig>): NostrSigner {
+  const key = nostrConfig?.bunker || nostrConfig?.privateKey;
+  if (!key) {
+    throw new Error('No private key or bunker configured. Run `nostr-deploy-cli auth` first.');
+  }
+
+  let signer = signers.get(key);
+  if (!signer) {
+    if (nostrConfig?.bunker) {
+      signer = BunkerSigner.fromUrl(nostrConfig.bunker);
+    } else if (isEncryptedKey(nostrConfig?.privateKey)) {
+      signer = new EncryptedKeySigner(nostrConfig!.privateKey!);
+    } else {
+      signer = new LocalKeySigner(nostrConfig!.privateKey!);
+    }
+    signers.set(key, signer);
+  }
+  return signer;
+}
+
+/**
+ * Ask for the passphrase of an encrypted key before a command starts its
+ * spinners, so the prompt is not drawn over halfway through
+ */
+export async function unlockSigner(nostrConfig?: Partial<NostrConfig>): Promise<void> {
+  if (!nostrConfig?.bunker && isEncryptedKey(nostrConfig?.privateKey)) {
+    await getSigner(nostrConfig).getPublicKey();
+  }
+}
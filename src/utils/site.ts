@@ -0,0 +1,70 @@
+/**
+ * Named sites let one pubkey publish several sites. The default site keeps plain
+ * absolute paths as `d` tags, a named site prefixes them with its name
+ * (`docs:/index.html`) so the addressable events of different sites never collide.
+ */
+
+// Filter value that matches the files of every site, e.g. for blob garbage collection
+export const ALL_SITES = '*';
+
+// Site names become a DNS label in front of the npub subdomain
+const SITE_NAME_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
+
+export interface SitePath {
+  site?: string;
+  path: string;
+}
+
+/**
+ * Normalize a site name and check that it can be used as a subdomain label
+ */
+export function normalizeSiteName(name: string): string {
+  const normalized = name.trim().toLowerCase();
+  if (!SITE_NAME_PATTERN.test(normalized)) {
+    throw new Error(
+      `Invalid site name "${name}": use lowercase letters, digits and dashes (max 63 characters)`
+    );
+  }
+  return normalized;
+}
+
+/**
+ * Build the `d` tag of a kind 34128 event for a path of the given site
+ */
+export function toEventPath(sitePath: string, site?: string): string {
+  return site ? `${site}:${sitePath}` : sitePath;
+}
+
+/**
+ * Split a kind 34128 `d` tag into its site name and absolute path
+ */
+export function parseEventPath(dTag: string): SitePath {
+  if (dTag.startsWith('/')) {
+    return { path: dTag };
+  }
+
+  const separator = dTag.indexOf(':/');
+  if (separator <= 0) {
+    return { path: dTag };
+  }
+  return { site: dTag.substring(0, separator), path: dTag.substring(separator + 1) };
+}
+
+/**
+ * Check whether a `d` tag belongs to the requested site, returning its site path
+ */
+export function matchSitePath(dTag: string, site?: string): string | null {
+  if (site === ALL_SITES) {
+    return dTag;
+  }
+
+  const parsed = parseEventPath(dTag);
+  return parsed.site === site ? parsed.path : null;
+}
+
+/**
+ * Gateway subdomain of a site: `<npub>` for the default site, `<name>.<npub>` for named sites
+ */
+export function getSiteSubdomain(npub: string, site?: string): string {
+  return site ? `${site}.${npub}` : npub;
+}